@@ -29,14 +29,15 @@ export default {
       showPageHeadings: true,
     },
   },
+  // @generated-begin services.manifest.yml (edit the manifest, then run `yarn manifest` in tools/spec-tools)
   generators: [
     [
       '@eventcatalog/generator-asyncapi',
       {
         services: [
-          { path: path.join(__dirname, 'asyncapi-files', 'orders-service.yml'), id: 'Orders Service' },
-          { path: path.join(__dirname, 'asyncapi-files', 'order-fulfillment-service.yml'), id: 'Order Fulfillment' },
-          { path: path.join(__dirname, 'asyncapi-files', 'inventory-service.yml'), id: 'Inventory Service' },
+          { path: path.join(__dirname, 'asyncapi-files', 'orders-service.yml'), id: 'Orders Service', owners: ['full-stack'] },
+          { path: path.join(__dirname, 'asyncapi-files', 'order-fulfillment-service.yml'), id: 'Order Fulfillment', owners: ['full-stack'] },
+          { path: path.join(__dirname, 'asyncapi-files', 'inventory-service.yml'), id: 'Inventory Service', owners: ['full-stack'] },
         ],
         domain: { id: 'orders', name: 'Orders', version: '1.0.0' },
       },
@@ -45,7 +46,7 @@ export default {
       '@eventcatalog/generator-asyncapi',
       {
         services: [
-          { path: path.join(__dirname, 'asyncapi-files', 'payment-service.yml'), id: 'Payment Service' },
+          { path: path.join(__dirname, 'asyncapi-files', 'payment-service.yml'), id: 'Payment Service', owners: ['full-stack'] },
         ],
         domain: { id: 'payment', name: 'Payment', version: '1.0.0' },
       },
@@ -54,12 +55,22 @@ export default {
       '@eventcatalog/generator-asyncapi',
       {
         services: [
-          { path: path.join(__dirname, 'asyncapi-files', 'user-service.yml'), id: 'User Service' },
+          { path: path.join(__dirname, 'asyncapi-files', 'user-service.yml'), id: 'User Service', owners: ['mobile-devs'] },
         ],
         domain: { id: 'user-domain', name: 'User Domain', version: '1.0.0' },
-        debug: true
+        debug: true,
+      },
+    ],
+    [
+      '@eventcatalog/generator-openapi',
+      {
+        services: [
+          { path: path.join(__dirname, 'openapi-files', 'orders-service.yml'), id: 'Orders Service', owners: ['full-stack'] },
+        ],
+        domain: { id: 'orders', name: 'Orders', version: '1.0.0' },
       },
     ],
   ],
+  // @generated-end
   output: 'static',
 };
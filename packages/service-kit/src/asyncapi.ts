@@ -0,0 +1,81 @@
+// ============================================================================
+// The parts of an AsyncAPI 3 document the services read at runtime
+// ============================================================================
+export interface Reference {
+  $ref: string;
+}
+
+export interface SchemaObject {
+  default?: unknown;
+  properties?: Record<string, SchemaObject | Reference>;
+  [keyword: string]: unknown;
+}
+
+export interface MessageObject {
+  headers?: SchemaObject | Reference;
+  payload?: SchemaObject | Reference;
+  [field: string]: unknown;
+}
+
+export interface ChannelObject {
+  address: string;
+  messages?: Record<string, MessageObject | Reference>;
+  [field: string]: unknown;
+}
+
+export interface ServerObject {
+  host: string;
+  protocol: string;
+  protocolVersion?: string;
+  [field: string]: unknown;
+}
+
+export interface OperationObject {
+  action: 'send' | 'receive';
+  channel?: Reference;     // To an entry of `channels`
+  messages?: Reference[];  // To messages of that channel
+  [field: string]: unknown;
+}
+
+export interface AsyncApiDocument {
+  asyncapi: string;
+  info?: { title?: string; version?: string; description?: string };
+  servers?: Record<string, ServerObject>;
+  channels?: Record<string, ChannelObject>;
+  operations?: Record<string, OperationObject>;
+  components?: Record<string, unknown>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
+
+export function isReference(value: unknown): value is Reference {
+  return isObject(value) && typeof value.$ref === 'string';
+}
+
+/**
+ * isAsyncApiDocument - Enough of a check on parsed YAML to read it as an AsyncApiDocument
+ */
+export function isAsyncApiDocument(value: unknown): value is AsyncApiDocument {
+  return isObject(value) && typeof value.asyncapi === 'string';
+}
+
+/**
+ * resolvePointer - The node a JSON pointer such as `/components/messages/OrderCreated`
+ * points at, undefined when it points nowhere
+ */
+export function resolvePointer(doc: AsyncApiDocument, pointer: string): unknown {
+  return pointer.split('/').slice(1)
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, key) => (isObject(node) ? node[key] : undefined), doc);
+}
+
+/**
+ * resolve - `node`, or what it points at when it is a local `$ref`
+ */
+export function resolve<T>(doc: AsyncApiDocument, node: T | Reference | undefined): T | undefined {
+  if (!isReference(node)) return node;
+  if (!node.$ref.startsWith('#/')) return undefined;
+  return resolvePointer(doc, node.$ref.slice(1)) as T | undefined;
+}
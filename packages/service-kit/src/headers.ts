@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import { AsyncApiDocument, MessageObject, SchemaObject, resolve } from './asyncapi';
+
+// ============================================================================
+// Message headers declared in the AsyncAPI document (e.g. ec-message-type)
+// and the envelope every outbound message carries
+// ============================================================================
+export const ENVELOPE_HEADERS = {
+  messageId: 'message-id',
+  correlationId: 'correlation-id',
+  causationId: 'causation-id',
+  timestamp: 'timestamp',
+  specVersion: 'spec-version',
+} as const;
+
+export interface MessageEnvelope {
+  messageId: string;
+  correlationId: string;  // Shared by every message of one order saga
+  causationId?: string;   // messageId of the message that triggered this one
+  timestamp: Date;
+  specVersion: string;    // info.version of the spec the sender was built against
+}
+
+// Header access of inbound and outbound messages; NATS MsgHdrs fits both
+export interface HeaderReader {
+  get(name: string): string | undefined;
+}
+
+export interface HeaderWriter {
+  set(name: string, value: string): void;
+}
+
+/**
+ * readEnvelope - The envelope headers of an inbound message; senders that predate
+ * the envelope send none, so every field may be missing
+ */
+export function readEnvelope(h: HeaderReader | undefined): Partial<MessageEnvelope> {
+  const get = (name: string) => h?.get(name) || undefined;
+  const timestamp = get(ENVELOPE_HEADERS.timestamp);
+  return {
+    messageId: get(ENVELOPE_HEADERS.messageId),
+    correlationId: get(ENVELOPE_HEADERS.correlationId),
+    causationId: get(ENVELOPE_HEADERS.causationId),
+    timestamp: timestamp ? new Date(timestamp) : undefined,
+    specVersion: get(ENVELOPE_HEADERS.specVersion),
+  };
+}
+
+/**
+ * writeEnvelope - Sets the envelope headers of an outbound message, returning `h`
+ */
+export function writeEnvelope<H extends HeaderWriter>(h: H, envelope: MessageEnvelope): H {
+  h.set(ENVELOPE_HEADERS.messageId, envelope.messageId);
+  h.set(ENVELOPE_HEADERS.correlationId, envelope.correlationId);
+  if (envelope.causationId) h.set(ENVELOPE_HEADERS.causationId, envelope.causationId);
+  h.set(ENVELOPE_HEADERS.timestamp, envelope.timestamp.toISOString());
+  h.set(ENVELOPE_HEADERS.specVersion, envelope.specVersion);
+  return h;
+}
+
+export interface EnvelopeHeaders<H extends HeaderWriter> {
+  /**
+   * Envelope for a new outbound message. With a `cause` (the envelope of the inbound
+   * message being handled) the correlation id is carried over and the cause becomes
+   * the causation id; otherwise `correlationId` starts a new saga.
+   */
+  createEnvelope(correlationId: string, cause?: Partial<MessageEnvelope>, timestamp?: Date): MessageEnvelope;
+  /** The `default` of every header the spec declares for a message on a channel */
+  headerDefaults(channel: string, messageName: string): Record<string, string>;
+  /** Headers for an outbound message, filled from the spec defaults and the envelope */
+  messageHeaders(channel: string, messageName: string, envelope: MessageEnvelope): H;
+}
+
+/**
+ * envelopeHeaders - Envelope and header functions for the service whose AsyncAPI document
+ * `specDocument` returns, writing headers into what `newHeaders` creates
+ */
+export function envelopeHeaders<H extends HeaderWriter>(
+  specDocument: () => AsyncApiDocument,
+  newHeaders: () => H
+): EnvelopeHeaders<H> {
+  const defaults = new Map<string, Record<string, string>>();
+
+  function headerDefaults(channel: string, messageName: string): Record<string, string> {
+    const key = `${channel}/${messageName}`;
+    const cached = defaults.get(key);
+    if (cached) return cached;
+
+    const doc = specDocument();
+    const values: Record<string, string> = {};
+    for (const channelDef of Object.values(doc.channels ?? {})) {
+      if (channelDef.address !== channel) continue;
+      const message = resolve<MessageObject>(doc, channelDef.messages?.[messageName]);
+      const headers = resolve<SchemaObject>(doc, message?.headers);
+      for (const [name, schema] of Object.entries(headers?.properties ?? {})) {
+        const property = resolve<SchemaObject>(doc, schema);
+        if (property?.default !== undefined) values[name] = String(property.default);
+      }
+    }
+    defaults.set(key, values);
+    return values;
+  }
+
+  return {
+    headerDefaults,
+
+    createEnvelope(correlationId, cause, timestamp = new Date()) {
+      return {
+        messageId: crypto.randomUUID(),
+        correlationId: cause?.correlationId ?? correlationId,
+        causationId: cause?.messageId,
+        timestamp,
+        specVersion: String(specDocument().info?.version ?? ''),
+      };
+    },
+
+    messageHeaders(channel, messageName, envelope) {
+      const h = newHeaders();
+      for (const [name, value] of Object.entries(headerDefaults(channel, messageName))) {
+        h.set(name, value);
+      }
+      return writeEnvelope(h, envelope);
+    },
+  };
+}
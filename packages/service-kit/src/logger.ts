@@ -0,0 +1,155 @@
+import { inspect } from 'util';
+
+// ============================================================================
+// Structured logging
+//
+//   LOG_LEVEL    debug | info (default) | warn | error
+//   LOG_FORMAT   pretty (default) | json, one object per line for log aggregation
+//   LOG_REDACT   Comma separated field names to redact besides the defaults
+//
+// Every service creates its own logger with its name as the `service` field.
+// ============================================================================
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+export type LogFormat = 'pretty' | 'json';
+
+// Fields that are replaced wherever they appear, payloads included (e.g. UserSignedUp.email)
+export const DEFAULT_REDACTED_FIELDS = ['email', 'password', 'token', 'cardNumber'];
+export const REDACTED = '[redacted]';
+
+export interface LogFields {
+  service?: string;
+  channel?: string;
+  operation?: string;   // operationId in the AsyncAPI document, e.g. receivePaymentFailed
+  orderId?: string;
+  correlationId?: string;
+  err?: unknown;
+  [field: string]: unknown;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  redact: string[];
+}
+
+export type LogWriter = (level: LogLevel, line: string) => void;
+
+export function loggerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): LoggerOptions {
+  const level = (env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')}, got "${env.LOG_LEVEL}"`);
+  }
+  const extra = (env.LOG_REDACT || '').split(',').map(f => f.trim()).filter(Boolean);
+  return {
+    level,
+    format: env.LOG_FORMAT === 'json' ? 'json' : 'pretty',
+    redact: [...DEFAULT_REDACTED_FIELDS, ...extra],
+  };
+}
+
+/**
+ * redact - Copy of `value` with every property named in `fields` replaced, at any depth.
+ * Errors become plain objects with their name, message, own properties and stack on the way.
+ */
+export function redact(value: unknown, fields: string[]): unknown {
+  if (value instanceof Error) {
+    // Own properties keep the details of errors like ContractViolationError (channel, issues, ...)
+    const { name, message, stack } = value;
+    return redact({ name, message, ...Object.fromEntries(Object.entries(value)), stack }, fields);
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => redact(item, fields));
+  if (value === null || typeof value !== 'object') return value;
+
+  // Model classes (e.g. OrderCancelled) keep their data in private fields behind getters
+  const { toJSON } = value as { toJSON?: unknown };
+  if (typeof toJSON === 'function') return redact(toJSON.call(value), fields);
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = fields.includes(key) ? REDACTED : redact(item, fields);
+  }
+  return copy;
+}
+
+// Errors have been through redact, so the stack is a plain property by now
+function errorText(err: unknown): string {
+  const stack = err !== null && typeof err === 'object' && 'stack' in err ? err.stack : undefined;
+  return typeof stack === 'string' ? stack : inspect(err, { depth: 4 });
+}
+
+const defaultWriter: LogWriter = (level, line) => {
+  if (level === 'warn' || level === 'error') {
+    process.stderr.write(line + '\n');
+  } else {
+    process.stdout.write(line + '\n');
+  }
+};
+
+/**
+ * Logger - Writes a message with the fixed fields of the logger and those of the call
+ */
+export class Logger {
+  constructor(
+    private readonly fields: LogFields = {},
+    private readonly options: LoggerOptions = loggerOptionsFromEnv(),
+    private readonly writer: LogWriter = defaultWriter,
+  ) {}
+
+  /**
+   * child - Logger that adds `fields` to every line, e.g. the channel and orderId of one message
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields }, this.options, this.writer);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.options.level);
+  }
+
+  /**
+   * isJson - Whether lines are JSON objects, in which case free-form output such as banners is left out
+   */
+  isJson(): boolean {
+    return this.options.format === 'json';
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) return;
+    const all = redact({ ...this.fields, ...fields }, this.options.redact) as Record<string, unknown>;
+    for (const [key, value] of Object.entries(all)) {
+      if (value === undefined) delete all[key];
+    }
+
+    if (this.options.format === 'json') {
+      this.writer(level, JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...all }));
+      return;
+    }
+
+    // The service name is the same on every line of a process, so pretty output leaves it out,
+    // and an error's stack reads better on its own lines
+    const { service, err, ...shown } = all;
+    const context = Object.keys(shown).length > 0
+      ? ' ' + inspect(shown, { breakLength: Infinity, depth: 4, colors: false })
+      : '';
+    const error = err === undefined ? '' : '\n' + errorText(err);
+    this.writer(level, `${message}${context}${error}`);
+  }
+}
@@ -0,0 +1,66 @@
+import { JSONCodec, Msg, NatsConnection, Subscription } from 'nats';
+import { ContractViolationError, SpecValidation } from './validation';
+import { MessageEnvelope, readEnvelope } from './headers';
+import { Logger } from './logger';
+
+// ============================================================================
+// Inbound NATS messages: decoded, checked against the AsyncAPI document and
+// handed to a handler one at a time
+// ============================================================================
+const jc = JSONCodec();
+
+export interface NatsSubscriptions {
+  /**
+   * Decodes an inbound message and checks it against the AsyncAPI message schema,
+   * logging a structured error when it breaks the contract
+   */
+  decodeValidated(msg: Pick<Msg, 'subject' | 'data' | 'headers'>, messageName: string): object;
+  /** Subscribes a handler to a channel, one message at a time; a failing message is logged and skipped */
+  subscribe<T>(
+    nc: NatsConnection,
+    channel: string,
+    messageName: string,
+    unmarshal: (json: object) => T,
+    handler: (data: T, envelope: Partial<MessageEnvelope>) => Promise<void>
+  ): Subscription;
+}
+
+/**
+ * natsSubscriptions - decodeValidated and subscribe for the service whose payloads
+ * `validatePayload` checks, logging through `logger`
+ */
+export function natsSubscriptions(validatePayload: SpecValidation['validatePayload'], logger: Logger): NatsSubscriptions {
+  function decodeValidated(msg: Pick<Msg, 'subject' | 'data' | 'headers'>, messageName: string): object {
+    const payload = jc.decode(msg.data);
+    try {
+      validatePayload(msg.subject, messageName, payload, 'receive');
+    } catch (err) {
+      if (err instanceof ContractViolationError) {
+        logger.error(`🚨 Rejected invalid ${messageName}`, { channel: msg.subject, err });
+      }
+      throw err;
+    }
+    return payload as object;
+  }
+
+  return {
+    decodeValidated,
+
+    subscribe(nc, channel, messageName, unmarshal, handler) {
+      const sub = nc.subscribe(channel);
+
+      (async () => {
+        for await (const msg of sub) {
+          try {
+            await handler(unmarshal(decodeValidated(msg, messageName)), readEnvelope(msg.headers));
+          } catch (err) {
+            logger.error(`❌ Error processing ${messageName}`, { channel, operation: `receive${messageName}`, err });
+          }
+        }
+      })();
+
+      logger.info('📬 Subscribed', { channel });
+      return sub;
+    },
+  };
+}
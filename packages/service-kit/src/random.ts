@@ -0,0 +1,39 @@
+// ============================================================================
+// Seedable randomness, so a simulator scenario or a fulfillment run can be
+// reproduced event for event
+// ============================================================================
+export type Rng = () => number;
+
+/**
+ * seededRng - Deterministic generator (mulberry32) returning floats in [0, 1)
+ */
+export function seededRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+export function randomInt(rng: Rng, min: number, max: number): number {
+  return Math.floor(rng() * (max - min + 1)) + min;
+}
+
+export function pick<T>(rng: Rng, values: T[]): T {
+  return values[Math.floor(rng() * values.length)];
+}
+
+/**
+ * randomId - Readable ID such as ORD-k3j9x0a2m1, drawn from the rng
+ */
+export function randomId(rng: Rng, prefix: string): string {
+  const suffix = Array.from({ length: 10 }, () => Math.floor(rng() * 36).toString(36)).join('');
+  return `${prefix}-${suffix}`;
+}
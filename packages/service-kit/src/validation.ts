@@ -0,0 +1,147 @@
+import fs from 'fs';
+import path from 'path';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import YAML from 'yaml';
+import { AsyncApiDocument, isAsyncApiDocument, resolvePointer } from './asyncapi';
+
+// ============================================================================
+// Runtime validation of payloads and headers against a service's AsyncAPI document
+// ============================================================================
+export type Direction = 'send' | 'receive';
+
+export interface ValidationIssue {
+  pointer: string; // JSON pointer into the payload, '' for the root
+  message: string;
+}
+
+/**
+ * ContractViolationError - A payload does not match its message schema in the AsyncAPI document
+ */
+export class ContractViolationError extends Error {
+  constructor(
+    public readonly channel: string,
+    public readonly messageName: string,
+    public readonly direction: Direction,
+    public readonly issues: ValidationIssue[],
+  ) {
+    super(
+      `${messageName} on ${channel} (${direction}) violates the contract: ` +
+      issues.map(issue => `${issue.pointer || '/'} ${issue.message}`).join('; ')
+    );
+    this.name = 'ContractViolationError';
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      error: this.name,
+      channel: this.channel,
+      message: this.messageName,
+      direction: this.direction,
+      issues: this.issues,
+    };
+  }
+}
+
+type MessagePart = 'payload' | 'headers';
+
+export interface SpecValidation {
+  /** The parsed AsyncAPI document, read once */
+  specDocument(): AsyncApiDocument;
+  /**
+   * Checks a plain JSON payload against the message schema for a channel.
+   * Throws a ContractViolationError listing every failing JSON pointer.
+   */
+  validatePayload(channel: string, messageName: string, payload: unknown, direction: Direction): void;
+  /**
+   * Checks the headers of a message against the headers schema the spec declares
+   * for it, if any. Throws a ContractViolationError like validatePayload.
+   */
+  validateHeaders(channel: string, messageName: string, headers: Record<string, string>, direction: Direction): void;
+}
+
+function toIssue(error: ErrorObject): ValidationIssue {
+  const params = error.params as Record<string, unknown>;
+  if (error.keyword === 'additionalProperties') {
+    return { pointer: `${error.instancePath}/${params.additionalProperty}`, message: 'is not allowed by the schema' };
+  }
+  if (error.keyword === 'required') {
+    return { pointer: `${error.instancePath}/${params.missingProperty}`, message: 'is required' };
+  }
+  return { pointer: error.instancePath, message: error.message ?? error.keyword };
+}
+
+/**
+ * specValidation - Validation against the AsyncAPI document at `specPath`, which is read
+ * and compiled on first use
+ */
+export function specValidation(specPath: string): SpecValidation {
+  const specId = path.basename(specPath);
+  let spec: AsyncApiDocument | null = null;
+  const validators = new Map<MessagePart, Map<string, ValidateFunction>>();
+
+  function specDocument(): AsyncApiDocument {
+    if (!spec) {
+      const parsed: unknown = YAML.parse(fs.readFileSync(specPath, 'utf8'));
+      if (!isAsyncApiDocument(parsed)) throw new Error(`${specPath} is not an AsyncAPI document`);
+      spec = parsed;
+    }
+    return spec;
+  }
+
+  /**
+   * Compiles one validator of the payload or headers per channel address and message name
+   * from `channels.*.messages` in the spec, resolving `$ref`s to `components`.
+   * Messages without headers get no headers validator.
+   */
+  function loadValidators(part: MessagePart): Map<string, ValidateFunction> {
+    const doc = specDocument();
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    addFormats(ajv);
+    ajv.addFormat('float', true);
+    ajv.addSchema(doc, specId);
+
+    const compiled = new Map<string, ValidateFunction>();
+    for (const [channelId, channel] of Object.entries(doc.channels ?? {})) {
+      for (const [messageName, message] of Object.entries(channel.messages ?? {})) {
+        const messagePointer = typeof message.$ref === 'string' && message.$ref.startsWith('#')
+          ? message.$ref.slice(1)
+          : `/channels/${channelId}/messages/${messageName}`;
+        if (resolvePointer(doc, `${messagePointer}/${part}`) === undefined) continue;
+        compiled.set(
+          `${channel.address}/${messageName}`,
+          ajv.compile({ $ref: `${specId}#${messagePointer}/${part}` })
+        );
+      }
+    }
+    return compiled;
+  }
+
+  function validatorFor(part: MessagePart, channel: string, messageName: string): ValidateFunction | undefined {
+    if (!validators.has(part)) validators.set(part, loadValidators(part));
+    return validators.get(part)!.get(`${channel}/${messageName}`);
+  }
+
+  return {
+    specDocument,
+
+    validatePayload(channel, messageName, payload, direction) {
+      const validate = validatorFor('payload', channel, messageName);
+      if (!validate) {
+        throw new ContractViolationError(channel, messageName, direction, [
+          { pointer: '', message: 'is not defined for this channel in the AsyncAPI document' },
+        ]);
+      }
+      if (!validate(payload)) {
+        throw new ContractViolationError(channel, messageName, direction, (validate.errors ?? []).map(toIssue));
+      }
+    },
+
+    validateHeaders(channel, messageName, headers, direction) {
+      const validate = validatorFor('headers', channel, messageName);
+      if (validate && !validate(headers)) {
+        throw new ContractViolationError(channel, messageName, direction, (validate.errors ?? []).map(toIssue));
+      }
+    },
+  };
+}
@@ -0,0 +1,84 @@
+// ============================================================================
+// Wire format helpers shared by the model classes
+// ============================================================================
+
+/**
+ * UnmarshalError - Raised when a payload does not match the shape a model expects
+ */
+export class UnmarshalError extends Error {
+  constructor(
+    public readonly model: string,
+    public readonly field: string,
+    public readonly expected: string,
+  ) {
+    super(`Cannot unmarshal ${model}: field "${field}" must be ${expected}`);
+    this.name = 'UnmarshalError';
+  }
+}
+
+export type WireObject = Record<string, unknown>;
+
+/**
+ * Accepts either a JSON string or an already decoded value and returns it as an object
+ */
+export function toWireObject(json: string | object, model: string): WireObject {
+  const obj: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+  if (obj === null || typeof obj !== 'object' || Array.isArray(obj)) {
+    throw new UnmarshalError(model, '$', 'an object');
+  }
+  return obj as WireObject;
+}
+
+export function readString(obj: WireObject, field: string, model: string): string {
+  const value = obj[field];
+  if (typeof value !== 'string') throw new UnmarshalError(model, field, 'a string');
+  return value;
+}
+
+export function readNumber(obj: WireObject, field: string, model: string): number {
+  const value = obj[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new UnmarshalError(model, field, 'a number');
+  return value;
+}
+
+export function readInteger(obj: WireObject, field: string, model: string): number {
+  const value = obj[field];
+  if (typeof value !== 'number' || !Number.isInteger(value)) throw new UnmarshalError(model, field, 'an integer');
+  return value;
+}
+
+export function readBoolean(obj: WireObject, field: string, model: string): boolean {
+  const value = obj[field];
+  if (typeof value !== 'boolean') throw new UnmarshalError(model, field, 'a boolean');
+  return value;
+}
+
+/**
+ * Reads a nested object, for the model class of that object to unmarshal
+ */
+export function readObject(obj: WireObject, field: string, model: string): WireObject {
+  const value = obj[field];
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) throw new UnmarshalError(model, field, 'an object');
+  return value as WireObject;
+}
+
+/**
+ * Reads a `format: date-time` string and turns it into a Date
+ */
+export function readDateTime(obj: WireObject, field: string, model: string): Date {
+  const value = obj[field];
+  const date = typeof value === 'string' ? new Date(value) : undefined;
+  if (!date || isNaN(date.getTime())) throw new UnmarshalError(model, field, 'an ISO 8601 date-time string');
+  return date;
+}
+
+export function readArray<T>(
+  obj: WireObject,
+  field: string,
+  model: string,
+  readItem: (item: unknown) => T,
+): T[] {
+  const value = obj[field];
+  if (!Array.isArray(value)) throw new UnmarshalError(model, field, 'an array');
+  return value.map(readItem);
+}
@@ -0,0 +1,111 @@
+// Generated by the channels preset of tools/spec-tools from inventory-service.yml, do not edit
+import { INVENTORY_RELEASED_HEADER_DEFAULTS } from '../headers/InventoryReleasedHeaders';
+import { INVENTORY_RESERVED_HEADER_DEFAULTS } from '../headers/InventoryReservedHeaders';
+import { INVENTORY_UPDATED_HEADER_DEFAULTS } from '../headers/InventoryUpdatedHeaders';
+import { InventoryReleased } from '../payloads/InventoryReleased';
+import { InventoryReserved } from '../payloads/InventoryReserved';
+import { InventoryUpdated } from '../payloads/InventoryUpdated';
+import { OrderCancelled } from '../payloads/OrderCancelled';
+import { OrderCreated } from '../payloads/OrderCreated';
+
+// A model class of the payloads preset
+export interface ChannelPayload {
+  toJSON(): Record<string, unknown>;
+  marshal(): string;
+}
+
+export interface SendOperation {
+  operationId: string;
+  channel: string;                  // Channel address
+  messageName: string;
+  headers: Record<string, string>;  // The header defaults the spec gives the message, e.g. ec-message-type
+}
+
+export interface ReceiveOperation<T> {
+  operationId: string;
+  channel: string;
+  messageName: string;
+  unmarshal(json: string | object): T;
+}
+
+export interface ChannelSubscription {
+  unsubscribe(): void;
+}
+
+/**
+ * ChannelRuntime - What the operations below send and receive through. The service decides
+ * how: the broker, validation, retries and dead-lettering, and what the envelope `E` of a
+ * message and the options `O` of a receive operation are. A handler that throws fails the message.
+ */
+export interface ChannelRuntime<E = unknown, O = unknown> {
+  send(operation: SendOperation, message: ChannelPayload, envelope?: E): Promise<void>;
+  receive<T>(operation: ReceiveOperation<T>, handler: (message: T, envelope: Partial<E>) => Promise<void>, options?: O): ChannelSubscription;
+}
+
+/**
+ * sendInventoryReserved - Sends InventoryReserved on inventory.reserved
+ */
+export function sendInventoryReserved<E>(runtime: ChannelRuntime<E>, message: InventoryReserved, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendInventoryReserved',
+    channel: 'inventory.reserved',
+    messageName: 'InventoryReserved',
+    headers: INVENTORY_RESERVED_HEADER_DEFAULTS,
+  }, message, envelope);
+}
+
+/**
+ * sendInventoryReleased - Sends InventoryReleased on inventory.released
+ */
+export function sendInventoryReleased<E>(runtime: ChannelRuntime<E>, message: InventoryReleased, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendInventoryReleased',
+    channel: 'inventory.released',
+    messageName: 'InventoryReleased',
+    headers: INVENTORY_RELEASED_HEADER_DEFAULTS,
+  }, message, envelope);
+}
+
+/**
+ * sendInventoryUpdated - Sends InventoryUpdated on inventory.updated
+ */
+export function sendInventoryUpdated<E>(runtime: ChannelRuntime<E>, message: InventoryUpdated, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendInventoryUpdated',
+    channel: 'inventory.updated',
+    messageName: 'InventoryUpdated',
+    headers: INVENTORY_UPDATED_HEADER_DEFAULTS,
+  }, message, envelope);
+}
+
+/**
+ * receiveOrderCreated - Hands every OrderCreated on order.created to `handler`
+ */
+export function receiveOrderCreated<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: OrderCreated, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receiveOrderCreated',
+    channel: 'order.created',
+    messageName: 'OrderCreated',
+    unmarshal: OrderCreated.unmarshal,
+  }, handler, options);
+}
+
+/**
+ * receiveOrderCancelled - Hands every OrderCancelled on order.cancelled to `handler`
+ */
+export function receiveOrderCancelled<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: OrderCancelled, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receiveOrderCancelled',
+    channel: 'order.cancelled',
+    messageName: 'OrderCancelled',
+    unmarshal: OrderCancelled.unmarshal,
+  }, handler, options);
+}
@@ -0,0 +1,26 @@
+// Generated by the handlers preset of tools/spec-tools from inventory-service.yml, do not edit
+import { ChannelRuntime, ChannelSubscription, receiveOrderCreated, receiveOrderCancelled } from '../channels';
+import { OrderCancelled } from '../payloads/OrderCancelled';
+import { OrderCreated } from '../payloads/OrderCreated';
+
+export interface InventoryServiceHandlers<E = unknown> {
+  onOrderCreated(message: OrderCreated, envelope: Partial<E>): Promise<void>;
+  onOrderCancelled(message: OrderCancelled, envelope: Partial<E>): Promise<void>;
+}
+
+/**
+ * wireHandlers - Subscribes every receive operation of Inventory Service to its handler through
+ * `runtime`, with the receive options of each operation (e.g. its retry policy) from `options`
+ */
+export function wireHandlers<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handlers: InventoryServiceHandlers<E>,
+  options: Partial<Record<
+    | 'receiveOrderCreated'
+    | 'receiveOrderCancelled', O>> = {}
+): ChannelSubscription[] {
+  return [
+    receiveOrderCreated(runtime, (message, envelope) => handlers.onOrderCreated(message, envelope), options.receiveOrderCreated),
+    receiveOrderCancelled(runtime, (message, envelope) => handlers.onOrderCancelled(message, envelope), options.receiveOrderCancelled),
+  ];
+}
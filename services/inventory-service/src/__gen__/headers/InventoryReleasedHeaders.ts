@@ -0,0 +1,18 @@
+// Generated by the headers preset of tools/spec-tools from inventory-service.yml, do not edit
+
+/**
+ * InventoryReleasedHeaders - The headers of InventoryReleased, by name; values travel as strings
+ */
+export interface InventoryReleasedHeaders {
+  'ec-message-type'?: string; // Type of message for EventCatalog
+  'message-id'?: string; // Unique id of this message
+  'correlation-id'?: string; // Id shared by every message of one order saga, the orderId of the flow that started it
+  'causation-id'?: string; // message-id of the message that caused this one to be sent
+  'timestamp'?: string; // When the message was sent
+  'spec-version'?: string; // info.version of the AsyncAPI document the sender was built against
+}
+
+// The `default` the spec gives a header, for every header that has one
+export const INVENTORY_RELEASED_HEADER_DEFAULTS = {
+  'ec-message-type': 'event',
+} satisfies InventoryReleasedHeaders;
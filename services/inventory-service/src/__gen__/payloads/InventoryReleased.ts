@@ -0,0 +1,46 @@
+// Generated by the payloads preset of tools/spec-tools from inventory-service.yml, do not edit
+import { readArray, readString, toWireObject } from 'service-kit/src/wire';
+import { InventoryReleasedItem } from './InventoryReleasedItem';
+
+export interface InventoryReleasedProps {
+  reservationId: string;
+  orderId: string;
+  items: InventoryReleasedItem[];
+}
+
+export class InventoryReleased {
+  private _reservationId: string;
+  private _orderId: string;
+  private _items: InventoryReleasedItem[];
+
+  constructor(props: InventoryReleasedProps) {
+    this._reservationId = props.reservationId;
+    this._orderId = props.orderId;
+    this._items = props.items;
+  }
+
+  get reservationId(): string { return this._reservationId; }
+  get orderId(): string { return this._orderId; }
+  get items(): InventoryReleasedItem[] { return this._items; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      reservationId: this._reservationId,
+      orderId: this._orderId,
+      items: this._items.map(item => item.toJSON()),
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): InventoryReleased {
+    const obj = toWireObject(json, 'InventoryReleased');
+    return new InventoryReleased({
+      reservationId: readString(obj, 'reservationId', 'InventoryReleased'),
+      orderId: readString(obj, 'orderId', 'InventoryReleased'),
+      items: readArray(obj, 'items', 'InventoryReleased', item => InventoryReleasedItem.unmarshal(item as object)),
+    });
+  }
+}
@@ -0,0 +1,39 @@
+// Generated by the payloads preset of tools/spec-tools from inventory-service.yml, do not edit
+import { readInteger, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface InventoryReleasedItemProps {
+  itemId: string;
+  quantity: number;
+}
+
+export class InventoryReleasedItem {
+  private _itemId: string;
+  private _quantity: number;
+
+  constructor(props: InventoryReleasedItemProps) {
+    this._itemId = props.itemId;
+    this._quantity = props.quantity;
+  }
+
+  get itemId(): string { return this._itemId; }
+  get quantity(): number { return this._quantity; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      itemId: this._itemId,
+      quantity: this._quantity,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): InventoryReleasedItem {
+    const obj = toWireObject(json, 'InventoryReleasedItem');
+    return new InventoryReleasedItem({
+      itemId: readString(obj, 'itemId', 'InventoryReleasedItem'),
+      quantity: readInteger(obj, 'quantity', 'InventoryReleasedItem'),
+    });
+  }
+}
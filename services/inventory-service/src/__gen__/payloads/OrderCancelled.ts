@@ -0,0 +1,46 @@
+// Generated by the payloads preset of tools/spec-tools from inventory-service.yml, do not edit
+import { readArray, readString, toWireObject } from 'service-kit/src/wire';
+import { OrderCancelledItem } from './OrderCancelledItem';
+
+export interface OrderCancelledProps {
+  orderId: string;
+  reason: string;
+  items: OrderCancelledItem[];
+}
+
+export class OrderCancelled {
+  private _orderId: string;
+  private _reason: string;
+  private _items: OrderCancelledItem[];
+
+  constructor(props: OrderCancelledProps) {
+    this._orderId = props.orderId;
+    this._reason = props.reason;
+    this._items = props.items;
+  }
+
+  get orderId(): string { return this._orderId; }
+  get reason(): string { return this._reason; }
+  get items(): OrderCancelledItem[] { return this._items; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      orderId: this._orderId,
+      reason: this._reason,
+      items: this._items.map(item => item.toJSON()),
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): OrderCancelled {
+    const obj = toWireObject(json, 'OrderCancelled');
+    return new OrderCancelled({
+      orderId: readString(obj, 'orderId', 'OrderCancelled'),
+      reason: readString(obj, 'reason', 'OrderCancelled'),
+      items: readArray(obj, 'items', 'OrderCancelled', item => OrderCancelledItem.unmarshal(item as object)),
+    });
+  }
+}
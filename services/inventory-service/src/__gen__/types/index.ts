@@ -0,0 +1,21 @@
+// Generated by the types preset of tools/spec-tools from inventory-service.yml, do not edit
+
+// The address of every channel, by channel id
+export const CHANNEL_ADDRESSES = {
+  inventoryReserved: 'inventory.reserved',
+  inventoryReleased: 'inventory.released',
+  inventoryUpdated: 'inventory.updated',
+  orderCreated: 'order.created',
+  orderCancelled: 'order.cancelled',
+} as const;
+
+export type ChannelId = keyof typeof CHANNEL_ADDRESSES;
+export type ChannelAddress = (typeof CHANNEL_ADDRESSES)[ChannelId];
+
+export type SendOperationId =
+  | 'sendInventoryReserved'
+  | 'sendInventoryReleased'
+  | 'sendInventoryUpdated';
+export type ReceiveOperationId =
+  | 'receiveOrderCreated'
+  | 'receiveOrderCancelled';
@@ -0,0 +1,208 @@
+import { connect, NatsConnection, Subscription } from 'nats';
+
+import { CHANNELS } from './channels';
+import { InventoryReserved } from './models/InventoryReserved';
+import { InventoryReleased } from './models/InventoryReleased';
+import { InventoryUpdated } from './models/InventoryUpdated';
+import { OrderCreated } from './models/OrderCreated';
+import { OrderCancelled } from './models/OrderCancelled';
+import { ReservedItem } from './models/ReservedItem';
+import {
+  sendInventoryReserved,
+  sendInventoryReleased,
+  sendInventoryUpdated,
+  receiveOrderCreated,
+  receiveOrderCancelled,
+} from './nats';
+import { CATALOG_PATH, InsufficientStockError, Reservation, Stock, loadCatalog } from './stock';
+import { MessageEnvelope, createEnvelope } from './headers';
+import { Logger, logger } from './logger';
+
+// ============================================================================
+// Inventory Service Implementation
+// ============================================================================
+export class InventoryService {
+  private subscriptions: Subscription[] = [];
+  private running = true;
+
+  // `nc` is an open connection to use instead of connect(), e.g. a test double
+  constructor(
+    private readonly stock: Stock,
+    private nc: NatsConnection | null = null,
+  ) {}
+
+  async connect(natsUrl: string = 'nats://localhost:4222'): Promise<void> {
+    logger.info(`🔌 Connecting to NATS at ${natsUrl}...`);
+    this.nc = await connect({ servers: natsUrl });
+    logger.info(`✅ Connected to NATS server: ${this.nc.getServer()}`);
+  }
+
+  async disconnect(): Promise<void> {
+    this.running = false;
+    for (const sub of this.subscriptions) {
+      sub.unsubscribe();
+    }
+    this.subscriptions = [];
+
+    if (this.nc) {
+      await this.nc.drain();
+      logger.info('👋 Disconnected from NATS');
+    }
+  }
+
+  // =========================================================================
+  // Handlers (Business Logic)
+  // =========================================================================
+
+  /**
+   * handleOrderCreated - Reserves the ordered items, all or nothing.
+   * A shortage is reported and nothing is published, so the order stays pending.
+   */
+  handleOrderCreated = async (data: OrderCreated, envelope: Partial<MessageEnvelope>): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.orderCreated, 'receiveOrderCreated', data.orderId, envelope);
+    log.debug('📥 OrderCreated received', { payload: data });
+
+    if (this.stock.processed(data.orderId)) {
+      log.warn(`⚠️  Order ${data.orderId} was already processed, ignoring duplicate`);
+      return;
+    }
+
+    let reservation: Reservation;
+    try {
+      reservation = this.stock.reserve(data.orderId, data.items);
+    } catch (err) {
+      if (!(err instanceof InsufficientStockError)) throw err;
+      log.warn(`📉 ${err.message}`, { shortages: err.shortages });
+      return;
+    }
+
+    log.info(`📦 Reserved ${reservation.items.length} item(s) for order ${data.orderId}`);
+    const reserved = createEnvelope(data.orderId, envelope);
+    this.publish(nc => sendInventoryReserved(nc, new InventoryReserved({
+      reservationId: reservation.reservationId,
+      orderId: reservation.orderId,
+      items: reservation.items.map(item => new ReservedItem(item)),
+    }), reserved));
+    this.publishLevels(reservation, envelope);
+  };
+
+  /**
+   * handleOrderCancelled - Puts the stock reserved for the order back
+   */
+  handleOrderCancelled = async (data: OrderCancelled, envelope: Partial<MessageEnvelope>): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.orderCancelled, 'receiveOrderCancelled', data.orderId, envelope);
+    log.debug('📥 OrderCancelled received', { payload: data });
+
+    const reservation = this.stock.release(data.orderId);
+    if (!reservation) {
+      log.info(`ℹ️  Order ${data.orderId} holds no reservation, nothing to release`);
+      return;
+    }
+
+    log.info(`↩️  Released reservation ${reservation.reservationId} of order ${data.orderId}`);
+    this.publish(nc => sendInventoryReleased(nc, new InventoryReleased({
+      reservationId: reservation.reservationId,
+      orderId: reservation.orderId,
+      items: reservation.items.map(item => new ReservedItem(item)),
+    }), createEnvelope(data.orderId, envelope)));
+    this.publishLevels(reservation, envelope);
+  };
+
+  // =========================================================================
+  // Publishing helpers
+  // =========================================================================
+
+  private publish(send: (nc: NatsConnection) => void): void {
+    if (!this.nc) throw new Error('Not connected to NATS');
+    send(this.nc);
+  }
+
+  /**
+   * Sends the new level of every item a reservation touched
+   */
+  private publishLevels(reservation: Reservation, cause: Partial<MessageEnvelope>): void {
+    for (const item of reservation.items) {
+      this.publish(nc => sendInventoryUpdated(nc, new InventoryUpdated({
+        itemId: item.itemId,
+        newQuantity: this.stock.quantity(item.itemId),
+      }), createEnvelope(reservation.orderId, cause)));
+    }
+  }
+
+  /**
+   * Logger for one inbound message, carrying its channel, operation, orderId and correlation id
+   */
+  private messageLogger(channel: string, operation: string, orderId: string, envelope: Partial<MessageEnvelope>): Logger {
+    return logger.child({ channel, operation, orderId, correlationId: envelope.correlationId });
+  }
+
+  // =========================================================================
+  // Subscription setup
+  // =========================================================================
+
+  setupSubscriptions(): void {
+    if (!this.nc) throw new Error('Not connected to NATS');
+
+    this.subscriptions.push(receiveOrderCreated(this.nc, this.handleOrderCreated));
+    this.subscriptions.push(receiveOrderCancelled(this.nc, this.handleOrderCancelled));
+  }
+
+  // =========================================================================
+  // Service runner
+  // =========================================================================
+
+  async run(): Promise<void> {
+    if (!logger.isJson()) {
+      console.log('\n' + '═'.repeat(60));
+      console.log('  🏬 INVENTORY SERVICE');
+      console.log('  Managing stock levels and reservations for orders');
+      console.log('═'.repeat(60));
+    }
+
+    this.setupSubscriptions();
+    logger.info('✅ Inventory Service is running. Waiting for events...');
+
+    // Periodic stock report (every 30 seconds)
+    let lastReport = Date.now();
+    while (this.running) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (Date.now() - lastReport >= 30000) {
+        lastReport = Date.now();
+        const levels = this.stock.levels().map(line => `${line.itemId}: ${line.quantity}`).join(', ');
+        logger.info(`📊 Stock: ${levels}`);
+      }
+    }
+  }
+}
+
+async function main() {
+  const natsUrl = process.env.NATS_URL || 'nats://localhost:4222';
+
+  try {
+    const catalog = loadCatalog();
+    logger.info(`🗂️  Loaded ${catalog.length} item(s) from ${CATALOG_PATH}`);
+    const service = new InventoryService(new Stock(catalog));
+    await service.connect(natsUrl);
+
+    // Handle graceful shutdown
+    const shutdown = async () => {
+      logger.info('🛑 Shutting down Inventory Service...');
+      await service.disconnect();
+      process.exit(0);
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    await service.run();
+
+  } catch (err) {
+    logger.error('❌ Failed to start Inventory Service', { err });
+    process.exit(1);
+  }
+}
+
+// Imported by the tests, which drive the service themselves
+if (require.main === module) {
+  main();
+}
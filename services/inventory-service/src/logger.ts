@@ -0,0 +1,11 @@
+import { Logger } from 'service-kit/src/logger';
+
+// ============================================================================
+// Structured logging, see service-kit for LOG_LEVEL, LOG_FORMAT and LOG_REDACT
+// ============================================================================
+export * from 'service-kit/src/logger';
+
+export const SERVICE_NAME = 'inventory-service';
+
+// Shared by every module of the service
+export const logger = new Logger({ service: SERVICE_NAME });
@@ -0,0 +1,38 @@
+import { readInteger, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface InventoryUpdatedProps {
+  itemId: string;
+  newQuantity: number;
+}
+
+export class InventoryUpdated {
+  private _itemId: string;
+  private _newQuantity: number;
+
+  constructor(props: InventoryUpdatedProps) {
+    this._itemId = props.itemId;
+    this._newQuantity = props.newQuantity;
+  }
+
+  get itemId(): string { return this._itemId; }
+  get newQuantity(): number { return this._newQuantity; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      itemId: this._itemId,
+      newQuantity: this._newQuantity,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): InventoryUpdated {
+    const obj = toWireObject(json, 'InventoryUpdated');
+    return new InventoryUpdated({
+      itemId: readString(obj, 'itemId', 'InventoryUpdated'),
+      newQuantity: readInteger(obj, 'newQuantity', 'InventoryUpdated'),
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { readArray, readString, toWireObject } from 'service-kit/src/wire';
+import { ReservedItem } from './ReservedItem';
+
+// Only the fields stock is reserved from; userId, totalAmount and prices are ignored
+export interface OrderCreatedProps {
+  orderId: string;
+  items: ReservedItem[];
+}
+
+export class OrderCreated {
+  private _orderId: string;
+  private _items: ReservedItem[];
+
+  constructor(props: OrderCreatedProps) {
+    this._orderId = props.orderId;
+    this._items = props.items;
+  }
+
+  get orderId(): string { return this._orderId; }
+  get items(): ReservedItem[] { return this._items; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      orderId: this._orderId,
+      items: this._items.map(item => item.toJSON()),
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): OrderCreated {
+    const obj = toWireObject(json, 'OrderCreated');
+    return new OrderCreated({
+      orderId: readString(obj, 'orderId', 'OrderCreated'),
+      items: readArray(obj, 'items', 'OrderCreated', item => ReservedItem.unmarshal(item as object)),
+    });
+  }
+}
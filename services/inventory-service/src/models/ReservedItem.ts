@@ -0,0 +1,38 @@
+import { readInteger, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface ReservedItemProps {
+  itemId: string;
+  quantity: number;
+}
+
+export class ReservedItem {
+  private _itemId: string;
+  private _quantity: number;
+
+  constructor(props: ReservedItemProps) {
+    this._itemId = props.itemId;
+    this._quantity = props.quantity;
+  }
+
+  get itemId(): string { return this._itemId; }
+  get quantity(): number { return this._quantity; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      itemId: this._itemId,
+      quantity: this._quantity,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): ReservedItem {
+    const obj = toWireObject(json, 'ReservedItem');
+    return new ReservedItem({
+      itemId: readString(obj, 'itemId', 'ReservedItem'),
+      quantity: readInteger(obj, 'quantity', 'ReservedItem'),
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import { NatsConnection, Subscription } from 'nats';
+import { natsSubscriptions } from 'service-kit/src/nats';
+import { CHANNELS } from './channels';
+import { InventoryReserved } from './models/InventoryReserved';
+import { InventoryReleased } from './models/InventoryReleased';
+import { InventoryUpdated } from './models/InventoryUpdated';
+import { OrderCreated } from './models/OrderCreated';
+import { OrderCancelled } from './models/OrderCancelled';
+import { validatePayload } from './validation';
+import { MessageEnvelope, createEnvelope, messageHeaders } from './headers';
+import { logger } from './logger';
+
+export const { decodeValidated, subscribe } = natsSubscriptions(validatePayload, logger);
+
+// ============================================================================
+// Send (Publish) Functions
+// ============================================================================
+
+/**
+ * sendInventoryReserved - Publishes InventoryReserved event
+ * Channel: inventory.reserved
+ */
+export function sendInventoryReserved(
+  nc: NatsConnection,
+  data: InventoryReserved,
+  envelope: MessageEnvelope = createEnvelope(data.orderId)
+): void {
+  validatePayload(CHANNELS.inventoryReserved, 'InventoryReserved', data.toJSON(), 'send');
+  nc.publish(CHANNELS.inventoryReserved, data.marshal(), {
+    headers: messageHeaders(CHANNELS.inventoryReserved, 'InventoryReserved', envelope),
+  });
+  logger.info('📤 InventoryReserved sent', {
+    channel: CHANNELS.inventoryReserved,
+    operation: 'sendInventoryReserved',
+    orderId: data.orderId,
+    correlationId: envelope.correlationId,
+  });
+}
+
+/**
+ * sendInventoryReleased - Publishes InventoryReleased event
+ * Channel: inventory.released
+ */
+export function sendInventoryReleased(
+  nc: NatsConnection,
+  data: InventoryReleased,
+  envelope: MessageEnvelope = createEnvelope(data.orderId)
+): void {
+  validatePayload(CHANNELS.inventoryReleased, 'InventoryReleased', data.toJSON(), 'send');
+  nc.publish(CHANNELS.inventoryReleased, data.marshal(), {
+    headers: messageHeaders(CHANNELS.inventoryReleased, 'InventoryReleased', envelope),
+  });
+  logger.info('📤 InventoryReleased sent', {
+    channel: CHANNELS.inventoryReleased,
+    operation: 'sendInventoryReleased',
+    orderId: data.orderId,
+    correlationId: envelope.correlationId,
+  });
+}
+
+/**
+ * sendInventoryUpdated - Publishes InventoryUpdated event
+ * Channel: inventory.updated
+ * Sent for a stock change caused by an order, so it carries that order's envelope
+ */
+export function sendInventoryUpdated(nc: NatsConnection, data: InventoryUpdated, envelope: MessageEnvelope): void {
+  validatePayload(CHANNELS.inventoryUpdated, 'InventoryUpdated', data.toJSON(), 'send');
+  nc.publish(CHANNELS.inventoryUpdated, data.marshal(), {
+    headers: messageHeaders(CHANNELS.inventoryUpdated, 'InventoryUpdated', envelope),
+  });
+  logger.debug('📤 InventoryUpdated sent', {
+    channel: CHANNELS.inventoryUpdated,
+    operation: 'sendInventoryUpdated',
+    correlationId: envelope.correlationId,
+    itemId: data.itemId,
+    newQuantity: data.newQuantity,
+  });
+}
+
+// ============================================================================
+// Receive (Subscribe) Functions
+// ============================================================================
+
+/**
+ * receiveOrderCreated - Subscribes to OrderCreated events
+ * Channel: order.created
+ */
+export function receiveOrderCreated(
+  nc: NatsConnection,
+  handler: (data: OrderCreated, envelope: Partial<MessageEnvelope>) => Promise<void>
+): Subscription {
+  return subscribe(nc, CHANNELS.orderCreated, 'OrderCreated', OrderCreated.unmarshal, handler);
+}
+
+/**
+ * receiveOrderCancelled - Subscribes to OrderCancelled events
+ * Channel: order.cancelled
+ */
+export function receiveOrderCancelled(
+  nc: NatsConnection,
+  handler: (data: OrderCancelled, envelope: Partial<MessageEnvelope>) => Promise<void>
+): Subscription {
+  return subscribe(nc, CHANNELS.orderCancelled, 'OrderCancelled', OrderCancelled.unmarshal, handler);
+}
@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+// ============================================================================
+// Stock levels per itemId and the reservations held against them
+// ============================================================================
+export const CATALOG_PATH = process.env.INVENTORY_CATALOG
+  || path.resolve(__dirname, '../catalog.yml');
+
+export interface CatalogItem {
+  itemId: string;
+  name: string;
+  quantity: number;  // Units in stock at startup
+}
+
+// One entry of the catalog file as parsed, before it is checked
+type CatalogEntry = Partial<Record<keyof CatalogItem, unknown>>;
+
+export interface StockLine {
+  itemId: string;
+  quantity: number;
+}
+
+export interface Reservation {
+  reservationId: string;
+  orderId: string;
+  items: StockLine[];
+  reservedAt: Date;
+}
+
+export interface Shortage {
+  itemId: string;
+  requested: number;
+  available: number;  // 0 for items the catalog does not have
+}
+
+/**
+ * InsufficientStockError - An order asks for more of one or more items than is available
+ */
+export class InsufficientStockError extends Error {
+  constructor(public readonly orderId: string, public readonly shortages: Shortage[]) {
+    super(
+      `Not enough stock for order ${orderId}: ` +
+      shortages.map(s => `${s.itemId} (requested ${s.requested}, available ${s.available})`).join(', ')
+    );
+    this.name = 'InsufficientStockError';
+  }
+}
+
+/**
+ * loadCatalog - Reads the seed catalog, e.g. catalog.yml
+ */
+export function loadCatalog(file: string = CATALOG_PATH): CatalogItem[] {
+  const doc: { items?: unknown } | null = YAML.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(doc?.items)) throw new Error(`${file}: expected an "items" list`);
+  return doc.items.map((item: unknown, i: number): CatalogItem => {
+    const { itemId, name, quantity }: CatalogEntry = item !== null && typeof item === 'object' ? item : {};
+    if (typeof itemId !== 'string' || typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 0) {
+      throw new Error(`${file}: items[${i}] needs an itemId and a whole, non-negative quantity`);
+    }
+    return { itemId, name: String(name ?? itemId), quantity };
+  });
+}
+
+/**
+ * Stock - Available units per item. Reserving takes units out of the available
+ * stock for an order, all or nothing; releasing puts them back.
+ */
+export class Stock {
+  private available = new Map<string, number>();
+  private reservations = new Map<string, Reservation>();  // By orderId
+  private settled = new Set<string>();                    // Orders released, or cancelled before any reservation
+
+  constructor(catalog: CatalogItem[]) {
+    for (const item of catalog) this.available.set(item.itemId, item.quantity);
+  }
+
+  quantity(itemId: string): number {
+    return this.available.get(itemId) ?? 0;
+  }
+
+  levels(): StockLine[] {
+    return Array.from(this.available, ([itemId, quantity]) => ({ itemId, quantity }));
+  }
+
+  reservation(orderId: string): Reservation | undefined {
+    return this.reservations.get(orderId);
+  }
+
+  /**
+   * processed - Whether the order holds a reservation or has been released, in which
+   * case a redelivered order.created must not reserve stock for it again
+   */
+  processed(orderId: string): boolean {
+    return this.reservations.has(orderId) || this.settled.has(orderId);
+  }
+
+  /**
+   * reserve - Reserves every line of an order, or nothing and throws InsufficientStockError.
+   * Lines for the same item are added up first.
+   */
+  reserve(orderId: string, lines: StockLine[]): Reservation {
+    const requested = new Map<string, number>();
+    for (const line of lines) requested.set(line.itemId, (requested.get(line.itemId) ?? 0) + line.quantity);
+
+    const shortages: Shortage[] = [];
+    for (const [itemId, quantity] of requested) {
+      const available = this.quantity(itemId);
+      if (quantity > available) shortages.push({ itemId, requested: quantity, available });
+    }
+    if (shortages.length > 0) throw new InsufficientStockError(orderId, shortages);
+
+    const items = Array.from(requested, ([itemId, quantity]) => ({ itemId, quantity }));
+    for (const item of items) this.available.set(item.itemId, this.quantity(item.itemId) - item.quantity);
+
+    const reservation: Reservation = {
+      reservationId: `RES-${crypto.randomUUID()}`,
+      orderId,
+      items,
+      reservedAt: new Date(),
+    };
+    this.reservations.set(orderId, reservation);
+    return reservation;
+  }
+
+  /**
+   * release - Puts the units reserved for an order back, returning the reservation
+   * that was released, or undefined when the order holds none. Either way the order
+   * counts as processed from then on.
+   */
+  release(orderId: string): Reservation | undefined {
+    this.settled.add(orderId);
+    const reservation = this.reservations.get(orderId);
+    if (!reservation) return undefined;
+
+    for (const item of reservation.items) this.available.set(item.itemId, this.quantity(item.itemId) + item.quantity);
+    this.reservations.delete(orderId);
+    return reservation;
+  }
+}
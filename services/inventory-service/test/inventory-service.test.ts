@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { NatsConnection } from 'nats';
+import { InventoryService } from '../src/index';
+import { Stock } from '../src/stock';
+import { CHANNELS } from '../src/channels';
+import { OrderCreated } from '../src/models/OrderCreated';
+import { OrderCancelled } from '../src/models/OrderCancelled';
+
+// ============================================================================
+// InventoryService handlers on a connection that records what is published
+// ============================================================================
+const ORDER_ID = 'ORD-1001';
+
+interface Published {
+  channel: string;
+  payload: Record<string, unknown>;
+}
+
+function orderCreated(items: Array<{ itemId: string; quantity: number }>): OrderCreated {
+  return OrderCreated.unmarshal({ orderId: ORDER_ID, userId: 'user-001', totalAmount: 59.98, items });
+}
+
+function orderCancelled(): OrderCancelled {
+  return OrderCancelled.unmarshal({ orderId: ORDER_ID, reason: 'Customer request' });
+}
+
+let published: Published[];
+let stock: Stock;
+let service: InventoryService;
+
+beforeEach(() => {
+  published = [];
+  const nc = {
+    publish: (channel: string, data: string) => { published.push({ channel, payload: JSON.parse(data) }); },
+  } as unknown as NatsConnection;
+  stock = new Stock([
+    { itemId: 'ITEM-001', name: 'Wireless Headphones', quantity: 10 },
+    { itemId: 'ITEM-002', name: 'USB-C Cable', quantity: 3 },
+  ]);
+  service = new InventoryService(stock, nc);
+});
+
+function channels(): string[] {
+  return published.map(message => message.channel);
+}
+
+describe('handleOrderCreated', () => {
+  test('reserves the items and publishes inventory.reserved and the new level of every item', async () => {
+    await service.handleOrderCreated(orderCreated([{ itemId: 'ITEM-001', quantity: 2 }, { itemId: 'ITEM-002', quantity: 1 }]), {});
+
+    assert.deepEqual(channels(), [CHANNELS.inventoryReserved, CHANNELS.inventoryUpdated, CHANNELS.inventoryUpdated]);
+    assert.deepEqual(published[0].payload.items, [{ itemId: 'ITEM-001', quantity: 2 }, { itemId: 'ITEM-002', quantity: 1 }]);
+    assert.deepEqual(published.slice(1).map(message => message.payload), [
+      { itemId: 'ITEM-001', newQuantity: 8 },
+      { itemId: 'ITEM-002', newQuantity: 2 },
+    ]);
+  });
+
+  test('publishes nothing and keeps the stock when an item runs short', async () => {
+    await service.handleOrderCreated(orderCreated([{ itemId: 'ITEM-001', quantity: 2 }, { itemId: 'ITEM-002', quantity: 4 }]), {});
+
+    assert.deepEqual(published, []);
+    assert.equal(stock.quantity('ITEM-001'), 10);
+    assert.equal(stock.reservation(ORDER_ID), undefined);
+  });
+
+  test('ignores a redelivered order', async () => {
+    await service.handleOrderCreated(orderCreated([{ itemId: 'ITEM-001', quantity: 2 }]), {});
+    await service.handleOrderCreated(orderCreated([{ itemId: 'ITEM-001', quantity: 2 }]), {});
+
+    assert.deepEqual(channels(), [CHANNELS.inventoryReserved, CHANNELS.inventoryUpdated]);
+    assert.equal(stock.quantity('ITEM-001'), 8);
+  });
+});
+
+describe('handleOrderCancelled', () => {
+  test('puts the reserved stock back and publishes inventory.released', async () => {
+    await service.handleOrderCreated(orderCreated([{ itemId: 'ITEM-001', quantity: 2 }]), {});
+    published = [];
+
+    await service.handleOrderCancelled(orderCancelled(), {});
+
+    assert.deepEqual(channels(), [CHANNELS.inventoryReleased, CHANNELS.inventoryUpdated]);
+    assert.deepEqual(published[1].payload, { itemId: 'ITEM-001', newQuantity: 10 });
+    assert.equal(stock.quantity('ITEM-001'), 10);
+  });
+
+  test('publishes nothing for an order without a reservation', async () => {
+    await service.handleOrderCancelled(orderCancelled(), {});
+
+    assert.deepEqual(published, []);
+  });
+});
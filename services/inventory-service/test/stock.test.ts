@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, test } from 'node:test';
+import { CATALOG_PATH, InsufficientStockError, Stock, loadCatalog } from '../src/stock';
+
+// ============================================================================
+// Stock reservations and the seed catalog
+// ============================================================================
+function stock(): Stock {
+  return new Stock([
+    { itemId: 'ITEM-001', name: 'Wireless Headphones', quantity: 10 },
+    { itemId: 'ITEM-002', name: 'USB-C Cable', quantity: 3 },
+  ]);
+}
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'inventory-'));
+let files = 0;
+
+after(() => {
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+function catalogFile(yaml: string): string {
+  const file = path.join(tmp, `catalog-${++files}.yml`);
+  fs.writeFileSync(file, yaml);
+  return file;
+}
+
+describe('reserve', () => {
+  test('takes the ordered units out of the available stock', () => {
+    const s = stock();
+
+    const reservation = s.reserve('ORD-1', [{ itemId: 'ITEM-001', quantity: 4 }, { itemId: 'ITEM-002', quantity: 1 }]);
+
+    assert.equal(s.quantity('ITEM-001'), 6);
+    assert.equal(s.quantity('ITEM-002'), 2);
+    assert.equal(reservation.orderId, 'ORD-1');
+    assert.equal(s.reservation('ORD-1'), reservation);
+  });
+
+  test('adds up lines for the same item', () => {
+    const s = stock();
+
+    const reservation = s.reserve('ORD-1', [{ itemId: 'ITEM-001', quantity: 2 }, { itemId: 'ITEM-001', quantity: 3 }]);
+
+    assert.deepEqual(reservation.items, [{ itemId: 'ITEM-001', quantity: 5 }]);
+    assert.equal(s.quantity('ITEM-001'), 5);
+  });
+
+  test('reserves nothing when one item is short', () => {
+    const s = stock();
+
+    assert.throws(
+      () => s.reserve('ORD-1', [{ itemId: 'ITEM-001', quantity: 1 }, { itemId: 'ITEM-002', quantity: 4 }, { itemId: 'ITEM-404', quantity: 1 }]),
+      (err: unknown) => {
+        assert.ok(err instanceof InsufficientStockError);
+        assert.deepEqual(err.shortages, [
+          { itemId: 'ITEM-002', requested: 4, available: 3 },
+          { itemId: 'ITEM-404', requested: 1, available: 0 },
+        ]);
+        return true;
+      }
+    );
+    assert.equal(s.quantity('ITEM-001'), 10);
+    assert.equal(s.reservation('ORD-1'), undefined);
+    assert.equal(s.processed('ORD-1'), false);
+  });
+});
+
+describe('release', () => {
+  test('puts the reserved units back', () => {
+    const s = stock();
+    const reservation = s.reserve('ORD-1', [{ itemId: 'ITEM-001', quantity: 4 }]);
+
+    assert.equal(s.release('ORD-1'), reservation);
+
+    assert.equal(s.quantity('ITEM-001'), 10);
+    assert.equal(s.reservation('ORD-1'), undefined);
+  });
+
+  test('releases an order only once', () => {
+    const s = stock();
+    s.reserve('ORD-1', [{ itemId: 'ITEM-001', quantity: 4 }]);
+    s.release('ORD-1');
+
+    assert.equal(s.release('ORD-1'), undefined);
+    assert.equal(s.quantity('ITEM-001'), 10);
+  });
+});
+
+describe('processed', () => {
+  test('holds for an order with a reservation', () => {
+    const s = stock();
+    s.reserve('ORD-1', [{ itemId: 'ITEM-001', quantity: 1 }]);
+
+    assert.equal(s.processed('ORD-1'), true);
+    assert.equal(s.processed('ORD-2'), false);
+  });
+
+  test('still holds once the reservation is released, so a replayed order is not reserved again', () => {
+    const s = stock();
+    s.reserve('ORD-1', [{ itemId: 'ITEM-001', quantity: 1 }]);
+    s.release('ORD-1');
+
+    assert.equal(s.processed('ORD-1'), true);
+  });
+
+  test('holds for an order cancelled before it was reserved', () => {
+    const s = stock();
+
+    s.release('ORD-1');
+
+    assert.equal(s.processed('ORD-1'), true);
+  });
+});
+
+describe('loadCatalog', () => {
+  test('reads the seed catalog', () => {
+    const catalog = loadCatalog(CATALOG_PATH);
+
+    assert.ok(catalog.length > 0);
+    assert.deepEqual(catalog[0], { itemId: 'ITEM-001', name: 'Wireless Headphones', quantity: 120 });
+  });
+
+  test('names an item after its id when the entry has no name', () => {
+    assert.deepEqual(loadCatalog(catalogFile('items:\n  - { itemId: ITEM-9, quantity: 0 }\n')), [
+      { itemId: 'ITEM-9', name: 'ITEM-9', quantity: 0 },
+    ]);
+  });
+
+  test('rejects entries without an itemId or a whole, non-negative quantity', () => {
+    for (const entry of ['{ quantity: 1 }', '{ itemId: ITEM-9, quantity: 1.5 }', '{ itemId: ITEM-9, quantity: -1 }', 'ITEM-9']) {
+      assert.throws(() => loadCatalog(catalogFile(`items:\n  - ${entry}\n`)), /items\[0\] needs an itemId/);
+    }
+  });
+
+  test('rejects a file without an items list', () => {
+    assert.throws(() => loadCatalog(catalogFile('stock: []\n')), /expected an "items" list/);
+  });
+});
@@ -0,0 +1,80 @@
+// Generated by the channels preset of tools/spec-tools from order-fulfillment-service.yml, do not edit
+import { ORDER_SHIPPED_HEADER_DEFAULTS } from '../headers/OrderShippedHeaders';
+import { SHIPMENT_DELIVERED_HEADER_DEFAULTS } from '../headers/ShipmentDeliveredHeaders';
+import { InventoryReserved } from '../payloads/InventoryReserved';
+import { OrderShipped } from '../payloads/OrderShipped';
+import { ShipmentDelivered } from '../payloads/ShipmentDelivered';
+
+// A model class of the payloads preset
+export interface ChannelPayload {
+  toJSON(): Record<string, unknown>;
+  marshal(): string;
+}
+
+export interface SendOperation {
+  operationId: string;
+  channel: string;                  // Channel address
+  messageName: string;
+  headers: Record<string, string>;  // The header defaults the spec gives the message, e.g. ec-message-type
+}
+
+export interface ReceiveOperation<T> {
+  operationId: string;
+  channel: string;
+  messageName: string;
+  unmarshal(json: string | object): T;
+}
+
+export interface ChannelSubscription {
+  unsubscribe(): void;
+}
+
+/**
+ * ChannelRuntime - What the operations below send and receive through. The service decides
+ * how: the broker, validation, retries and dead-lettering, and what the envelope `E` of a
+ * message and the options `O` of a receive operation are. A handler that throws fails the message.
+ */
+export interface ChannelRuntime<E = unknown, O = unknown> {
+  send(operation: SendOperation, message: ChannelPayload, envelope?: E): Promise<void>;
+  receive<T>(operation: ReceiveOperation<T>, handler: (message: T, envelope: Partial<E>) => Promise<void>, options?: O): ChannelSubscription;
+}
+
+/**
+ * receiveInventoryReserved - Hands every InventoryReserved on inventory.reserved to `handler`
+ */
+export function receiveInventoryReserved<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: InventoryReserved, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receiveInventoryReserved',
+    channel: 'inventory.reserved',
+    messageName: 'InventoryReserved',
+    unmarshal: InventoryReserved.unmarshal,
+  }, handler, options);
+}
+
+/**
+ * sendOrderShipped - Sends OrderShipped on order.shipped
+ */
+export function sendOrderShipped<E>(runtime: ChannelRuntime<E>, message: OrderShipped, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendOrderShipped',
+    channel: 'order.shipped',
+    messageName: 'OrderShipped',
+    headers: ORDER_SHIPPED_HEADER_DEFAULTS,
+  }, message, envelope);
+}
+
+/**
+ * sendShipmentDelivered - Sends ShipmentDelivered on shipment.delivered
+ */
+export function sendShipmentDelivered<E>(runtime: ChannelRuntime<E>, message: ShipmentDelivered, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendShipmentDelivered',
+    channel: 'shipment.delivered',
+    messageName: 'ShipmentDelivered',
+    headers: SHIPMENT_DELIVERED_HEADER_DEFAULTS,
+  }, message, envelope);
+}
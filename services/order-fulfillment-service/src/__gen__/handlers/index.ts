@@ -0,0 +1,22 @@
+// Generated by the handlers preset of tools/spec-tools from order-fulfillment-service.yml, do not edit
+import { ChannelRuntime, ChannelSubscription, receiveInventoryReserved } from '../channels';
+import { InventoryReserved } from '../payloads/InventoryReserved';
+
+export interface OrderFulfillmentServiceHandlers<E = unknown> {
+  onInventoryReserved(message: InventoryReserved, envelope: Partial<E>): Promise<void>;
+}
+
+/**
+ * wireHandlers - Subscribes every receive operation of Order Fulfillment Service to its handler through
+ * `runtime`, with the receive options of each operation (e.g. its retry policy) from `options`
+ */
+export function wireHandlers<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handlers: OrderFulfillmentServiceHandlers<E>,
+  options: Partial<Record<
+    | 'receiveInventoryReserved', O>> = {}
+): ChannelSubscription[] {
+  return [
+    receiveInventoryReserved(runtime, (message, envelope) => handlers.onInventoryReserved(message, envelope), options.receiveInventoryReserved),
+  ];
+}
@@ -0,0 +1,17 @@
+// Generated by the types preset of tools/spec-tools from order-fulfillment-service.yml, do not edit
+
+// The address of every channel, by channel id
+export const CHANNEL_ADDRESSES = {
+  inventoryReserved: 'inventory.reserved',
+  orderShipped: 'order.shipped',
+  shipmentDelivered: 'shipment.delivered',
+} as const;
+
+export type ChannelId = keyof typeof CHANNEL_ADDRESSES;
+export type ChannelAddress = (typeof CHANNEL_ADDRESSES)[ChannelId];
+
+export type SendOperationId =
+  | 'sendOrderShipped'
+  | 'sendShipmentDelivered';
+export type ReceiveOperationId =
+  | 'receiveInventoryReserved';
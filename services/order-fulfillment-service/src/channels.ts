@@ -0,0 +1,11 @@
+// ============================================================================
+// Channels (keys are AsyncAPI channel IDs, values are NATS subjects)
+// ============================================================================
+export const CHANNELS = {
+  // Channels this service PUBLISHES to
+  orderShipped: 'order.shipped',
+  shipmentDelivered: 'shipment.delivered',
+
+  // Channels this service SUBSCRIBES to
+  inventoryReserved: 'inventory.reserved',
+} as const;
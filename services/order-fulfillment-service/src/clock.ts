@@ -0,0 +1,17 @@
+// ============================================================================
+// Clock the shipment timeline runs on, so it can be driven by something other than wall time
+// ============================================================================
+export type TimerHandle = unknown;
+
+export interface Clock {
+  now(): Date;
+  setTimer(ms: number, callback: () => void): TimerHandle;
+  clearTimer(timer: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimer: (ms, callback) => setTimeout(callback, ms),
+  clearTimer: timer => clearTimeout(timer as NodeJS.Timeout),
+};
+
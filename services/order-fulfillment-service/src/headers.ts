@@ -0,0 +1,10 @@
+import { headers as natsHeaders } from 'nats';
+import { envelopeHeaders } from 'service-kit/src/headers';
+import { specDocument } from './validation';
+
+// ============================================================================
+// The message envelope and spec header defaults, written into NATS headers
+// ============================================================================
+export { ENVELOPE_HEADERS, MessageEnvelope, readEnvelope } from 'service-kit/src/headers';
+
+export const { createEnvelope, headerDefaults, messageHeaders } = envelopeHeaders(() => specDocument(), () => natsHeaders());
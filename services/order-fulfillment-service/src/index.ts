@@ -0,0 +1,209 @@
+import { connect, NatsConnection, Subscription } from 'nats';
+import { Rng, randomSeed, seededRng } from 'service-kit/src/random';
+
+import { CHANNELS } from './channels';
+import { OrderShipped } from './models/OrderShipped';
+import { ShipmentDelivered } from './models/ShipmentDelivered';
+import { InventoryReserved } from './models/InventoryReserved';
+import { sendOrderShipped, sendShipmentDelivered, receiveInventoryReserved } from './nats';
+import { CONFIG_PATH, FulfillmentConfig, Shipment, Shipments, loadConfig } from './shipments';
+import { MessageEnvelope, createEnvelope } from './headers';
+import { Logger, logger } from './logger';
+
+// ============================================================================
+// Order Fulfillment Service Implementation
+// ============================================================================
+class OrderFulfillmentService {
+  private nc: NatsConnection | null = null;
+  private subscriptions: Subscription[] = [];
+  private running = true;
+  private shipments: Shipments;
+  // Envelope of the last message about each shipment, the cause of the next one
+  private causes = new Map<string, Partial<MessageEnvelope>>();
+
+  constructor(config: FulfillmentConfig, rng: Rng) {
+    this.shipments = new Shipments(config, this.handleShipmentChange, rng);
+  }
+
+  async connect(natsUrl: string = 'nats://localhost:4222'): Promise<void> {
+    logger.info(`🔌 Connecting to NATS at ${natsUrl}...`);
+    this.nc = await connect({ servers: natsUrl });
+    logger.info(`✅ Connected to NATS server: ${this.nc.getServer()}`);
+  }
+
+  async disconnect(): Promise<void> {
+    this.running = false;
+    this.shipments.stop();
+    for (const sub of this.subscriptions) {
+      sub.unsubscribe();
+    }
+    this.subscriptions = [];
+
+    if (this.nc) {
+      await this.nc.drain();
+      logger.info('👋 Disconnected from NATS');
+    }
+  }
+
+  // =========================================================================
+  // Handlers (Business Logic)
+  // =========================================================================
+
+  /**
+   * handleInventoryReserved - Creates a shipment for the reservation and starts its timeline
+   */
+  private handleInventoryReserved = async (data: InventoryReserved, envelope: Partial<MessageEnvelope>): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.inventoryReserved, 'receiveInventoryReserved', data.orderId, envelope);
+    log.debug('📥 InventoryReserved received', { payload: data });
+
+    const existing = this.shipments.byReservation(data.reservationId);
+    if (existing) {
+      log.warn(`⚠️  Reservation ${data.reservationId} already has shipment ${existing.shipmentId}, ignoring duplicate`);
+      return;
+    }
+
+    const shipment = this.shipments.create(
+      data.reservationId,
+      data.orderId,
+      data.items.map(item => ({ itemId: item.itemId, quantity: item.quantity })),
+    );
+    this.causes.set(shipment.shipmentId, envelope);
+    log.info(`📋 Shipment ${shipment.shipmentId} created for order ${data.orderId} with ${shipment.carrier}`, {
+      shipmentId: shipment.shipmentId,
+      failure: shipment.failure,
+    });
+  };
+
+  /**
+   * handleShipmentChange - Publishes the spec'd event for the stage a shipment reached
+   */
+  private handleShipmentChange = (shipment: Shipment): void => {
+    const cause = this.causes.get(shipment.shipmentId) ?? {};
+    const log = logger.child({ orderId: shipment.orderId, correlationId: cause.correlationId, shipmentId: shipment.shipmentId });
+    const at = shipment.history[shipment.history.length - 1].at;
+
+    try {
+      switch (shipment.status) {
+        case 'picked':
+          log.info(`🧺 Shipment ${shipment.shipmentId} picked`);
+          break;
+
+        case 'shipped': {
+          const envelope = createEnvelope(shipment.orderId, cause);
+          this.publish(nc => sendOrderShipped(nc, new OrderShipped({
+            orderId: shipment.orderId,
+            shipmentId: shipment.shipmentId,
+            shipmentTime: at,
+            carrier: shipment.carrier,
+          }), envelope));
+          this.causes.set(shipment.shipmentId, envelope);
+          log.info(`🚚 Shipment ${shipment.shipmentId} handed to ${shipment.carrier}`);
+          break;
+        }
+
+        case 'delivered':
+          this.publish(nc => sendShipmentDelivered(nc, new ShipmentDelivered({
+            orderId: shipment.orderId,
+            shipmentId: shipment.shipmentId,
+            deliveryTime: at,
+          }), createEnvelope(shipment.orderId, cause)));
+          this.causes.delete(shipment.shipmentId);
+          log.info(`🏠 Shipment ${shipment.shipmentId} delivered${shipment.failure === 'delayed' ? ' late' : ''}`);
+          break;
+
+        case 'lost':
+          // The spec has no event for it, so the order simply never completes
+          this.causes.delete(shipment.shipmentId);
+          log.warn(`📭 Shipment ${shipment.shipmentId} was lost by ${shipment.carrier}`);
+          break;
+      }
+    } catch (err) {
+      log.error(`❌ Error publishing ${shipment.status} of shipment ${shipment.shipmentId}`, { err });
+    }
+  };
+
+  // =========================================================================
+  // Publishing helpers
+  // =========================================================================
+
+  private publish(send: (nc: NatsConnection) => void): void {
+    if (!this.nc) throw new Error('Not connected to NATS');
+    send(this.nc);
+  }
+
+  /**
+   * Logger for one inbound message, carrying its channel, operation, orderId and correlation id
+   */
+  private messageLogger(channel: string, operation: string, orderId: string, envelope: Partial<MessageEnvelope>): Logger {
+    return logger.child({ channel, operation, orderId, correlationId: envelope.correlationId });
+  }
+
+  // =========================================================================
+  // Subscription setup
+  // =========================================================================
+
+  setupSubscriptions(): void {
+    if (!this.nc) throw new Error('Not connected to NATS');
+
+    this.subscriptions.push(receiveInventoryReserved(this.nc, this.handleInventoryReserved));
+  }
+
+  // =========================================================================
+  // Service runner
+  // =========================================================================
+
+  async run(): Promise<void> {
+    if (!logger.isJson()) {
+      console.log('\n' + '═'.repeat(60));
+      console.log('  🚚 ORDER FULFILLMENT SERVICE');
+      console.log('  Picking, shipping and delivering reserved orders');
+      console.log('═'.repeat(60));
+    }
+
+    this.setupSubscriptions();
+    logger.info('✅ Order Fulfillment Service is running. Waiting for events...');
+
+    // Periodic shipment report (every 30 seconds)
+    let lastReport = Date.now();
+    while (this.running) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (Date.now() - lastReport >= 30000) {
+        lastReport = Date.now();
+        const counts = this.shipments.countByStatus();
+        const summary = Object.entries(counts).map(([status, count]) => `${count} ${status}`).join(', ');
+        logger.info(`📊 Shipments: ${summary}`);
+      }
+    }
+  }
+}
+
+async function main() {
+  const natsUrl = process.env.NATS_URL || 'nats://localhost:4222';
+
+  try {
+    const config = loadConfig();
+    const seed = process.env.FULFILLMENT_SEED ? Number(process.env.FULFILLMENT_SEED) : randomSeed();
+    if (!Number.isInteger(seed)) throw new Error(`FULFILLMENT_SEED must be an integer, got "${process.env.FULFILLMENT_SEED}"`);
+    logger.info(`🗂️  Loaded timeline from ${CONFIG_PATH} (seed ${seed})`);
+    const service = new OrderFulfillmentService(config, seededRng(seed));
+    await service.connect(natsUrl);
+
+    // Handle graceful shutdown
+    const shutdown = async () => {
+      logger.info('🛑 Shutting down Order Fulfillment Service...');
+      await service.disconnect();
+      process.exit(0);
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    await service.run();
+
+  } catch (err) {
+    logger.error('❌ Failed to start Order Fulfillment Service', { err });
+    process.exit(1);
+  }
+}
+
+main();
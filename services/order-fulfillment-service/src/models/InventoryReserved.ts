@@ -0,0 +1,45 @@
+import { readArray, readString, toWireObject } from 'service-kit/src/wire';
+import { ReservedItem } from './ReservedItem';
+
+export interface InventoryReservedProps {
+  reservationId: string;
+  orderId: string;
+  items: ReservedItem[];
+}
+
+export class InventoryReserved {
+  private _reservationId: string;
+  private _orderId: string;
+  private _items: ReservedItem[];
+
+  constructor(props: InventoryReservedProps) {
+    this._reservationId = props.reservationId;
+    this._orderId = props.orderId;
+    this._items = props.items;
+  }
+
+  get reservationId(): string { return this._reservationId; }
+  get orderId(): string { return this._orderId; }
+  get items(): ReservedItem[] { return this._items; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      reservationId: this._reservationId,
+      orderId: this._orderId,
+      items: this._items.map(item => item.toJSON()),
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): InventoryReserved {
+    const obj = toWireObject(json, 'InventoryReserved');
+    return new InventoryReserved({
+      reservationId: readString(obj, 'reservationId', 'InventoryReserved'),
+      orderId: readString(obj, 'orderId', 'InventoryReserved'),
+      items: readArray(obj, 'items', 'InventoryReserved', item => ReservedItem.unmarshal(item as object)),
+    });
+  }
+}
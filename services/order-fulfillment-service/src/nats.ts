@@ -0,0 +1,72 @@
+import { NatsConnection, Subscription } from 'nats';
+import { natsSubscriptions } from 'service-kit/src/nats';
+import { CHANNELS } from './channels';
+import { OrderShipped } from './models/OrderShipped';
+import { ShipmentDelivered } from './models/ShipmentDelivered';
+import { InventoryReserved } from './models/InventoryReserved';
+import { validatePayload } from './validation';
+import { MessageEnvelope, createEnvelope, messageHeaders } from './headers';
+import { logger } from './logger';
+
+export const { decodeValidated, subscribe } = natsSubscriptions(validatePayload, logger);
+
+// ============================================================================
+// Send (Publish) Functions
+// ============================================================================
+
+/**
+ * sendOrderShipped - Publishes OrderShipped event
+ * Channel: order.shipped
+ */
+export function sendOrderShipped(
+  nc: NatsConnection,
+  data: OrderShipped,
+  envelope: MessageEnvelope = createEnvelope(data.orderId)
+): void {
+  validatePayload(CHANNELS.orderShipped, 'OrderShipped', data.toJSON(), 'send');
+  nc.publish(CHANNELS.orderShipped, data.marshal(), {
+    headers: messageHeaders(CHANNELS.orderShipped, 'OrderShipped', envelope),
+  });
+  logger.info('📤 OrderShipped sent', {
+    channel: CHANNELS.orderShipped,
+    operation: 'sendOrderShipped',
+    orderId: data.orderId,
+    correlationId: envelope.correlationId,
+  });
+}
+
+/**
+ * sendShipmentDelivered - Publishes ShipmentDelivered event
+ * Channel: shipment.delivered
+ */
+export function sendShipmentDelivered(
+  nc: NatsConnection,
+  data: ShipmentDelivered,
+  envelope: MessageEnvelope = createEnvelope(data.orderId)
+): void {
+  validatePayload(CHANNELS.shipmentDelivered, 'ShipmentDelivered', data.toJSON(), 'send');
+  nc.publish(CHANNELS.shipmentDelivered, data.marshal(), {
+    headers: messageHeaders(CHANNELS.shipmentDelivered, 'ShipmentDelivered', envelope),
+  });
+  logger.info('📤 ShipmentDelivered sent', {
+    channel: CHANNELS.shipmentDelivered,
+    operation: 'sendShipmentDelivered',
+    orderId: data.orderId,
+    correlationId: envelope.correlationId,
+  });
+}
+
+// ============================================================================
+// Receive (Subscribe) Functions
+// ============================================================================
+
+/**
+ * receiveInventoryReserved - Subscribes to InventoryReserved events
+ * Channel: inventory.reserved
+ */
+export function receiveInventoryReserved(
+  nc: NatsConnection,
+  handler: (data: InventoryReserved, envelope: Partial<MessageEnvelope>) => Promise<void>
+): Subscription {
+  return subscribe(nc, CHANNELS.inventoryReserved, 'InventoryReserved', InventoryReserved.unmarshal, handler);
+}
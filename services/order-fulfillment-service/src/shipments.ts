@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { Rng, pick, randomId, randomInt } from 'service-kit/src/random';
+import { Clock, TimerHandle, systemClock } from './clock';
+
+// ============================================================================
+// Shipments and the timeline they move through: picked, shipped, delivered
+// ============================================================================
+export const CONFIG_PATH = process.env.FULFILLMENT_CONFIG
+  || path.resolve(__dirname, '../fulfillment.yml');
+
+// Milliseconds, either fixed or drawn uniformly from a range
+export type Delay = number | { min: number; max: number };
+
+export type ShipmentStatus = 'pending' | 'picked' | 'shipped' | 'delivered' | 'lost';
+export type ShipmentFailure = 'lost' | 'delayed';
+
+export interface FulfillmentConfig {
+  carriers: string[];
+  // Each delay counts from the stage before, the first from the reservation
+  timeline: { picked: Delay; shipped: Delay; delivered: Delay };
+  failures: {
+    lost: { probability: number };                  // Shipped but never delivered
+    delayed: { probability: number; by: Delay };    // Delivered late by `by`
+  };
+}
+
+export interface ShipmentLine {
+  itemId: string;
+  quantity: number;
+}
+
+export interface Shipment {
+  shipmentId: string;
+  reservationId: string;
+  orderId: string;
+  items: ShipmentLine[];
+  carrier: string;
+  status: ShipmentStatus;
+  failure?: ShipmentFailure;  // Drawn when the shipment is created
+  history: { status: ShipmentStatus; at: Date }[];
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function checkDelay(file: string, at: string, delay: unknown): Delay {
+  if (typeof delay === 'number' && delay >= 0) return delay;
+  if (isObject(delay) && typeof delay.min === 'number' && typeof delay.max === 'number'
+    && delay.min >= 0 && delay.min <= delay.max) {
+    return { min: delay.min, max: delay.max };
+  }
+  throw new Error(`${file}: ${at}: expected milliseconds or { min, max } with 0 <= min <= max`);
+}
+
+function checkProbability(file: string, at: string, probability: unknown): number {
+  if (probability === undefined) return 0;
+  if (typeof probability !== 'number' || probability < 0 || probability > 1) {
+    throw new Error(`${file}: ${at}: expected a number between 0 and 1`);
+  }
+  return probability;
+}
+
+/**
+ * loadConfig - Reads the carriers, timeline and failure rates, e.g. fulfillment.yml
+ */
+export function loadConfig(file: string = CONFIG_PATH): FulfillmentConfig {
+  const doc = YAML.parse(fs.readFileSync(file, 'utf8'));
+  if (!isObject(doc)) throw new Error(`${file}: expected an object`);
+  if (!Array.isArray(doc.carriers) || doc.carriers.length === 0) throw new Error(`${file}: carriers: expected a non-empty list`);
+  if (!isObject(doc.timeline)) throw new Error(`${file}: timeline: expected picked, shipped and delivered delays`);
+
+  const failures = isObject(doc.failures) ? doc.failures : {};
+  const config: FulfillmentConfig = {
+    carriers: doc.carriers.map(String),
+    timeline: {
+      picked: checkDelay(file, 'timeline.picked', doc.timeline.picked),
+      shipped: checkDelay(file, 'timeline.shipped', doc.timeline.shipped),
+      delivered: checkDelay(file, 'timeline.delivered', doc.timeline.delivered),
+    },
+    failures: {
+      lost: { probability: checkProbability(file, 'failures.lost.probability', failures.lost?.probability) },
+      delayed: {
+        probability: checkProbability(file, 'failures.delayed.probability', failures.delayed?.probability),
+        by: failures.delayed?.by === undefined ? 0 : checkDelay(file, 'failures.delayed.by', failures.delayed.by),
+      },
+    },
+  };
+  const total = config.failures.lost.probability + config.failures.delayed.probability;
+  if (total > 1 + 1e-9) throw new Error(`${file}: failures: probabilities add up to ${total}, more than 1`);
+  return config;
+}
+
+/**
+ * Shipments - Creates a shipment per reservation and moves it along the timeline on the
+ * clock, calling `onChange` after every status change
+ */
+export class Shipments {
+  private shipments = new Map<string, Shipment>();  // By shipmentId
+  private timers = new Map<string, TimerHandle>();  // Next stage of each shipment in flight
+
+  constructor(
+    private readonly config: FulfillmentConfig,
+    private readonly onChange: (shipment: Shipment) => void,
+    private readonly rng: Rng,
+    private readonly clock: Clock = systemClock,
+  ) {}
+
+  get(shipmentId: string): Shipment | undefined {
+    return this.shipments.get(shipmentId);
+  }
+
+  byReservation(reservationId: string): Shipment | undefined {
+    return Array.from(this.shipments.values()).find(shipment => shipment.reservationId === reservationId);
+  }
+
+  countByStatus(): Record<ShipmentStatus, number> {
+    const counts: Record<ShipmentStatus, number> = { pending: 0, picked: 0, shipped: 0, delivered: 0, lost: 0 };
+    for (const shipment of this.shipments.values()) counts[shipment.status]++;
+    return counts;
+  }
+
+  /**
+   * create - Starts the timeline of a new shipment, drawing its carrier and failure if any
+   */
+  create(reservationId: string, orderId: string, items: ShipmentLine[]): Shipment {
+    const shipment: Shipment = {
+      shipmentId: randomId(this.rng, 'SHP'),
+      reservationId,
+      orderId,
+      items,
+      carrier: pick(this.rng, this.config.carriers),
+      status: 'pending',
+      failure: this.drawFailure(),
+      history: [{ status: 'pending', at: this.clock.now() }],
+    };
+    this.shipments.set(shipment.shipmentId, shipment);
+    this.schedule(shipment, this.config.timeline.picked, 'picked');
+    return shipment;
+  }
+
+  /**
+   * stop - Cancels every pending stage, shipments stay where they are
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) this.clock.clearTimer(timer);
+    this.timers.clear();
+  }
+
+  private drawFailure(): ShipmentFailure | undefined {
+    const { lost, delayed } = this.config.failures;
+    const roll = this.rng();
+    if (roll < lost.probability) return 'lost';
+    if (roll < lost.probability + delayed.probability) return 'delayed';
+    return undefined;
+  }
+
+  private delayMs(delay: Delay): number {
+    return typeof delay === 'number' ? delay : randomInt(this.rng, delay.min, delay.max);
+  }
+
+  private schedule(shipment: Shipment, delay: Delay, next: ShipmentStatus, extra: number = 0): void {
+    const timer = this.clock.setTimer(this.delayMs(delay) + extra, () => {
+      this.timers.delete(shipment.shipmentId);
+      this.advance(shipment, next);
+    });
+    this.timers.set(shipment.shipmentId, timer);
+  }
+
+  private advance(shipment: Shipment, status: ShipmentStatus): void {
+    shipment.status = status;
+    shipment.history.push({ status, at: this.clock.now() });
+
+    if (status === 'picked') {
+      this.schedule(shipment, this.config.timeline.shipped, 'shipped');
+    } else if (status === 'shipped') {
+      // A lost parcel is noticed when it should have arrived
+      const extra = shipment.failure === 'delayed' ? this.delayMs(this.config.failures.delayed.by) : 0;
+      this.schedule(shipment, this.config.timeline.delivered, shipment.failure === 'lost' ? 'lost' : 'delivered', extra);
+    }
+    this.onChange(shipment);
+  }
+}
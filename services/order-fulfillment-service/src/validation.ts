@@ -0,0 +1,12 @@
+import path from 'path';
+import { specValidation } from 'service-kit/src/validation';
+
+// ============================================================================
+// Runtime validation of payloads against the AsyncAPI document
+// ============================================================================
+export { ContractViolationError, Direction, ValidationIssue } from 'service-kit/src/validation';
+
+export const SPEC_PATH = process.env.ASYNCAPI_SPEC_PATH
+  || path.resolve(__dirname, '../../../eventcatalog/asyncapi-files/order-fulfillment-service.yml');
+
+export const { specDocument, validatePayload, validateHeaders } = specValidation(SPEC_PATH);
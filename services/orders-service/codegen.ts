@@ -1,8 +1,7 @@
-import { TheCodegenConfiguration } from '@the-codegen-project/cli';
-const config: TheCodegenConfiguration = {
-  inputType: "asyncapi",
+import { CodegenConfiguration } from '../../tools/spec-tools/src/codegen';
+import { handlersPreset } from '../../tools/spec-tools/src/handlers';
+const config: CodegenConfiguration = {
   inputPath: "../../eventcatalog/asyncapi-files/orders-service.yml",
-  language: "typescript",
   generators: [
     {
       preset: "types",
@@ -23,7 +22,10 @@ const config: TheCodegenConfiguration = {
     {
       preset: "channels",
       outputPath: "src/__gen__/channels",
-    }
+    },
+    handlersPreset({
+      outputPath: "src/__gen__/handlers"
+    })
   ]
 };
-export default config;
\ No newline at end of file
+export default config;
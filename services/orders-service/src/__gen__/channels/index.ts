@@ -0,0 +1,165 @@
+// Generated by the channels preset of tools/spec-tools from orders-service.yml, do not edit
+import { ORDER_CANCELLED_HEADER_DEFAULTS } from '../headers/OrderCancelledHeaders';
+import { ORDER_COMPLETED_HEADER_DEFAULTS } from '../headers/OrderCompletedHeaders';
+import { InventoryReserved } from '../payloads/InventoryReserved';
+import { OrderCancelled } from '../payloads/OrderCancelled';
+import { OrderCompleted } from '../payloads/OrderCompleted';
+import { OrderCreated } from '../payloads/OrderCreated';
+import { OrderShipped } from '../payloads/OrderShipped';
+import { PaymentFailed } from '../payloads/PaymentFailed';
+import { PaymentProcessed } from '../payloads/PaymentProcessed';
+import { ShipmentDelivered } from '../payloads/ShipmentDelivered';
+
+// A model class of the payloads preset
+export interface ChannelPayload {
+  toJSON(): Record<string, unknown>;
+  marshal(): string;
+}
+
+export interface SendOperation {
+  operationId: string;
+  channel: string;                  // Channel address
+  messageName: string;
+  headers: Record<string, string>;  // The header defaults the spec gives the message, e.g. ec-message-type
+}
+
+export interface ReceiveOperation<T> {
+  operationId: string;
+  channel: string;
+  messageName: string;
+  unmarshal(json: string | object): T;
+}
+
+export interface ChannelSubscription {
+  unsubscribe(): void;
+}
+
+/**
+ * ChannelRuntime - What the operations below send and receive through. The service decides
+ * how: the broker, validation, retries and dead-lettering, and what the envelope `E` of a
+ * message and the options `O` of a receive operation are. A handler that throws fails the message.
+ */
+export interface ChannelRuntime<E = unknown, O = unknown> {
+  send(operation: SendOperation, message: ChannelPayload, envelope?: E): Promise<void>;
+  receive<T>(operation: ReceiveOperation<T>, handler: (message: T, envelope: Partial<E>) => Promise<void>, options?: O): ChannelSubscription;
+}
+
+/**
+ * receiveOrderCreated - Hands every OrderCreated on order.created to `handler`
+ */
+export function receiveOrderCreated<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: OrderCreated, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receiveOrderCreated',
+    channel: 'order.created',
+    messageName: 'OrderCreated',
+    unmarshal: OrderCreated.unmarshal,
+  }, handler, options);
+}
+
+/**
+ * sendOrderCancelled - Sends OrderCancelled on order.cancelled
+ */
+export function sendOrderCancelled<E>(runtime: ChannelRuntime<E>, message: OrderCancelled, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendOrderCancelled',
+    channel: 'order.cancelled',
+    messageName: 'OrderCancelled',
+    headers: ORDER_CANCELLED_HEADER_DEFAULTS,
+  }, message, envelope);
+}
+
+/**
+ * sendOrderCompleted - Sends OrderCompleted on order.completed
+ */
+export function sendOrderCompleted<E>(runtime: ChannelRuntime<E>, message: OrderCompleted, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendOrderCompleted',
+    channel: 'order.completed',
+    messageName: 'OrderCompleted',
+    headers: ORDER_COMPLETED_HEADER_DEFAULTS,
+  }, message, envelope);
+}
+
+/**
+ * receivePaymentFailed - Hands every PaymentFailed on payment.failed to `handler`
+ */
+export function receivePaymentFailed<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: PaymentFailed, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receivePaymentFailed',
+    channel: 'payment.failed',
+    messageName: 'PaymentFailed',
+    unmarshal: PaymentFailed.unmarshal,
+  }, handler, options);
+}
+
+/**
+ * receiveShipmentDelivered - Hands every ShipmentDelivered on shipment.delivered to `handler`
+ */
+export function receiveShipmentDelivered<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: ShipmentDelivered, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receiveShipmentDelivered',
+    channel: 'shipment.delivered',
+    messageName: 'ShipmentDelivered',
+    unmarshal: ShipmentDelivered.unmarshal,
+  }, handler, options);
+}
+
+/**
+ * receivePaymentProcessed - Hands every PaymentProcessed on payment.processed to `handler`
+ */
+export function receivePaymentProcessed<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: PaymentProcessed, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receivePaymentProcessed',
+    channel: 'payment.processed',
+    messageName: 'PaymentProcessed',
+    unmarshal: PaymentProcessed.unmarshal,
+  }, handler, options);
+}
+
+/**
+ * receiveInventoryReserved - Hands every InventoryReserved on inventory.reserved to `handler`
+ */
+export function receiveInventoryReserved<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: InventoryReserved, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receiveInventoryReserved',
+    channel: 'inventory.reserved',
+    messageName: 'InventoryReserved',
+    unmarshal: InventoryReserved.unmarshal,
+  }, handler, options);
+}
+
+/**
+ * receiveOrderShipped - Hands every OrderShipped on order.shipped to `handler`
+ */
+export function receiveOrderShipped<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: OrderShipped, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receiveOrderShipped',
+    channel: 'order.shipped',
+    messageName: 'OrderShipped',
+    unmarshal: OrderShipped.unmarshal,
+  }, handler, options);
+}
@@ -0,0 +1,42 @@
+// Generated by the handlers preset of tools/spec-tools from orders-service.yml, do not edit
+import { ChannelRuntime, ChannelSubscription, receiveOrderCreated, receivePaymentFailed, receiveShipmentDelivered, receivePaymentProcessed, receiveInventoryReserved, receiveOrderShipped } from '../channels';
+import { InventoryReserved } from '../payloads/InventoryReserved';
+import { OrderCreated } from '../payloads/OrderCreated';
+import { OrderShipped } from '../payloads/OrderShipped';
+import { PaymentFailed } from '../payloads/PaymentFailed';
+import { PaymentProcessed } from '../payloads/PaymentProcessed';
+import { ShipmentDelivered } from '../payloads/ShipmentDelivered';
+
+export interface OrdersServiceHandlers<E = unknown> {
+  onOrderCreated(message: OrderCreated, envelope: Partial<E>): Promise<void>;
+  onPaymentFailed(message: PaymentFailed, envelope: Partial<E>): Promise<void>;
+  onShipmentDelivered(message: ShipmentDelivered, envelope: Partial<E>): Promise<void>;
+  onPaymentProcessed(message: PaymentProcessed, envelope: Partial<E>): Promise<void>;
+  onInventoryReserved(message: InventoryReserved, envelope: Partial<E>): Promise<void>;
+  onOrderShipped(message: OrderShipped, envelope: Partial<E>): Promise<void>;
+}
+
+/**
+ * wireHandlers - Subscribes every receive operation of Orders Service to its handler through
+ * `runtime`, with the receive options of each operation (e.g. its retry policy) from `options`
+ */
+export function wireHandlers<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handlers: OrdersServiceHandlers<E>,
+  options: Partial<Record<
+    | 'receiveOrderCreated'
+    | 'receivePaymentFailed'
+    | 'receiveShipmentDelivered'
+    | 'receivePaymentProcessed'
+    | 'receiveInventoryReserved'
+    | 'receiveOrderShipped', O>> = {}
+): ChannelSubscription[] {
+  return [
+    receiveOrderCreated(runtime, (message, envelope) => handlers.onOrderCreated(message, envelope), options.receiveOrderCreated),
+    receivePaymentFailed(runtime, (message, envelope) => handlers.onPaymentFailed(message, envelope), options.receivePaymentFailed),
+    receiveShipmentDelivered(runtime, (message, envelope) => handlers.onShipmentDelivered(message, envelope), options.receiveShipmentDelivered),
+    receivePaymentProcessed(runtime, (message, envelope) => handlers.onPaymentProcessed(message, envelope), options.receivePaymentProcessed),
+    receiveInventoryReserved(runtime, (message, envelope) => handlers.onInventoryReserved(message, envelope), options.receiveInventoryReserved),
+    receiveOrderShipped(runtime, (message, envelope) => handlers.onOrderShipped(message, envelope), options.receiveOrderShipped),
+  ];
+}
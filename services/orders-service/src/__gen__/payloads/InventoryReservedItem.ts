@@ -0,0 +1,39 @@
+// Generated by the payloads preset of tools/spec-tools from orders-service.yml, do not edit
+import { readInteger, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface InventoryReservedItemProps {
+  itemId: string;
+  quantity: number;
+}
+
+export class InventoryReservedItem {
+  private _itemId: string;
+  private _quantity: number;
+
+  constructor(props: InventoryReservedItemProps) {
+    this._itemId = props.itemId;
+    this._quantity = props.quantity;
+  }
+
+  get itemId(): string { return this._itemId; }
+  get quantity(): number { return this._quantity; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      itemId: this._itemId,
+      quantity: this._quantity,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): InventoryReservedItem {
+    const obj = toWireObject(json, 'InventoryReservedItem');
+    return new InventoryReservedItem({
+      itemId: readString(obj, 'itemId', 'InventoryReservedItem'),
+      quantity: readInteger(obj, 'quantity', 'InventoryReservedItem'),
+    });
+  }
+}
@@ -0,0 +1,39 @@
+// Generated by the payloads preset of tools/spec-tools from orders-service.yml, do not edit
+import { readString, toWireObject } from 'service-kit/src/wire';
+
+export interface OrderCancelledProps {
+  orderId: string;
+  reason: string;
+}
+
+export class OrderCancelled {
+  private _orderId: string;
+  private _reason: string;
+
+  constructor(props: OrderCancelledProps) {
+    this._orderId = props.orderId;
+    this._reason = props.reason;
+  }
+
+  get orderId(): string { return this._orderId; }
+  get reason(): string { return this._reason; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      orderId: this._orderId,
+      reason: this._reason,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): OrderCancelled {
+    const obj = toWireObject(json, 'OrderCancelled');
+    return new OrderCancelled({
+      orderId: readString(obj, 'orderId', 'OrderCancelled'),
+      reason: readString(obj, 'reason', 'OrderCancelled'),
+    });
+  }
+}
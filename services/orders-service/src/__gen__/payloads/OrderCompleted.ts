@@ -0,0 +1,39 @@
+// Generated by the payloads preset of tools/spec-tools from orders-service.yml, do not edit
+import { readDateTime, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface OrderCompletedProps {
+  orderId: string;
+  completionTime: Date; // ISO 8601 date-time on the wire
+}
+
+export class OrderCompleted {
+  private _orderId: string;
+  private _completionTime: Date;
+
+  constructor(props: OrderCompletedProps) {
+    this._orderId = props.orderId;
+    this._completionTime = props.completionTime;
+  }
+
+  get orderId(): string { return this._orderId; }
+  get completionTime(): Date { return this._completionTime; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      orderId: this._orderId,
+      completionTime: this._completionTime.toISOString(),
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): OrderCompleted {
+    const obj = toWireObject(json, 'OrderCompleted');
+    return new OrderCompleted({
+      orderId: readString(obj, 'orderId', 'OrderCompleted'),
+      completionTime: readDateTime(obj, 'completionTime', 'OrderCompleted'),
+    });
+  }
+}
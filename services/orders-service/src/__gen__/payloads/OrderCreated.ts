@@ -0,0 +1,52 @@
+// Generated by the payloads preset of tools/spec-tools from orders-service.yml, do not edit
+import { readArray, readNumber, readString, toWireObject } from 'service-kit/src/wire';
+import { OrderItem } from './OrderItem';
+
+export interface OrderCreatedProps {
+  orderId: string;
+  userId: string;
+  totalAmount: number;
+  items: OrderItem[];
+}
+
+export class OrderCreated {
+  private _orderId: string;
+  private _userId: string;
+  private _totalAmount: number;
+  private _items: OrderItem[];
+
+  constructor(props: OrderCreatedProps) {
+    this._orderId = props.orderId;
+    this._userId = props.userId;
+    this._totalAmount = props.totalAmount;
+    this._items = props.items;
+  }
+
+  get orderId(): string { return this._orderId; }
+  get userId(): string { return this._userId; }
+  get totalAmount(): number { return this._totalAmount; }
+  get items(): OrderItem[] { return this._items; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      orderId: this._orderId,
+      userId: this._userId,
+      totalAmount: this._totalAmount,
+      items: this._items.map(item => item.toJSON()),
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): OrderCreated {
+    const obj = toWireObject(json, 'OrderCreated');
+    return new OrderCreated({
+      orderId: readString(obj, 'orderId', 'OrderCreated'),
+      userId: readString(obj, 'userId', 'OrderCreated'),
+      totalAmount: readNumber(obj, 'totalAmount', 'OrderCreated'),
+      items: readArray(obj, 'items', 'OrderCreated', item => OrderItem.unmarshal(item as object)),
+    });
+  }
+}
@@ -0,0 +1,45 @@
+// Generated by the payloads preset of tools/spec-tools from orders-service.yml, do not edit
+import { readInteger, readNumber, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface OrderItemProps {
+  itemId: string;
+  quantity: number;
+  price: number;
+}
+
+export class OrderItem {
+  private _itemId: string;
+  private _quantity: number;
+  private _price: number;
+
+  constructor(props: OrderItemProps) {
+    this._itemId = props.itemId;
+    this._quantity = props.quantity;
+    this._price = props.price;
+  }
+
+  get itemId(): string { return this._itemId; }
+  get quantity(): number { return this._quantity; }
+  get price(): number { return this._price; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      itemId: this._itemId,
+      quantity: this._quantity,
+      price: this._price,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): OrderItem {
+    const obj = toWireObject(json, 'OrderItem');
+    return new OrderItem({
+      itemId: readString(obj, 'itemId', 'OrderItem'),
+      quantity: readInteger(obj, 'quantity', 'OrderItem'),
+      price: readNumber(obj, 'price', 'OrderItem'),
+    });
+  }
+}
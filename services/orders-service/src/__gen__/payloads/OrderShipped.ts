@@ -0,0 +1,51 @@
+// Generated by the payloads preset of tools/spec-tools from orders-service.yml, do not edit
+import { readDateTime, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface OrderShippedProps {
+  orderId: string;
+  shipmentId: string;
+  shipmentTime: Date; // ISO 8601 date-time on the wire
+  carrier: string;
+}
+
+export class OrderShipped {
+  private _orderId: string;
+  private _shipmentId: string;
+  private _shipmentTime: Date;
+  private _carrier: string;
+
+  constructor(props: OrderShippedProps) {
+    this._orderId = props.orderId;
+    this._shipmentId = props.shipmentId;
+    this._shipmentTime = props.shipmentTime;
+    this._carrier = props.carrier;
+  }
+
+  get orderId(): string { return this._orderId; }
+  get shipmentId(): string { return this._shipmentId; }
+  get shipmentTime(): Date { return this._shipmentTime; }
+  get carrier(): string { return this._carrier; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      orderId: this._orderId,
+      shipmentId: this._shipmentId,
+      shipmentTime: this._shipmentTime.toISOString(),
+      carrier: this._carrier,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): OrderShipped {
+    const obj = toWireObject(json, 'OrderShipped');
+    return new OrderShipped({
+      orderId: readString(obj, 'orderId', 'OrderShipped'),
+      shipmentId: readString(obj, 'shipmentId', 'OrderShipped'),
+      shipmentTime: readDateTime(obj, 'shipmentTime', 'OrderShipped'),
+      carrier: readString(obj, 'carrier', 'OrderShipped'),
+    });
+  }
+}
@@ -0,0 +1,45 @@
+// Generated by the payloads preset of tools/spec-tools from orders-service.yml, do not edit
+import { readDateTime, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface ShipmentDeliveredProps {
+  orderId: string;
+  shipmentId: string;
+  deliveryTime: Date; // ISO 8601 date-time on the wire
+}
+
+export class ShipmentDelivered {
+  private _orderId: string;
+  private _shipmentId: string;
+  private _deliveryTime: Date;
+
+  constructor(props: ShipmentDeliveredProps) {
+    this._orderId = props.orderId;
+    this._shipmentId = props.shipmentId;
+    this._deliveryTime = props.deliveryTime;
+  }
+
+  get orderId(): string { return this._orderId; }
+  get shipmentId(): string { return this._shipmentId; }
+  get deliveryTime(): Date { return this._deliveryTime; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      orderId: this._orderId,
+      shipmentId: this._shipmentId,
+      deliveryTime: this._deliveryTime.toISOString(),
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): ShipmentDelivered {
+    const obj = toWireObject(json, 'ShipmentDelivered');
+    return new ShipmentDelivered({
+      orderId: readString(obj, 'orderId', 'ShipmentDelivered'),
+      shipmentId: readString(obj, 'shipmentId', 'ShipmentDelivered'),
+      deliveryTime: readDateTime(obj, 'deliveryTime', 'ShipmentDelivered'),
+    });
+  }
+}
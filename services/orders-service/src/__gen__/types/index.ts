@@ -0,0 +1,27 @@
+// Generated by the types preset of tools/spec-tools from orders-service.yml, do not edit
+
+// The address of every channel, by channel id
+export const CHANNEL_ADDRESSES = {
+  orderCreated: 'order.created',
+  orderCancelled: 'order.cancelled',
+  orderCompleted: 'order.completed',
+  paymentFailed: 'payment.failed',
+  shipmentDelivered: 'shipment.delivered',
+  paymentProcessed: 'payment.processed',
+  inventoryReserved: 'inventory.reserved',
+  orderShipped: 'order.shipped',
+} as const;
+
+export type ChannelId = keyof typeof CHANNEL_ADDRESSES;
+export type ChannelAddress = (typeof CHANNEL_ADDRESSES)[ChannelId];
+
+export type SendOperationId =
+  | 'sendOrderCancelled'
+  | 'sendOrderCompleted';
+export type ReceiveOperationId =
+  | 'receiveOrderCreated'
+  | 'receivePaymentFailed'
+  | 'receiveShipmentDelivered'
+  | 'receivePaymentProcessed'
+  | 'receiveInventoryReserved'
+  | 'receiveOrderShipped';
@@ -0,0 +1,107 @@
+import { JSONCodec } from 'nats';
+import { writeEnvelope } from 'service-kit/src/headers';
+import { ChannelPayload, ChannelRuntime, ChannelSubscription, ReceiveOperation, SendOperation } from './__gen__/channels';
+import { ContractViolationError, validatePayload } from './validation';
+import { DEFAULT_RETRY_POLICY, RETRY_POLICIES, RetryExhaustedError, RetryOperation, RetryPolicy, withRetry } from './retry';
+import { deadLetter } from './dlq';
+import { MessageEnvelope, createEnvelope, readEnvelope } from './headers';
+import { traceHandler, tracePublish } from './telemetry';
+import { HeaderMap, InboundMessage, MessageHeaders, MessageTransport } from './transports';
+import { logger } from './logger';
+
+const jc = JSONCodec();
+const encoder = new TextEncoder();
+
+/**
+ * decodeValidated - Decodes an inbound message and checks it against the AsyncAPI
+ * message schema, logging a structured error when it breaks the contract
+ */
+export function decodeValidated(msg: { subject: string; data: Uint8Array; headers?: MessageHeaders }, messageName: string): object {
+  const payload = jc.decode(msg.data);
+  try {
+    validatePayload(msg.subject, messageName, payload, 'receive');
+  } catch (err) {
+    if (err instanceof ContractViolationError) {
+      logger.error(`🚨 Rejected invalid ${messageName}`, { channel: msg.subject, err });
+    }
+    throw err;
+  }
+  return payload as object;
+}
+
+/**
+ * Runs the handler for an inbound message under the operation's retry policy.
+ * Messages that still fail afterwards, or that break the contract, are moved
+ * to the dead-letter channel. Either way the message is acknowledged.
+ */
+async function processMessage<T>(
+  transport: MessageTransport,
+  msg: InboundMessage,
+  messageName: string,
+  unmarshal: (json: object) => T,
+  handler: (data: T, envelope: Partial<MessageEnvelope>) => Promise<void>,
+  retryPolicy: RetryPolicy
+): Promise<void> {
+  try {
+    await withRetry(retryPolicy, () => traceHandler(transport.protocol, msg, messageName, async () => {
+      await handler(unmarshal(decodeValidated(msg, messageName)), readEnvelope(msg.headers));
+    }));
+  } catch (err) {
+    if (!(err instanceof RetryExhaustedError)) throw err;
+    await deadLetter(transport, msg, err.lastError, err.attempts);
+  }
+  msg.ack();
+}
+
+function isRetryOperation(operationId: string): operationId is RetryOperation {
+  return operationId in RETRY_POLICIES;
+}
+
+// ============================================================================
+// TransportRuntime - What the generated send and receive functions in
+// src/__gen__/channels run on: contract validation, spec and envelope headers,
+// tracing, and retries with dead-lettering over a MessageTransport
+// ============================================================================
+export class TransportRuntime implements ChannelRuntime<MessageEnvelope, RetryPolicy> {
+  constructor(private readonly transport: MessageTransport) {}
+
+  /**
+   * send - Publishes `message` with the header defaults of its operation and the envelope,
+   * a new saga for the message's orderId unless one is given
+   */
+  async send(operation: SendOperation, message: ChannelPayload, envelope?: MessageEnvelope): Promise<void> {
+    const { operationId, channel, messageName } = operation;
+    const payload = message.toJSON();
+    validatePayload(channel, messageName, payload, 'send');
+
+    const orderId = String(payload.orderId);
+    const sent = envelope ?? createEnvelope(orderId);
+    const h = writeEnvelope(new HeaderMap(operation.headers), sent);
+    await tracePublish(this.transport.protocol, channel, messageName, h, () => this.transport.publish(channel, encoder.encode(message.marshal()), h));
+    logger.info(`📤 ${messageName} sent`, { channel, operation: operationId, orderId, correlationId: sent.correlationId });
+  }
+
+  /**
+   * receive - Subscribes `handler` under `retryPolicy`, by default the one RETRY_POLICIES
+   * has for the operation
+   */
+  receive<T>(
+    operation: ReceiveOperation<T>,
+    handler: (message: T, envelope: Partial<MessageEnvelope>) => Promise<void>,
+    retryPolicy?: RetryPolicy
+  ): ChannelSubscription {
+    const { operationId, channel, messageName, unmarshal } = operation;
+    const policy = retryPolicy ?? (isRetryOperation(operationId) ? RETRY_POLICIES[operationId] : DEFAULT_RETRY_POLICY);
+
+    const sub = this.transport.subscribe(channel, async msg => {
+      try {
+        await processMessage(this.transport, msg, messageName, unmarshal, handler, policy);
+      } catch (err) {
+        logger.error(`❌ Error processing ${messageName}`, { channel: msg.subject, operation: operationId, err });
+      }
+    });
+
+    logger.info('📬 Subscribed', { channel });
+    return sub;
+  }
+}
@@ -10,5 +10,8 @@ export const CHANNELS = {
   orderCreated: 'order.created',
   paymentFailed: 'payment.failed',
   shipmentDelivered: 'shipment.delivered',
+  paymentProcessed: 'payment.processed',
+  inventoryReserved: 'inventory.reserved',
+  orderShipped: 'order.shipped',
 } as const;
 
@@ -0,0 +1,10 @@
+// ============================================================================
+// Clock the service reads the time from, so a test can pin it
+// ============================================================================
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
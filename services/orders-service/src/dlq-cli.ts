@@ -0,0 +1,80 @@
+import { connect, NatsConnection, StringCodec } from 'nats';
+import { DLQ_HEADERS, DLQ_STREAM, originalHeaders } from './dlq';
+import { readStream } from './jetstream';
+
+// ============================================================================
+// Dead-letter CLI
+//
+//   yarn dlq list                   List every dead-lettered message
+//   yarn dlq replay <seq> [<seq>]   Republish messages onto their original channel
+//   yarn dlq replay --all           Republish every dead-lettered message
+// ============================================================================
+const sc = StringCodec();
+
+async function list(nc: NatsConnection): Promise<void> {
+  const messages = await readStream(nc, DLQ_STREAM);
+  if (messages.length === 0) {
+    console.log('🪦 Dead-letter queue is empty');
+    return;
+  }
+
+  console.log(`🪦 ${messages.length} dead-lettered message(s):\n`);
+  for (const m of messages) {
+    console.log(`#${m.seq}  ${m.header.get(DLQ_HEADERS.originalSubject)}`);
+    console.log(`    attempts:  ${m.header.get(DLQ_HEADERS.attempts)}`);
+    console.log(`    failed at: ${m.header.get(DLQ_HEADERS.failedAt)}`);
+    console.log(`    error:     ${m.header.get(DLQ_HEADERS.error)}`);
+    console.log(`    payload:   ${sc.decode(m.data)}\n`);
+  }
+}
+
+async function replay(nc: NatsConnection, args: string[]): Promise<void> {
+  const jsm = await nc.jetstreamManager();
+  const messages = await readStream(nc, DLQ_STREAM);
+  const selected = args.includes('--all')
+    ? messages
+    : messages.filter(m => args.includes(String(m.seq)));
+
+  if (selected.length === 0) {
+    console.log('⚠️  Nothing to replay');
+    return;
+  }
+
+  for (const m of selected) {
+    const subject = m.header.get(DLQ_HEADERS.originalSubject);
+    if (!subject) {
+      console.log(`⚠️  #${m.seq} has no ${DLQ_HEADERS.originalSubject} header, skipping`);
+      continue;
+    }
+    nc.publish(subject, m.data, { headers: originalHeaders(m.header) });
+    await jsm.streams.deleteMessage(DLQ_STREAM, m.seq);
+    console.log(`🔁 Replayed #${m.seq} onto ${subject}`);
+  }
+  await nc.flush();
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const natsUrl = process.env.NATS_URL || 'nats://localhost:4222';
+
+  if (command !== 'list' && command !== 'replay') {
+    console.log('Usage: dlq list | dlq replay <seq...> | dlq replay --all');
+    process.exit(1);
+  }
+
+  const nc = await connect({ servers: natsUrl });
+  try {
+    if (command === 'list') {
+      await list(nc);
+    } else {
+      await replay(nc, args);
+    }
+  } catch (err) {
+    console.error('❌ DLQ command failed:', err);
+    process.exitCode = 1;
+  } finally {
+    await nc.drain();
+  }
+}
+
+main();
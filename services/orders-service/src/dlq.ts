@@ -0,0 +1,91 @@
+import { NatsConnection, MsgHdrs, headers } from 'nats';
+import { InboundMessage, MessageTransport, copyHeaders } from './transports/MessageTransport';
+import { logger } from './logger';
+
+// ============================================================================
+// Dead-letter channel
+// ============================================================================
+export const DLQ_STREAM = 'DLQ';
+export const DLQ_SUBJECTS = 'dlq.>';
+
+export const DLQ_HEADERS = {
+  originalSubject: 'dlq-original-subject',
+  error: 'dlq-error',
+  attempts: 'dlq-attempts',
+  failedAt: 'dlq-failed-at',
+} as const;
+
+// Longest dlq-error value kept; the full error is in the log line of the dead-lettering
+export const DLQ_ERROR_MAX_LENGTH = 1024;
+
+/**
+ * dlqSubject - Dead-letter subject for a channel, e.g. order.created -> dlq.order.created
+ */
+export function dlqSubject(channel: string): string {
+  return `dlq.${channel}`;
+}
+
+/**
+ * ensureDeadLetterStream - Creates the JetStream stream that keeps dead letters
+ * around for the DLQ CLI. Without JetStream the dead letters are still published,
+ * but only live subscribers will see them.
+ */
+export async function ensureDeadLetterStream(nc: NatsConnection): Promise<void> {
+  try {
+    const jsm = await nc.jetstreamManager();
+    try {
+      await jsm.streams.info(DLQ_STREAM);
+    } catch {
+      await jsm.streams.add({ name: DLQ_STREAM, subjects: [DLQ_SUBJECTS] });
+      logger.info(`🪦 Created dead-letter stream ${DLQ_STREAM} (${DLQ_SUBJECTS})`);
+    }
+  } catch (err) {
+    logger.warn('⚠️  JetStream unavailable, dead letters will not be stored', { err });
+  }
+}
+
+/**
+ * errorHeaderValue - The error message on one line and at most DLQ_ERROR_MAX_LENGTH characters.
+ * Header values cannot contain line breaks (nats.js throws on them), but ajv and
+ * stack-like messages often do.
+ */
+export function errorHeaderValue(err: unknown): string {
+  const message = (err instanceof Error ? err.message : String(err)).replace(/\s*[\r\n]+\s*/g, ' | ').trim();
+  return message.length > DLQ_ERROR_MAX_LENGTH ? `${message.slice(0, DLQ_ERROR_MAX_LENGTH - 1)}…` : message;
+}
+
+/**
+ * deadLetter - Publishes a message that could not be processed to dlq.<channel>
+ * with the error, attempt count and the original headers attached
+ */
+export async function deadLetter(
+  transport: MessageTransport,
+  msg: Pick<InboundMessage, 'subject' | 'data' | 'headers'>,
+  err: unknown,
+  attempts: number
+): Promise<void> {
+  const h = copyHeaders(msg.headers);
+  h.set(DLQ_HEADERS.originalSubject, msg.subject);
+  h.set(DLQ_HEADERS.error, errorHeaderValue(err));
+  h.set(DLQ_HEADERS.attempts, String(attempts));
+  h.set(DLQ_HEADERS.failedAt, new Date().toISOString());
+
+  await transport.publish(dlqSubject(msg.subject), msg.data, h);
+  logger.error(`🪦 Dead-lettered after ${attempts} attempt(s)`, { channel: msg.subject, err });
+}
+
+/**
+ * originalHeaders - Strips the dlq-* headers again so a message can be replayed as it was sent
+ */
+export function originalHeaders(dlqHeaders: MsgHdrs | undefined): MsgHdrs | undefined {
+  if (!dlqHeaders) return undefined;
+  const dlqKeys: string[] = Object.values(DLQ_HEADERS);
+  const h = headers();
+  let copied = 0;
+  for (const [key, values] of dlqHeaders) {
+    if (dlqKeys.includes(key.toLowerCase())) continue;
+    for (const value of values) h.append(key, value);
+    copied++;
+  }
+  return copied > 0 ? h : undefined;
+}
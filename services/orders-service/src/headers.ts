@@ -0,0 +1,10 @@
+import { envelopeHeaders } from 'service-kit/src/headers';
+import { HeaderMap } from './transports/MessageTransport';
+import { specDocument } from './validation';
+
+// ============================================================================
+// The message envelope and spec header defaults, written into transport-neutral headers
+// ============================================================================
+export { ENVELOPE_HEADERS, MessageEnvelope, readEnvelope } from 'service-kit/src/headers';
+
+export const { createEnvelope, headerDefaults, messageHeaders } = envelopeHeaders(() => specDocument(), () => new HeaderMap());
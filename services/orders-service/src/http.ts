@@ -0,0 +1,134 @@
+import http, { IncomingMessage, Server, ServerResponse } from 'http';
+import { ORDER_STATUSES, Order, OrderStatus, toOrderJson } from './order';
+import { IllegalTransitionError } from './order-lifecycle';
+import { TransportHealth } from './transports';
+import { logger } from './logger';
+
+// ============================================================================
+// HTTP query and command API (documented in eventcatalog/openapi-files/orders-service.yml)
+// ============================================================================
+/**
+ * OrdersApi - What the HTTP server needs from the Orders Service
+ */
+export interface OrdersApi {
+  getOrder(orderId: string): Promise<Order | undefined>;
+  getOrders(): Promise<Order[]>;
+  getOrdersByStatus(status: OrderStatus): Promise<Order[]>;
+  cancelOrder(orderId: string, reason: string): Promise<void>;
+  getBrokerHealth(): TransportHealth;
+}
+
+class HttpError extends Error {
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let raw = '';
+  for await (const chunk of req) {
+    raw += chunk;
+  }
+  if (!raw) return {};
+  try {
+    const body = JSON.parse(raw);
+    if (body === null || typeof body !== 'object' || Array.isArray(body)) throw new Error();
+    return body;
+  } catch {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+}
+
+/**
+ * Decodes a percent-encoded path segment; a malformed escape such as `%E0%A4%A` is a bad request
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch (err) {
+    if (err instanceof URIError) throw new HttpError(400, `Malformed path segment "${segment}"`);
+    throw err;
+  }
+}
+
+async function route(api: OrdersApi, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+  const method = req.method ?? 'GET';
+
+  // GET /health
+  if (method === 'GET' && url.pathname === '/health') {
+    const broker = api.getBrokerHealth();
+    sendJson(res, broker.connected ? 200 : 503, {
+      status: broker.connected ? 'ok' : 'unavailable',
+      broker,
+      nats: { connected: broker.connected, server: broker.server },  // Deprecated, the 1.0.0 name of `broker`
+    });
+    return;
+  }
+
+  // GET /orders, GET /orders?status=
+  if (method === 'GET' && segments.length === 1 && segments[0] === 'orders') {
+    const status = url.searchParams.get('status');
+    if (status !== null && !(ORDER_STATUSES as readonly string[]).includes(status)) {
+      throw new HttpError(400, `Unknown status "${status}", expected one of ${ORDER_STATUSES.join(', ')}`);
+    }
+    const orders = status ? await api.getOrdersByStatus(status as OrderStatus) : await api.getOrders();
+    sendJson(res, 200, orders.map(toOrderJson));
+    return;
+  }
+
+  // GET /orders/:id
+  if (method === 'GET' && segments.length === 2 && segments[0] === 'orders') {
+    const order = await api.getOrder(segments[1]);
+    if (!order) throw new HttpError(404, `Order ${segments[1]} not found`);
+    sendJson(res, 200, toOrderJson(order));
+    return;
+  }
+
+  // POST /orders/:id/cancel
+  if (method === 'POST' && segments.length === 3 && segments[0] === 'orders' && segments[2] === 'cancel') {
+    const orderId = segments[1];
+    const body = await readJsonBody(req);
+    if (typeof body.reason !== 'string' || !body.reason) {
+      throw new HttpError(400, 'Field "reason" must be a non-empty string');
+    }
+    if (!await api.getOrder(orderId)) throw new HttpError(404, `Order ${orderId} not found`);
+
+    await api.cancelOrder(orderId, body.reason);
+    sendJson(res, 200, toOrderJson((await api.getOrder(orderId))!));
+    return;
+  }
+
+  throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+}
+
+/**
+ * startHttpServer - Serves the Orders Service API on the given port
+ */
+export function startHttpServer(api: OrdersApi, port: number): Promise<Server> {
+  const server = http.createServer((req, res) => {
+    route(api, req, res).catch(err => {
+      if (err instanceof HttpError) {
+        sendJson(res, err.statusCode, { error: err.message });
+      } else if (err instanceof IllegalTransitionError) {
+        sendJson(res, 409, { error: err.message });
+      } else {
+        logger.error(`❌ HTTP ${req.method} ${req.url} failed`, { err });
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, () => {
+      logger.info(`🌐 HTTP API listening on http://localhost:${port}`);
+      resolve(server);
+    });
+  });
+}
@@ -1,47 +1,92 @@
-import { connect, NatsConnection, Subscription } from 'nats';
+import { ConsumerMessages } from 'nats';
 
 import { CHANNELS } from './channels';
-import { OrderCreated } from './models/OrderCreated';
-import { OrderCancelled } from './models/OrderCancelled';
-import { OrderCompleted } from './models/OrderCompleted';
-import { PaymentFailed } from './models/PaymentFailed';
-import { ShipmentDelivered } from './models/ShipmentDelivered';
+import { OrderCreated } from './__gen__/payloads/OrderCreated';
+import { OrderCancelled } from './__gen__/payloads/OrderCancelled';
+import { OrderCompleted } from './__gen__/payloads/OrderCompleted';
+import { PaymentFailed } from './__gen__/payloads/PaymentFailed';
+import { ShipmentDelivered } from './__gen__/payloads/ShipmentDelivered';
+import { PaymentProcessed } from './__gen__/payloads/PaymentProcessed';
+import { InventoryReserved } from './__gen__/payloads/InventoryReserved';
+import { OrderShipped } from './__gen__/payloads/OrderShipped';
+import { sendOrderCancelled, sendOrderCompleted } from './__gen__/channels';
+import { TransportRuntime } from './channel-runtime';
 import {
-  sendOrderCancelled,
-  sendOrderCompleted,
-  receiveOrderCreated,
-  receivePaymentFailed,
-  receiveShipmentDelivered,
-} from './nats';
-
-export type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'completed' | 'cancelled';
-export interface OrderItems {
-  itemId: string;
-  quantity: number;
-  price: number;
-}
-export interface Order {
-  orderId: string;
-  userId: string;
-  totalAmount: number;
-  items: OrderItems[];
-  status: OrderStatus;
-  createdAt: Date;
+  ensureChannelStreams,
+  jetStreamSendOrderCancelled,
+  jetStreamSendOrderCompleted,
+  jetStreamReceiveOrderCreated,
+  jetStreamReceivePaymentFailed,
+  jetStreamReceiveShipmentDelivered,
+  jetStreamReceivePaymentProcessed,
+  jetStreamReceiveInventoryReserved,
+  jetStreamReceiveOrderShipped,
+} from './jetstream';
+import { ensureDeadLetterStream } from './dlq';
+import { replayEventHistory } from './replay';
+import { ORDER_STATUSES, Order, OrderStatus } from './order';
+import { IllegalTransitionError, checkTransition, transition } from './order-lifecycle';
+import { InMemoryOrderRepository, OrderRepository, OrderStore, createOrderRepository } from './repositories';
+import { OrdersApi, startHttpServer } from './http';
+import { MessageTransport, NatsTransport, TransportHealth, TransportSubscription, transportFromEnv } from './transports';
+import { MessageEnvelope, createEnvelope } from './headers';
+import { Clock, systemClock } from './clock';
+import { RetryPolicies, RetryPolicyOverrides, retryPolicies, retryPoliciesFromEnv } from './retry';
+import { initTelemetry, observeOrderStatuses, telemetryOptionsFromEnv } from './telemetry';
+import { Logger, logger } from './logger';
+import { OrdersServiceHandlers, wireHandlers } from './__gen__/handlers';
+
+export { Order, OrderItems, OrderStatus } from './order';
+
+export interface OrdersServiceOptions {
+  jetstream: boolean;             // Use durable JetStream consumers and deduplicated publishes (NATS only)
+  store?: OrderStore;             // Where order state is kept (default: memory, kv needs NATS)
+  repository?: OrderRepository;   // Use this repository instead of the one picked by `store`
+  rebuildOnStartup?: boolean;     // Replay the stored channel history through the handlers before subscribing (NATS only)
+  clock?: Clock;                  // Time of order creation, completion and outbound envelopes (default: system clock)
+  retryPolicies?: RetryPolicyOverrides;  // Changes to RETRY_POLICIES, per operation ID
 }
 
 // ============================================================================
 // Orders Service Implementation
 // ============================================================================
-class OrdersService {
-  private nc: NatsConnection | null = null;
-  private subscriptions: Subscription[] = [];
-  private orders: Map<string, Order> = new Map();
+export class OrdersService implements OrdersApi, OrdersServiceHandlers<MessageEnvelope> {
+  private subscriptions: TransportSubscription[] = [];
+  private consumers: ConsumerMessages[] = [];
+  private orders: OrderRepository;
   private running = true;
+  private replaying = false;
+  private clock: Clock;
+  private retry: RetryPolicies;
+  private channels: TransportRuntime;
+
+  constructor(
+    private readonly transport: MessageTransport,
+    private readonly options: OrdersServiceOptions = { jetstream: false },
+  ) {
+    this.orders = options.repository ?? new InMemoryOrderRepository();
+    this.clock = options.clock ?? systemClock;
+    this.retry = retryPolicies(options.retryPolicies);
+    this.channels = new TransportRuntime(transport);
+    observeOrderStatuses(() => this.orders.list());
+  }
+
+  async connect(): Promise<void> {
+    await this.transport.connect();
+
+    if (!this.options.repository && this.options.store) {
+      this.orders = await createOrderRepository(this.options.store, this.transport);
+    }
+  }
 
-  async connect(natsUrl: string = 'nats://localhost:4222'): Promise<void> {
-    console.log(`🔌 Connecting to NATS at ${natsUrl}...`);
-    this.nc = await connect({ servers: natsUrl });
-    console.log(`✅ Connected to NATS server: ${this.nc.getServer()}`);
+  /**
+   * The transport as NATS, for features only NATS offers here; throws naming the feature otherwise
+   */
+  private nats(feature: string): NatsTransport {
+    if (!(this.transport instanceof NatsTransport)) {
+      throw new Error(`${feature} needs a NATS server, the transport is ${this.transport.protocol}`);
+    }
+    return this.transport;
   }
 
   async disconnect(): Promise<void> {
@@ -52,119 +97,252 @@ class OrdersService {
       sub.unsubscribe();
     }
     this.subscriptions = [];
-
-    if (this.nc) {
-      await this.nc.drain();
-      console.log('👋 Disconnected from NATS');
+    for (const consumer of this.consumers) {
+      consumer.stop();
     }
+    this.consumers = [];
+
+    await this.transport.close();
   }
 
   // =========================================================================
-  // Handlers (Business Logic)
+  // Handlers (Business Logic), one per receive operation of the spec as
+  // OrdersServiceHandlers in src/__gen__/handlers requires
   // =========================================================================
 
   /**
-   * handleOrderCreated - Handles OrderCreated events
+   * onOrderCreated - Handles OrderCreated events
    * When an order is created (by another service/frontend), track it internally
    */
-  private handleOrderCreated = async (data: OrderCreated): Promise<void> => {
-    console.log(`📥 [${CHANNELS.orderCreated}] OrderCreated received:`, {
-      orderId: data.orderId,
-      userId: data.userId,
-      totalAmount: data.totalAmount,
-      itemCount: data.items.length,
-    });
+  onOrderCreated = async (data: OrderCreated, envelope: Partial<MessageEnvelope> = {}): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.orderCreated, 'receiveOrderCreated', data.orderId, envelope);
+    log.debug('📥 OrderCreated received', { payload: data });
 
     // Check if we already have this order
-    if (this.orders.has(data.orderId)) {
-      console.log(`⚠️  Order ${data.orderId} already exists, ignoring duplicate`);
+    if (await this.orders.get(data.orderId)) {
+      log.warn(`⚠️  Order ${data.orderId} already exists, ignoring duplicate`);
       return;
     }
 
     // Track order internally
-    this.orders.set(data.orderId, {
+    await this.orders.save({
       orderId: data.orderId,
       userId: data.userId,
       totalAmount: data.totalAmount,
       items: data.items,
       status: 'pending',
-      createdAt: new Date(),
+      createdAt: this.clock.now(),
     });
 
-    console.log(`✅ Order ${data.orderId} registered - waiting for payment/shipment events`);
+    log.info(`✅ Order ${data.orderId} registered - waiting for payment and inventory reservation`, {
+      userId: data.userId,
+      totalAmount: data.totalAmount,
+      itemCount: data.items.length,
+    });
   };
-  private handlePaymentFailed = async (data: PaymentFailed): Promise<void> => {
-    console.log(`📥 [${CHANNELS.paymentFailed}] PaymentFailed received:`, data);
+  onPaymentProcessed = async (data: PaymentProcessed, envelope: Partial<MessageEnvelope> = {}): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.paymentProcessed, 'receivePaymentProcessed', data.orderId, envelope);
+    log.debug('📥 PaymentProcessed received', { payload: data });
 
-    const order = this.orders.get(data.orderId);
+    const order = await this.confirmWhenReady(data.orderId, order => { order.paymentId = data.paymentId; }, log);
     if (!order) {
-      console.log(`⚠️  Order ${data.orderId} not found, ignoring payment failure`);
-      return;
+      log.warn(`⚠️  Order ${data.orderId} not found, ignoring payment`);
     }
+  };
+  onInventoryReserved = async (data: InventoryReserved, envelope: Partial<MessageEnvelope> = {}): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.inventoryReserved, 'receiveInventoryReserved', data.orderId, envelope);
+    log.debug('📥 InventoryReserved received', { payload: data });
 
-    if (order.status === 'cancelled') {
-      console.log(`⚠️  Order ${data.orderId} already cancelled, ignoring`);
-      return;
+    const order = await this.confirmWhenReady(data.orderId, order => { order.reservationId = data.reservationId; }, log);
+    if (!order) {
+      log.warn(`⚠️  Order ${data.orderId} not found, ignoring inventory reservation`);
     }
+  };
+  onPaymentFailed = async (data: PaymentFailed, envelope: Partial<MessageEnvelope> = {}): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.paymentFailed, 'receivePaymentFailed', data.orderId, envelope);
+    log.debug('📥 PaymentFailed received', { payload: data });
 
-    // Cancel the order due to payment failure
-    console.log(`🚫 Cancelling order ${data.orderId} due to payment failure: ${data.failureReason}`);
-    this.publishOrderCancelled(new OrderCancelled({
+    // Cancel the order due to payment failure, in the same saga as the failed payment
+    const { order, rejection } = await this.publishOrderCancelled(new OrderCancelled({
       orderId: data.orderId,
       reason: `Payment failed: ${data.failureReason}`,
-    }));
-  };
-  private handleShipmentDelivered = async (data: ShipmentDelivered): Promise<void> => {
-    console.log(`📥 [${CHANNELS.shipmentDelivered}] ShipmentDelivered received:`, data);
-
-    const order = this.orders.get(data.orderId);
+    }), this.envelope(data.orderId, envelope));
     if (!order) {
-      console.log(`⚠️  Order ${data.orderId} not found, ignoring shipment delivery`);
+      log.warn(`⚠️  Order ${data.orderId} not found, ignoring payment failure`);
+      return;
+    }
+    if (rejection) {
+      log.warn(`⚠️  ${rejection.message}, ignoring payment failure`);
       return;
     }
 
-    if (order.status === 'cancelled') {
-      console.log(`⚠️  Order ${data.orderId} is cancelled, ignoring shipment delivery`);
+    log.info(`🚫 Order ${data.orderId} cancelled due to payment failure: ${data.failureReason}`);
+  };
+  onOrderShipped = async (data: OrderShipped, envelope: Partial<MessageEnvelope> = {}): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.orderShipped, 'receiveOrderShipped', data.orderId, envelope);
+    log.debug('📥 OrderShipped received', { payload: data });
+
+    let rejection: IllegalTransitionError | undefined;
+    const order = await this.orders.update(data.orderId, order => {
+      rejection = this.illegalTransition(order, 'shipped');
+      if (rejection) return false;
+      order.shipmentId = data.shipmentId;
+      transition(order, 'shipped');
+    });
+    if (!order) {
+      log.warn(`⚠️  Order ${data.orderId} not found, ignoring shipment`);
+      return;
+    }
+    if (rejection) {
+      log.warn(`⚠️  ${rejection.message}, ignoring shipment`);
       return;
     }
 
-    if (order.status === 'completed') {
-      console.log(`⚠️  Order ${data.orderId} already completed, ignoring`);
+    log.info(`🚚 Order ${data.orderId} shipped with ${data.carrier} at ${data.shipmentTime.toISOString()}`);
+  };
+  onShipmentDelivered = async (data: ShipmentDelivered, envelope: Partial<MessageEnvelope> = {}): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.shipmentDelivered, 'receiveShipmentDelivered', data.orderId, envelope);
+    log.debug('📥 ShipmentDelivered received', { payload: data });
+
+    let rejection: IllegalTransitionError | undefined;
+    const order = await this.orders.update(data.orderId, order => {
+      rejection = this.illegalTransition(order, 'delivered');
+      if (rejection) return false;
+      order.shipmentId = data.shipmentId;
+      transition(order, 'delivered');
+    });
+    if (!order) {
+      log.warn(`⚠️  Order ${data.orderId} not found, ignoring shipment delivery`);
+      return;
+    }
+    if (rejection) {
+      log.warn(`⚠️  ${rejection.message}, ignoring shipment delivery`);
       return;
     }
 
-    // Mark order as completed
-    console.log(`✅ Completing order ${data.orderId} - shipment delivered at ${data.deliveryTime}`);
-    this.publishOrderCompleted(new OrderCompleted({
+    // A delivered order is complete
+    log.info(`✅ Completing order ${data.orderId} - shipment delivered at ${data.deliveryTime.toISOString()}`);
+    await this.publishOrderCompleted(new OrderCompleted({
       orderId: data.orderId,
-      completionTime: new Date().toISOString(),
-    }));
+      completionTime: this.clock.now(),
+    }), this.envelope(data.orderId, envelope));
   };
 
+  // =========================================================================
+  // State machine helpers
+  // =========================================================================
+
+  /**
+   * Logger for one inbound message, carrying its channel, operation, orderId and correlation id
+   */
+  private messageLogger(channel: string, operation: string, orderId: string, envelope: Partial<MessageEnvelope>): Logger {
+    return logger.child({ channel, operation, orderId, correlationId: envelope.correlationId });
+  }
+
+  /**
+   * Envelope for an outbound message about an order, stamped with the service clock
+   */
+  private envelope(orderId: string, cause?: Partial<MessageEnvelope>): MessageEnvelope {
+    return createEnvelope(orderId, cause, this.clock.now());
+  }
+
+  /**
+   * Returns the error describing why the order cannot move to `to`, if it cannot
+   */
+  private illegalTransition(order: Order, to: OrderStatus): IllegalTransitionError | undefined {
+    const reason = checkTransition(order, to);
+    return reason === undefined ? undefined : new IllegalTransitionError(order.orderId, order.status, to, reason);
+  }
+
+  /**
+   * Records the payment or inventory reservation on an order and confirms a pending order
+   * once both are in. Resolves to undefined when the order is unknown.
+   */
+  private async confirmWhenReady(orderId: string, record: (order: Order) => void, log: Logger): Promise<Order | undefined> {
+    let rejection: IllegalTransitionError | undefined;
+    const order = await this.orders.update(orderId, order => {
+      record(order);
+      rejection = this.illegalTransition(order, 'confirmed');
+      if (!rejection) transition(order, 'confirmed');
+    });
+    if (!order) return undefined;
+
+    if (!rejection) {
+      log.info(`✅ Order ${order.orderId} confirmed - paid and reserved`);
+    } else if (order.status === 'pending') {
+      log.info(`⏳ Order ${order.orderId} stays pending: ${rejection.reason}`);
+    } else {
+      log.warn(`⚠️  ${rejection.message}, recorded without a status change`);
+    }
+    return order;
+  }
+
   // =========================================================================
   // Publishing wrappers (update state + send)
   // =========================================================================
-  private publishOrderCancelled(data: OrderCancelled): void {
-    if (!this.nc) throw new Error('Not connected to NATS');
-    
-    sendOrderCancelled(this.nc, data);
 
+  /**
+   * Cancels the order, then publishes OrderCancelled. Of two cancellations racing each other
+   * only the one whose update took publishes. Resolves to the order as stored (undefined
+   * when unknown) and to why it could not be cancelled, if it could not.
+   */
+  private async publishOrderCancelled(
+    data: OrderCancelled,
+    envelope: MessageEnvelope = this.envelope(data.orderId)
+  ): Promise<{ order?: Order; rejection?: IllegalTransitionError }> {
     // Update internal state
-    const order = this.orders.get(data.orderId);
-    if (order) {
-      order.status = 'cancelled';
+    let rejection: IllegalTransitionError | undefined;
+    const order = await this.orders.update(data.orderId, order => {
+      rejection = this.illegalTransition(order, 'cancelled');
+      if (rejection) return false;
+      transition(order, 'cancelled');
+    });
+    if (!order || rejection) return { order, rejection };
+
+    // While rebuilding state the event was already sent the first time round
+    if (!this.replaying) {
+      if (this.options.jetstream) {
+        await jetStreamSendOrderCancelled(this.nats('NATS_JETSTREAM'), data, envelope);
+      } else {
+        await sendOrderCancelled(this.channels, data, envelope);
+      }
     }
+    return { order };
   }
 
-  private publishOrderCompleted(data: OrderCompleted): void {
-    if (!this.nc) throw new Error('Not connected to NATS');
-    
-    sendOrderCompleted(this.nc, data);
+  private async publishOrderCompleted(data: OrderCompleted, envelope: MessageEnvelope = this.envelope(data.orderId)): Promise<void> {
+    // While rebuilding state the event was already sent the first time round
+    if (!this.replaying) {
+      if (this.options.jetstream) {
+        await jetStreamSendOrderCompleted(this.nats('NATS_JETSTREAM'), data, envelope);
+      } else {
+        await sendOrderCompleted(this.channels, data, envelope);
+      }
+    }
 
     // Update internal state
-    const order = this.orders.get(data.orderId);
-    if (order) {
-      order.status = 'completed';
+    await this.orders.update(data.orderId, order => { transition(order, 'completed'); });
+  }
+
+  // =========================================================================
+  // State rebuild
+  // =========================================================================
+
+  /**
+   * Replays the stored history of every channel the service receives
+   * through the handlers without publishing anything.
+   * Cancellations made through cancelOrder() are not part of that history.
+   */
+  async rebuildState(): Promise<void> {
+    const nats = this.nats('REBUILD_STATE');
+
+    logger.info('⏪ Rebuilding order state from the stored event history...');
+    this.replaying = true;
+    try {
+      const replayed = await replayEventHistory(nats.connection, this);
+      logger.info(`⏩ Replayed ${replayed} events, ${await this.orders.count()} orders known`);
+    } finally {
+      this.replaying = false;
     }
   }
 
@@ -173,46 +351,56 @@ class OrdersService {
   // =========================================================================
 
   async setupSubscriptions(): Promise<void> {
-    if (!this.nc) throw new Error('Not connected to NATS');
+    // Dead letters are stored in a JetStream stream on NATS, other brokers only publish them
+    if (this.transport instanceof NatsTransport) {
+      await ensureDeadLetterStream(this.transport.connection);
+    }
+
+    if (this.options.jetstream) {
+      const nats = this.nats('NATS_JETSTREAM');
+      await ensureChannelStreams(nats.connection);
+      this.consumers.push(await jetStreamReceiveOrderCreated(nats, this.onOrderCreated, this.retry.receiveOrderCreated));
+      this.consumers.push(await jetStreamReceivePaymentFailed(nats, this.onPaymentFailed, this.retry.receivePaymentFailed));
+      this.consumers.push(await jetStreamReceiveShipmentDelivered(nats, this.onShipmentDelivered, this.retry.receiveShipmentDelivered));
+      this.consumers.push(await jetStreamReceivePaymentProcessed(nats, this.onPaymentProcessed, this.retry.receivePaymentProcessed));
+      this.consumers.push(await jetStreamReceiveInventoryReserved(nats, this.onInventoryReserved, this.retry.receiveInventoryReserved));
+      this.consumers.push(await jetStreamReceiveOrderShipped(nats, this.onOrderShipped, this.retry.receiveOrderShipped));
+      return;
+    }
 
-    this.subscriptions.push(receiveOrderCreated(this.nc, this.handleOrderCreated));
-    this.subscriptions.push(receivePaymentFailed(this.nc, this.handlePaymentFailed));
-    this.subscriptions.push(receiveShipmentDelivered(this.nc, this.handleShipmentDelivered));
+    this.subscriptions.push(...wireHandlers(this.channels, this, this.retry));
   }
 
   // =========================================================================
   // Public API for order management
   // =========================================================================
-  cancelOrder(orderId: string, reason: string): void {
-    const order = this.orders.get(orderId);
+  async cancelOrder(orderId: string, reason: string): Promise<void> {
+    const { order, rejection } = await this.publishOrderCancelled(new OrderCancelled({ orderId, reason }));
     if (!order) {
-      console.log(`⚠️  Cannot cancel: Order ${orderId} not found`);
-      return;
-    }
-
-    if (order.status === 'cancelled') {
-      console.log(`⚠️  Order ${orderId} is already cancelled`);
+      logger.warn(`⚠️  Cannot cancel: Order ${orderId} not found`, { orderId });
       return;
     }
+    if (rejection) throw rejection;
+  }
 
-    if (order.status === 'completed') {
-      console.log(`⚠️  Cannot cancel completed order ${orderId}`);
-      return;
-    }
+  getOrder(orderId: string): Promise<Order | undefined> {
+    return this.orders.get(orderId);
+  }
 
-    this.publishOrderCancelled(new OrderCancelled({ orderId, reason }));
+  getOrders(): Promise<Order[]> {
+    return this.orders.list();
   }
 
-  getOrder(orderId: string): Order | undefined {
-    return this.orders.get(orderId);
+  getOrderCount(): Promise<number> {
+    return this.orders.count();
   }
 
-  getOrderCount(): number {
-    return this.orders.size;
+  async getOrdersByStatus(status: OrderStatus): Promise<Order[]> {
+    return (await this.orders.list()).filter(o => o.status === status);
   }
 
-  getOrdersByStatus(status: OrderStatus): Order[] {
-    return Array.from(this.orders.values()).filter(o => o.status === status);
+  getBrokerHealth(): TransportHealth {
+    return this.transport.health();
   }
 
   // =========================================================================
@@ -220,15 +408,20 @@ class OrdersService {
   // =========================================================================
 
   async run(): Promise<void> {
-    console.log('\n' + '═'.repeat(60));
-    console.log('  📦 ORDERS SERVICE');
-    console.log('  Processing orders and orchestrating the order lifecycle');
-    console.log('═'.repeat(60));
+    if (!logger.isJson()) {
+      console.log('\n' + '═'.repeat(60));
+      console.log('  📦 ORDERS SERVICE');
+      console.log('  Processing orders and orchestrating the order lifecycle');
+      console.log('═'.repeat(60));
+    }
+
+    if (this.options.rebuildOnStartup) {
+      await this.rebuildState();
+    }
 
     await this.setupSubscriptions();
 
-    console.log('\n✅ Orders Service is running. Waiting for events...');
-    console.log('   Press Ctrl+C to stop.\n');
+    logger.info('✅ Orders Service is running. Waiting for events...');
 
     // Keep the service running
     while (this.running) {
@@ -236,25 +429,35 @@ class OrdersService {
       
       // Periodic status report (every 30 seconds)
       if (Date.now() % 30000 < 1000) {
-        const pending = this.getOrdersByStatus('pending').length;
-        const completed = this.getOrdersByStatus('completed').length;
-        const cancelled = this.getOrdersByStatus('cancelled').length;
-        console.log(`📊 Status: ${this.orders.size} total orders (${pending} pending, ${completed} completed, ${cancelled} cancelled)`);
+        const orders = await this.orders.list();
+        const byStatus = ORDER_STATUSES
+          .map(status => `${orders.filter(o => o.status === status).length} ${status}`)
+          .join(', ');
+        logger.info(`📊 Status: ${orders.length} total orders (${byStatus})`);
       }
     }
   }
 }
 async function main() {
-  const service = new OrdersService();
-  const natsUrl = process.env.NATS_URL || 'nats://localhost:4222';
+  const telemetry = initTelemetry(telemetryOptionsFromEnv());
+  const service = new OrdersService(transportFromEnv(), {
+    jetstream: process.env.NATS_JETSTREAM === 'true',
+    store: (process.env.ORDER_STORE || 'memory') as OrderStore,
+    rebuildOnStartup: process.env.REBUILD_STATE === 'true',
+    retryPolicies: retryPoliciesFromEnv(),
+  });
+  const httpPort = Number(process.env.HTTP_PORT || 3001);
 
   try {
-    await service.connect(natsUrl);
+    await service.connect();
+    const httpServer = await startHttpServer(service, httpPort);
 
     // Handle graceful shutdown
     const shutdown = async () => {
-      console.log('\n\n🛑 Shutting down Orders Service...');
+      logger.info('🛑 Shutting down Orders Service...');
+      httpServer.close();
       await service.disconnect();
+      await telemetry.shutdown();
       process.exit(0);
     };
 
@@ -264,9 +467,12 @@ async function main() {
     await service.run();
 
   } catch (err) {
-    console.error('❌ Failed to start Orders Service:', err);
+    logger.error('❌ Failed to start Orders Service', { err });
     process.exit(1);
   }
 }
 
-main();
+// Imported by the tests, which drive the service themselves
+if (require.main === module) {
+  main();
+}
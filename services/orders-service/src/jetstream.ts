@@ -0,0 +1,266 @@
+import { AckPolicy, ConsumerMessages, JsMsg, NatsConnection, PubAck, StoredMsg } from 'nats';
+import { CHANNELS } from './channels';
+import { OrderCreated } from './__gen__/payloads/OrderCreated';
+import { OrderCancelled } from './__gen__/payloads/OrderCancelled';
+import { OrderCompleted } from './__gen__/payloads/OrderCompleted';
+import { PaymentFailed } from './__gen__/payloads/PaymentFailed';
+import { ShipmentDelivered } from './__gen__/payloads/ShipmentDelivered';
+import { PaymentProcessed } from './__gen__/payloads/PaymentProcessed';
+import { InventoryReserved } from './__gen__/payloads/InventoryReserved';
+import { OrderShipped } from './__gen__/payloads/OrderShipped';
+import { decodeValidated } from './channel-runtime';
+import { validatePayload } from './validation';
+import { RETRY_POLICIES, RetryPolicy, backoffDelay, isRetryable } from './retry';
+import { deadLetter } from './dlq';
+import { MessageEnvelope, createEnvelope, messageHeaders, readEnvelope } from './headers';
+import { traceHandler, tracePublish } from './telemetry';
+import { NatsTransport, toNatsHeaders } from './transports';
+import { logger } from './logger';
+
+// ============================================================================
+// JetStream (opt-in, enabled with NATS_JETSTREAM=true)
+// ============================================================================
+export const SERVICE_NAME = 'orders-service';
+
+/**
+ * streamName - One stream per channel address, e.g. order.created -> ORDER_CREATED.
+ * Every service derives the same name, so whichever starts first creates it.
+ */
+export function streamName(channel: string): string {
+  return channel.toUpperCase().replace(/[.\->*]/g, '_');
+}
+
+/**
+ * ensureChannelStreams - Creates a stream for every channel in CHANNELS that does not exist yet
+ */
+export async function ensureChannelStreams(nc: NatsConnection): Promise<void> {
+  const jsm = await nc.jetstreamManager();
+  for (const channel of Object.values(CHANNELS)) {
+    const name = streamName(channel);
+    try {
+      await jsm.streams.info(name);
+    } catch {
+      await jsm.streams.add({ name, subjects: [channel] });
+      logger.info(`🗄️  Created stream ${name}`, { channel });
+    }
+  }
+}
+
+/**
+ * readStream - Reads every message currently stored in a stream, oldest first
+ */
+export async function readStream(nc: NatsConnection, stream: string): Promise<StoredMsg[]> {
+  const jsm = await nc.jetstreamManager();
+  const { state } = await jsm.streams.info(stream);
+  const messages: StoredMsg[] = [];
+  for (let seq = state.first_seq; state.messages > 0 && seq <= state.last_seq; seq++) {
+    try {
+      messages.push(await jsm.streams.getMessage(stream, { seq }));
+    } catch {
+      // Sequence was deleted (e.g. a replayed dead letter)
+    }
+  }
+  return messages;
+}
+
+/**
+ * Creates (or reuses) the durable consumer for a receive operation and starts
+ * consuming. Failed messages are nak'ed with the policy's backoff until the
+ * last delivery, then dead-lettered and terminated.
+ */
+async function consumeDurable<T>(
+  transport: NatsTransport,
+  channel: string,
+  operationId: string,
+  messageName: string,
+  unmarshal: (json: object) => T,
+  handler: (data: T, envelope: Partial<MessageEnvelope>) => Promise<void>,
+  retryPolicy: RetryPolicy
+): Promise<ConsumerMessages> {
+  const stream = streamName(channel);
+  const durable = `${SERVICE_NAME}-${operationId}`;
+
+  const nc = transport.connection;
+  const jsm = await nc.jetstreamManager();
+  await jsm.consumers.add(stream, {
+    durable_name: durable,
+    ack_policy: AckPolicy.Explicit,
+    filter_subject: channel,
+    max_deliver: retryPolicy.maxAttempts,
+  });
+
+  const consumer = await nc.jetstream().consumers.get(stream, durable);
+  const messages = await consumer.consume();
+
+  (async () => {
+    for await (const msg of messages) {
+      try {
+        await processJsMessage(transport, msg, messageName, unmarshal, handler, retryPolicy);
+      } catch (err) {
+        // Dead-lettering or tracing failed; JetStream redelivers unless this was the last delivery
+        logger.error('❌ Failed to process message, redelivering', { channel, operation: operationId, err });
+        msg.nak(backoffDelay(retryPolicy, msg.info.redeliveryCount));
+      }
+    }
+  })().catch(err => {
+    logger.error(`❌ Durable consumer ${durable} stopped`, { channel, operation: operationId, err });
+  });
+
+  logger.info(`📬 Consuming with durable consumer ${durable}`, { channel, operation: operationId });
+  return messages;
+}
+
+async function processJsMessage<T>(
+  transport: NatsTransport,
+  msg: JsMsg,
+  messageName: string,
+  unmarshal: (json: object) => T,
+  handler: (data: T, envelope: Partial<MessageEnvelope>) => Promise<void>,
+  retryPolicy: RetryPolicy
+): Promise<void> {
+  const attempt = msg.info.redeliveryCount;
+  try {
+    await traceHandler(transport.protocol, msg, messageName, async () => {
+      await handler(unmarshal(decodeValidated(msg, messageName)), readEnvelope(msg.headers));
+    });
+    msg.ack();
+  } catch (err) {
+    if (!isRetryable(err) || attempt >= retryPolicy.maxAttempts) {
+      await deadLetter(transport, msg, err, attempt);
+      msg.term();
+      return;
+    }
+    logger.warn(`🔁 Attempt ${attempt} failed, redelivering`, { channel: msg.subject, err });
+    msg.nak(backoffDelay(retryPolicy, attempt));
+  }
+}
+
+// ============================================================================
+// Send (Publish) Functions
+// ============================================================================
+
+/**
+ * jetStreamSendOrderCancelled - Publishes OrderCancelled event through JetStream
+ * Channel: order.cancelled, deduplicated per order
+ */
+export async function jetStreamSendOrderCancelled(
+  transport: NatsTransport,
+  data: OrderCancelled,
+  envelope: MessageEnvelope = createEnvelope(data.orderId)
+): Promise<PubAck> {
+  validatePayload(CHANNELS.orderCancelled, 'OrderCancelled', data.toJSON(), 'send');
+  const h = messageHeaders(CHANNELS.orderCancelled, 'OrderCancelled', envelope);
+  const ack = await tracePublish(transport.protocol, CHANNELS.orderCancelled, 'OrderCancelled', h, () => transport.connection.jetstream().publish(CHANNELS.orderCancelled, data.marshal(), {
+    msgID: `${CHANNELS.orderCancelled}:${data.orderId}`,
+    headers: toNatsHeaders(h),
+  }));
+  logger.info(`📤 OrderCancelled stored${ack.duplicate ? ' (duplicate)' : ''}`, {
+    channel: CHANNELS.orderCancelled,
+    operation: 'sendOrderCancelled',
+    orderId: data.orderId,
+    correlationId: envelope.correlationId,
+    seq: ack.seq,
+  });
+  return ack;
+}
+
+/**
+ * jetStreamSendOrderCompleted - Publishes OrderCompleted event through JetStream
+ * Channel: order.completed, deduplicated per order
+ */
+export async function jetStreamSendOrderCompleted(
+  transport: NatsTransport,
+  data: OrderCompleted,
+  envelope: MessageEnvelope = createEnvelope(data.orderId)
+): Promise<PubAck> {
+  validatePayload(CHANNELS.orderCompleted, 'OrderCompleted', data.toJSON(), 'send');
+  const h = messageHeaders(CHANNELS.orderCompleted, 'OrderCompleted', envelope);
+  const ack = await tracePublish(transport.protocol, CHANNELS.orderCompleted, 'OrderCompleted', h, () => transport.connection.jetstream().publish(CHANNELS.orderCompleted, data.marshal(), {
+    msgID: `${CHANNELS.orderCompleted}:${data.orderId}`,
+    headers: toNatsHeaders(h),
+  }));
+  logger.info(`📤 OrderCompleted stored${ack.duplicate ? ' (duplicate)' : ''}`, {
+    channel: CHANNELS.orderCompleted,
+    operation: 'sendOrderCompleted',
+    orderId: data.orderId,
+    correlationId: envelope.correlationId,
+    seq: ack.seq,
+  });
+  return ack;
+}
+
+// ============================================================================
+// Receive (Durable Consumer) Functions
+// ============================================================================
+
+/**
+ * jetStreamReceiveOrderCreated - Consumes OrderCreated events with a durable consumer
+ * Channel: order.created
+ */
+export function jetStreamReceiveOrderCreated(
+  transport: NatsTransport,
+  handler: (data: OrderCreated, envelope: Partial<MessageEnvelope>) => Promise<void>,
+  retryPolicy: RetryPolicy = RETRY_POLICIES.receiveOrderCreated
+): Promise<ConsumerMessages> {
+  return consumeDurable(transport, CHANNELS.orderCreated, 'receiveOrderCreated', 'OrderCreated', OrderCreated.unmarshal, handler, retryPolicy);
+}
+
+/**
+ * jetStreamReceivePaymentFailed - Consumes PaymentFailed events with a durable consumer
+ * Channel: payment.failed
+ */
+export function jetStreamReceivePaymentFailed(
+  transport: NatsTransport,
+  handler: (data: PaymentFailed, envelope: Partial<MessageEnvelope>) => Promise<void>,
+  retryPolicy: RetryPolicy = RETRY_POLICIES.receivePaymentFailed
+): Promise<ConsumerMessages> {
+  return consumeDurable(transport, CHANNELS.paymentFailed, 'receivePaymentFailed', 'PaymentFailed', PaymentFailed.unmarshal, handler, retryPolicy);
+}
+
+/**
+ * jetStreamReceiveShipmentDelivered - Consumes ShipmentDelivered events with a durable consumer
+ * Channel: shipment.delivered
+ */
+export function jetStreamReceiveShipmentDelivered(
+  transport: NatsTransport,
+  handler: (data: ShipmentDelivered, envelope: Partial<MessageEnvelope>) => Promise<void>,
+  retryPolicy: RetryPolicy = RETRY_POLICIES.receiveShipmentDelivered
+): Promise<ConsumerMessages> {
+  return consumeDurable(transport, CHANNELS.shipmentDelivered, 'receiveShipmentDelivered', 'ShipmentDelivered', ShipmentDelivered.unmarshal, handler, retryPolicy);
+}
+
+/**
+ * jetStreamReceivePaymentProcessed - Consumes PaymentProcessed events with a durable consumer
+ * Channel: payment.processed
+ */
+export function jetStreamReceivePaymentProcessed(
+  transport: NatsTransport,
+  handler: (data: PaymentProcessed, envelope: Partial<MessageEnvelope>) => Promise<void>,
+  retryPolicy: RetryPolicy = RETRY_POLICIES.receivePaymentProcessed
+): Promise<ConsumerMessages> {
+  return consumeDurable(transport, CHANNELS.paymentProcessed, 'receivePaymentProcessed', 'PaymentProcessed', PaymentProcessed.unmarshal, handler, retryPolicy);
+}
+
+/**
+ * jetStreamReceiveInventoryReserved - Consumes InventoryReserved events with a durable consumer
+ * Channel: inventory.reserved
+ */
+export function jetStreamReceiveInventoryReserved(
+  transport: NatsTransport,
+  handler: (data: InventoryReserved, envelope: Partial<MessageEnvelope>) => Promise<void>,
+  retryPolicy: RetryPolicy = RETRY_POLICIES.receiveInventoryReserved
+): Promise<ConsumerMessages> {
+  return consumeDurable(transport, CHANNELS.inventoryReserved, 'receiveInventoryReserved', 'InventoryReserved', InventoryReserved.unmarshal, handler, retryPolicy);
+}
+
+/**
+ * jetStreamReceiveOrderShipped - Consumes OrderShipped events with a durable consumer
+ * Channel: order.shipped
+ */
+export function jetStreamReceiveOrderShipped(
+  transport: NatsTransport,
+  handler: (data: OrderShipped, envelope: Partial<MessageEnvelope>) => Promise<void>,
+  retryPolicy: RetryPolicy = RETRY_POLICIES.receiveOrderShipped
+): Promise<ConsumerMessages> {
+  return consumeDurable(transport, CHANNELS.orderShipped, 'receiveOrderShipped', 'OrderShipped', OrderShipped.unmarshal, handler, retryPolicy);
+}
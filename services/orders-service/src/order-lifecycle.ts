@@ -0,0 +1,71 @@
+import { Order, OrderStatus } from './order';
+
+// ============================================================================
+// Order lifecycle state machine
+//
+//   pending ──► confirmed ──► shipped ──► delivered ──► completed
+//      │            │  └───────────────────►┘
+//      └────────────┴──► cancelled
+// ============================================================================
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  // order.shipped may never arrive, a delivery is proof enough that it shipped
+  confirmed: ['shipped', 'delivered', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: ['completed'],
+  completed: [],
+  cancelled: [],
+};
+
+/**
+ * Extra conditions a transition has to meet besides being allowed from the current status.
+ * A guard returns the reason it blocks the transition, or undefined to let it through.
+ */
+export const TRANSITION_GUARDS: Partial<Record<OrderStatus, (order: Order) => string | undefined>> = {
+  confirmed: order => {
+    if (!order.paymentId) return 'payment has not been processed';
+    if (!order.reservationId) return 'inventory has not been reserved';
+    return undefined;
+  },
+};
+
+/**
+ * IllegalTransitionError - An order cannot move from its current status to the requested one
+ */
+export class IllegalTransitionError extends Error {
+  constructor(
+    public readonly orderId: string,
+    public readonly from: OrderStatus,
+    public readonly to: OrderStatus,
+    public readonly reason: string,
+  ) {
+    super(`Order ${orderId} cannot move from ${from} to ${to}: ${reason}`);
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+/**
+ * checkTransition - Returns why an order cannot move to `to`, or undefined when it can
+ */
+export function checkTransition(order: Order, to: OrderStatus): string | undefined {
+  if (!ORDER_TRANSITIONS[order.status].includes(to)) {
+    return order.status === to ? `order is already ${to}` : `not allowed from ${order.status}`;
+  }
+  return TRANSITION_GUARDS[to]?.(order);
+}
+
+export function canTransition(order: Order, to: OrderStatus): boolean {
+  return checkTransition(order, to) === undefined;
+}
+
+/**
+ * transition - Moves the order to `to`, throwing IllegalTransitionError when that is not allowed
+ */
+export function transition(order: Order, to: OrderStatus): Order {
+  const reason = checkTransition(order, to);
+  if (reason !== undefined) {
+    throw new IllegalTransitionError(order.orderId, order.status, to, reason);
+  }
+  order.status = to;
+  return order;
+}
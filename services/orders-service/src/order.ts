@@ -0,0 +1,54 @@
+// ============================================================================
+// Order state tracked by the Orders Service
+// ============================================================================
+export const ORDER_STATUSES = ['pending', 'confirmed', 'shipped', 'delivered', 'completed', 'cancelled'] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+export interface OrderItems {
+  itemId: string;
+  quantity: number;
+  price: number;
+}
+export interface Order {
+  orderId: string;
+  userId: string;
+  totalAmount: number;
+  items: OrderItems[];
+  status: OrderStatus;
+  createdAt: Date;
+  paymentId?: string;     // Set by payment.processed
+  reservationId?: string; // Set by inventory.reserved
+  shipmentId?: string;    // Set by order.shipped or shipment.delivered
+}
+
+/**
+ * OrderJson - Wire representation of an order, used by the HTTP API and the persistent repositories
+ */
+export interface OrderJson {
+  orderId: string;
+  userId: string;
+  totalAmount: number;
+  items: OrderItems[];
+  status: OrderStatus;
+  createdAt: string; // ISO 8601 date-time
+  paymentId?: string;
+  reservationId?: string;
+  shipmentId?: string;
+}
+
+export function toOrderJson(order: Order): OrderJson {
+  return {
+    orderId: order.orderId,
+    userId: order.userId,
+    totalAmount: order.totalAmount,
+    items: order.items.map(({ itemId, quantity, price }) => ({ itemId, quantity, price })),
+    status: order.status,
+    createdAt: order.createdAt.toISOString(),
+    paymentId: order.paymentId,
+    reservationId: order.reservationId,
+    shipmentId: order.shipmentId,
+  };
+}
+
+export function fromOrderJson(json: OrderJson): Order {
+  return { ...json, createdAt: new Date(json.createdAt) };
+}
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import { Order } from '../order';
+import { OrderChange, OrderRepository, deserializeOrder, serializeOrder } from './OrderRepository';
+import { logger } from '../logger';
+
+/**
+ * FileOrderRepository - Keeps orders in memory and writes them to a JSON file
+ * on every save, so they survive a restart
+ */
+export class FileOrderRepository implements OrderRepository {
+  private orders: Map<string, Order> = new Map();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    if (fs.existsSync(filePath)) {
+      const stored: string[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      for (const json of stored) {
+        const order = deserializeOrder(json);
+        this.orders.set(order.orderId, order);
+      }
+      logger.info(`💾 Loaded ${this.orders.size} orders from ${filePath}`);
+    }
+  }
+
+  async get(orderId: string): Promise<Order | undefined> {
+    return this.orders.get(orderId);
+  }
+
+  async save(order: Order): Promise<void> {
+    this.orders.set(order.orderId, order);
+    const snapshot = JSON.stringify(Array.from(this.orders.values()).map(serializeOrder), null, 2);
+
+    // Writes are chained so an older snapshot never overwrites a newer one
+    this.writing = this.writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmp = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmp, snapshot);
+      await fs.promises.rename(tmp, this.filePath);
+    });
+    await this.writing;
+  }
+
+  async update(orderId: string, change: OrderChange): Promise<Order | undefined> {
+    // The change is applied before the first await, so concurrent updates see each other
+    const order = this.orders.get(orderId);
+    if (order && change(order) !== false) await this.save(order);
+    return order;
+  }
+
+  async list(): Promise<Order[]> {
+    return Array.from(this.orders.values());
+  }
+
+  async count(): Promise<number> {
+    return this.orders.size;
+  }
+}
@@ -0,0 +1,32 @@
+import { Order } from '../order';
+import { OrderChange, OrderRepository } from './OrderRepository';
+
+/**
+ * InMemoryOrderRepository - Keeps orders in a Map; state is lost on restart
+ */
+export class InMemoryOrderRepository implements OrderRepository {
+  private orders: Map<string, Order> = new Map();
+
+  async get(orderId: string): Promise<Order | undefined> {
+    return this.orders.get(orderId);
+  }
+
+  async save(order: Order): Promise<void> {
+    this.orders.set(order.orderId, order);
+  }
+
+  async update(orderId: string, change: OrderChange): Promise<Order | undefined> {
+    // Nothing else runs between reading and writing the Map
+    const order = this.orders.get(orderId);
+    if (order) change(order);
+    return order;
+  }
+
+  async list(): Promise<Order[]> {
+    return Array.from(this.orders.values());
+  }
+
+  async count(): Promise<number> {
+    return this.orders.size;
+  }
+}
@@ -0,0 +1,84 @@
+import { KV, NatsConnection, NatsError, StringCodec } from 'nats';
+import { Order } from '../order';
+import { OrderChange, OrderRepository, deserializeOrder, serializeOrder } from './OrderRepository';
+import { logger } from '../logger';
+
+const sc = StringCodec();
+
+// JetStream error code when the revision given to kv.update is no longer the latest
+const WRONG_LAST_SEQUENCE = 10071;
+
+// Attempts of one update before giving up on a busy key
+export const MAX_UPDATE_ATTEMPTS = 10;
+
+/**
+ * ConcurrentUpdateError - Every attempt of an update lost the race to another writer
+ */
+export class ConcurrentUpdateError extends Error {
+  constructor(public readonly orderId: string, public readonly attempts: number) {
+    super(`Order ${orderId} changed during each of ${attempts} update attempts`);
+    this.name = 'ConcurrentUpdateError';
+  }
+}
+
+function isRevisionConflict(err: unknown): boolean {
+  return err instanceof NatsError && err.api_error?.err_code === WRONG_LAST_SEQUENCE;
+}
+
+/**
+ * KvOrderRepository - Keeps orders in a JetStream key-value bucket, one key per order
+ */
+export class KvOrderRepository implements OrderRepository {
+  private constructor(private readonly kv: KV) {}
+
+  static async open(nc: NatsConnection, bucket: string = 'orders'): Promise<KvOrderRepository> {
+    const kv = await nc.jetstream().views.kv(bucket);
+    logger.info(`💾 Using JetStream KV bucket "${bucket}" for orders`);
+    return new KvOrderRepository(kv);
+  }
+
+  async get(orderId: string): Promise<Order | undefined> {
+    const entry = await this.kv.get(orderId);
+    if (!entry || entry.operation !== 'PUT') return undefined;
+    return deserializeOrder(sc.decode(entry.value));
+  }
+
+  async save(order: Order): Promise<void> {
+    await this.kv.put(order.orderId, serializeOrder(order));
+  }
+
+  /**
+   * Writes with the revision that was read, so the write fails when another handler
+   * saved the order in between; the change is then applied again to the newer order
+   */
+  async update(orderId: string, change: OrderChange): Promise<Order | undefined> {
+    for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      const entry = await this.kv.get(orderId);
+      if (!entry || entry.operation !== 'PUT') return undefined;
+
+      const order = deserializeOrder(sc.decode(entry.value));
+      if (change(order) === false) return order;
+      try {
+        await this.kv.update(orderId, serializeOrder(order), entry.revision);
+        return order;
+      } catch (err) {
+        if (!isRevisionConflict(err)) throw err;
+        logger.debug(`🔁 Order ${orderId} changed since it was read, updating again`, { orderId, attempt });
+      }
+    }
+    throw new ConcurrentUpdateError(orderId, MAX_UPDATE_ATTEMPTS);
+  }
+
+  async list(): Promise<Order[]> {
+    const orders: Order[] = [];
+    for await (const key of await this.kv.keys()) {
+      const order = await this.get(key);
+      if (order) orders.push(order);
+    }
+    return orders;
+  }
+
+  async count(): Promise<number> {
+    return (await this.list()).length;
+  }
+}
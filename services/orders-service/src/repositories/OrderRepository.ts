@@ -0,0 +1,33 @@
+import { Order, fromOrderJson, toOrderJson } from '../order';
+
+/**
+ * OrderChange - Changes an order in place; returning false leaves the stored order as it was
+ */
+export type OrderChange = (order: Order) => boolean | void;
+
+/**
+ * OrderRepository - Where the Orders Service keeps its order state
+ */
+export interface OrderRepository {
+  get(orderId: string): Promise<Order | undefined>;
+  save(order: Order): Promise<void>;
+  /**
+   * update - Applies `change` to the stored order and saves it without losing a concurrent
+   * update of the same order; `change` may run more than once. Resolves to the order as
+   * stored, or undefined when there is no such order.
+   */
+  update(orderId: string, change: OrderChange): Promise<Order | undefined>;
+  list(): Promise<Order[]>;
+  count(): Promise<number>;
+}
+
+/**
+ * Plain JSON representation used by the persistent repositories
+ */
+export function serializeOrder(order: Order): string {
+  return JSON.stringify(toOrderJson(order));
+}
+
+export function deserializeOrder(json: string): Order {
+  return fromOrderJson(JSON.parse(json));
+}
@@ -0,0 +1,32 @@
+import path from 'path';
+import { MessageTransport, NatsTransport } from '../transports';
+import { OrderRepository } from './OrderRepository';
+import { InMemoryOrderRepository } from './InMemoryOrderRepository';
+import { FileOrderRepository } from './FileOrderRepository';
+import { KvOrderRepository } from './KvOrderRepository';
+
+export { OrderChange, OrderRepository } from './OrderRepository';
+export { InMemoryOrderRepository } from './InMemoryOrderRepository';
+export { FileOrderRepository } from './FileOrderRepository';
+export { ConcurrentUpdateError, KvOrderRepository, MAX_UPDATE_ATTEMPTS } from './KvOrderRepository';
+
+export type OrderStore = 'memory' | 'file' | 'kv';
+
+/**
+ * createOrderRepository - Picks the repository for ORDER_STORE (memory, file or kv, the last on NATS only)
+ */
+export async function createOrderRepository(store: OrderStore, transport: MessageTransport): Promise<OrderRepository> {
+  switch (store) {
+    case 'memory':
+      return new InMemoryOrderRepository();
+    case 'file':
+      return new FileOrderRepository(process.env.ORDER_STORE_PATH || path.resolve(__dirname, '../../data/orders.json'));
+    case 'kv':
+      if (!(transport instanceof NatsTransport)) {
+        throw new Error(`ORDER_STORE=kv needs a NATS server, the transport is ${transport.protocol}`);
+      }
+      return KvOrderRepository.open(transport.connection, process.env.ORDER_STORE_BUCKET || 'orders');
+    default:
+      throw new Error(`Unknown order store "${store}", expected memory, file or kv`);
+  }
+}
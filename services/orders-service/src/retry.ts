@@ -0,0 +1,112 @@
+import { NatsError } from 'nats';
+import { ContractViolationError } from './validation';
+import { UnmarshalError } from 'service-kit/src/wire';
+
+// ============================================================================
+// Retry policies (keys are AsyncAPI operation IDs)
+// ============================================================================
+export interface RetryPolicy {
+  maxAttempts: number;    // Total attempts, including the first one
+  initialDelayMs: number; // Delay before the first retry
+  backoffFactor: number;  // Multiplier applied to the delay after every retry
+  maxDelayMs: number;     // Upper bound for a single delay
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 200,
+  backoffFactor: 2,
+  maxDelayMs: 5000,
+};
+
+export const RETRY_POLICIES = {
+  receiveOrderCreated: { ...DEFAULT_RETRY_POLICY, maxAttempts: 5 },
+  receivePaymentFailed: DEFAULT_RETRY_POLICY,
+  receiveShipmentDelivered: DEFAULT_RETRY_POLICY,
+  receivePaymentProcessed: DEFAULT_RETRY_POLICY,
+  receiveInventoryReserved: DEFAULT_RETRY_POLICY,
+  receiveOrderShipped: DEFAULT_RETRY_POLICY,
+} satisfies Record<string, RetryPolicy>;
+
+export type RetryOperation = keyof typeof RETRY_POLICIES;
+export type RetryPolicies = Record<RetryOperation, RetryPolicy>;
+export type RetryPolicyOverrides = Partial<Record<RetryOperation, Partial<RetryPolicy>>>;
+
+const RETRY_ENV: Record<keyof RetryPolicy, string> = {
+  maxAttempts: 'RETRY_MAX_ATTEMPTS',
+  initialDelayMs: 'RETRY_INITIAL_DELAY_MS',
+  backoffFactor: 'RETRY_BACKOFF_FACTOR',
+  maxDelayMs: 'RETRY_MAX_DELAY_MS',
+};
+
+/**
+ * retryPoliciesFromEnv - Overrides for every operation from RETRY_MAX_ATTEMPTS,
+ * RETRY_INITIAL_DELAY_MS, RETRY_BACKOFF_FACTOR and RETRY_MAX_DELAY_MS, where set
+ */
+export function retryPoliciesFromEnv(env: NodeJS.ProcessEnv = process.env): RetryPolicyOverrides {
+  const policy: Partial<RetryPolicy> = {};
+  for (const [field, name] of Object.entries(RETRY_ENV) as [keyof RetryPolicy, string][]) {
+    const raw = env[name];
+    if (raw === undefined || raw === '') continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0 || (field === 'maxAttempts' && (!Number.isInteger(value) || value < 1))) {
+      throw new Error(`${name} must be a ${field === 'maxAttempts' ? 'positive integer' : 'non-negative number'}, got "${raw}"`);
+    }
+    policy[field] = value;
+  }
+
+  const overrides: RetryPolicyOverrides = {};
+  if (Object.keys(policy).length > 0) {
+    for (const operation of Object.keys(RETRY_POLICIES) as RetryOperation[]) overrides[operation] = policy;
+  }
+  return overrides;
+}
+
+/**
+ * retryPolicies - The policy of every operation, RETRY_POLICIES with `overrides` applied
+ */
+export function retryPolicies(overrides: RetryPolicyOverrides = {}): RetryPolicies {
+  const policies = { ...RETRY_POLICIES };
+  for (const operation of Object.keys(policies) as RetryOperation[]) {
+    policies[operation] = { ...policies[operation], ...overrides[operation] };
+  }
+  return policies;
+}
+
+/**
+ * Malformed or contract-breaking messages fail the same way on every attempt,
+ * so they are dead-lettered straight away.
+ */
+export function isRetryable(err: unknown): boolean {
+  if (err instanceof ContractViolationError || err instanceof UnmarshalError) return false;
+  if (err instanceof NatsError && err.code === 'BAD_JSON') return false;
+  return true;
+}
+
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1), policy.maxDelayMs);
+}
+
+export class RetryExhaustedError extends Error {
+  constructor(public readonly attempts: number, public readonly lastError: unknown) {
+    super(`Gave up after ${attempts} attempt(s): ${lastError instanceof Error ? lastError.message : String(lastError)}`);
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+/**
+ * withRetry - Runs `fn` until it succeeds, the error is not retryable or the policy runs out
+ */
+export async function withRetry(policy: RetryPolicy, fn: (attempt: number) => Promise<void>): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await fn(attempt);
+      return;
+    } catch (err) {
+      if (!isRetryable(err) || attempt >= policy.maxAttempts) {
+        throw new RetryExhaustedError(attempt, err);
+      }
+      await new Promise(resolve => setTimeout(resolve, backoffDelay(policy, attempt)));
+    }
+  }
+}
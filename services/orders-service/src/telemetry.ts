@@ -0,0 +1,259 @@
+import {
+  Attributes,
+  Counter,
+  Histogram,
+  Meter,
+  ObservableGauge,
+  SpanKind,
+  SpanStatusCode,
+  TextMapGetter,
+  TextMapSetter,
+  Tracer,
+  context,
+  metrics,
+  propagation,
+  trace,
+} from '@opentelemetry/api';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  BatchSpanProcessor,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  MetricReader,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { PrometheusExporter } from '@opentelemetry/exporter-prometheus';
+import { ORDER_STATUSES, Order } from './order';
+import { MessageHeaders } from './transports/MessageTransport';
+import { SERVICE_NAME, logger } from './logger';
+
+// ============================================================================
+// OpenTelemetry tracing and metrics
+//
+//   OTEL_TRACES_EXPORTER    otlp | console | none (default)
+//   OTEL_METRICS_EXPORTER   otlp | prometheus | none (default)
+//   OTEL_EXPORTER_OTLP_ENDPOINT      Collector for otlp (default http://localhost:4318)
+//   OTEL_EXPORTER_PROMETHEUS_PORT    Port of the /metrics endpoint (default 9464)
+//
+// Trace context travels in the W3C traceparent/tracestate message headers.
+// ============================================================================
+export type TraceExporterKind = 'otlp' | 'console' | 'memory' | 'none';
+export type MetricExporterKind = 'otlp' | 'prometheus' | 'memory' | 'none';
+
+export interface TelemetryOptions {
+  traces: TraceExporterKind;
+  metrics: MetricExporterKind;
+  prometheusPort?: number;
+}
+
+export interface Telemetry {
+  spans?: InMemorySpanExporter;     // Only with traces: 'memory'
+  metrics?: InMemoryMetricExporter; // Only with metrics: 'memory', filled by flush()
+  flush(): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+interface Instruments {
+  messages: Counter;
+  handlerDuration: Histogram;
+  handlerErrors: Counter;
+  ordersByStatus: ObservableGauge;
+}
+
+// Replaced by initTelemetry; until then spans and metrics go to the no-op globals.
+// Held here rather than looked up globally so a test can initialise a fresh set.
+let tracer: Tracer = trace.getTracer(SERVICE_NAME);
+let instruments = createInstruments(metrics.getMeter(SERVICE_NAME));
+
+function createInstruments(meter: Meter): Instruments {
+  return {
+    messages: meter.createCounter('messaging.messages', {
+      description: 'Messages sent and received, by channel and direction',
+    }),
+    handlerDuration: meter.createHistogram('messaging.handler.duration', {
+      description: 'Time a handler took for one message',
+      unit: 'ms',
+    }),
+    handlerErrors: meter.createCounter('messaging.handler.errors', {
+      description: 'Handler invocations that threw',
+    }),
+    ordersByStatus: meter.createObservableGauge('orders.by_status', {
+      description: 'Orders currently known, by status',
+    }),
+  };
+}
+
+const headerSetter: TextMapSetter<MessageHeaders> = {
+  set: (carrier, key, value) => carrier.set(key, value),
+};
+
+const headerGetter: TextMapGetter<MessageHeaders | undefined> = {
+  keys: carrier => (carrier ? carrier.keys() : []),
+  get: (carrier, key) => carrier?.get(key) || undefined,
+};
+
+/**
+ * telemetryOptionsFromEnv - Exporters as configured with the OTEL_* variables
+ */
+export function telemetryOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): TelemetryOptions {
+  return {
+    traces: (env.OTEL_TRACES_EXPORTER || 'none') as TraceExporterKind,
+    metrics: (env.OTEL_METRICS_EXPORTER || 'none') as MetricExporterKind,
+    prometheusPort: env.OTEL_EXPORTER_PROMETHEUS_PORT ? Number(env.OTEL_EXPORTER_PROMETHEUS_PORT) : undefined,
+  };
+}
+
+function spanProcessor(kind: TraceExporterKind, memory: InMemorySpanExporter | undefined): SpanProcessor | undefined {
+  switch (kind) {
+    case 'otlp': return new BatchSpanProcessor(new OTLPTraceExporter());
+    case 'console': return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case 'memory': return new SimpleSpanProcessor(memory!);
+    case 'none': return undefined;
+    default: throw new Error(`Unknown traces exporter "${kind}", expected otlp, console, memory or none`);
+  }
+}
+
+function metricReader(options: TelemetryOptions, memory: InMemoryMetricExporter | undefined): MetricReader | undefined {
+  switch (options.metrics) {
+    case 'otlp': return new PeriodicExportingMetricReader({ exporter: new OTLPMetricExporter() });
+    case 'prometheus': return new PrometheusExporter({ port: options.prometheusPort });
+    // Exports only on flush(), so a test sees exactly what was recorded up to then
+    case 'memory': return new PeriodicExportingMetricReader({ exporter: memory!, exportIntervalMillis: 2 ** 31 - 1 });
+    case 'none': return undefined;
+    default: throw new Error(`Unknown metrics exporter "${options.metrics}", expected otlp, prometheus, memory or none`);
+  }
+}
+
+/**
+ * initTelemetry - Sets up the tracer and meter providers and their exporters. Call it
+ * before connecting; spans and metrics recorded earlier are dropped.
+ */
+export function initTelemetry(options: TelemetryOptions): Telemetry {
+  const resource = resourceFromAttributes({ 'service.name': SERVICE_NAME });
+  const spans = options.traces === 'memory' ? new InMemorySpanExporter() : undefined;
+  const memoryMetrics = options.metrics === 'memory'
+    ? new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE)
+    : undefined;
+
+  const processor = spanProcessor(options.traces, spans);
+  const tracerProvider = new NodeTracerProvider({ resource, spanProcessors: processor ? [processor] : [] });
+  // Also installs the W3C trace context propagator and the async context manager
+  tracerProvider.register();
+  tracer = tracerProvider.getTracer(SERVICE_NAME);
+
+  const reader = metricReader(options, memoryMetrics);
+  const meterProvider = new MeterProvider({ resource, readers: reader ? [reader] : [] });
+  instruments = createInstruments(meterProvider.getMeter(SERVICE_NAME));
+
+  if (options.traces !== 'none' || options.metrics !== 'none') {
+    const where = options.metrics === 'prometheus' ? ` (:${options.prometheusPort ?? PrometheusExporter.DEFAULT_OPTIONS.port}/metrics)` : '';
+    logger.info(`🔭 Telemetry: traces → ${options.traces}, metrics → ${options.metrics}${where}`);
+  }
+
+  return {
+    spans,
+    metrics: memoryMetrics,
+    flush: async () => {
+      await tracerProvider.forceFlush();
+      await meterProvider.forceFlush();
+    },
+    shutdown: async () => {
+      await tracerProvider.shutdown();
+      await meterProvider.shutdown();
+    },
+  };
+}
+
+/**
+ * tracePublish - Runs `publish` in a producer span for the channel and injects the
+ * span's trace context into the outbound headers first. A returned promise (e.g. a
+ * JetStream ack) ends the span when it settles. `system` is the transport protocol.
+ */
+export function tracePublish<T>(system: string, channel: string, messageName: string, h: MessageHeaders, publish: () => T): T {
+  return tracer.startActiveSpan(`send ${channel}`, {
+    kind: SpanKind.PRODUCER,
+    attributes: messageAttributes(system, channel, messageName, 'send'),
+  }, span => {
+    propagation.inject(context.active(), h, headerSetter);
+    const sent = <V>(value: V): V => {
+      instruments.messages.add(1, { channel, direction: 'send' });
+      span.end();
+      return value;
+    };
+    const failed = (err: unknown): never => {
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+      span.end();
+      throw err;
+    };
+
+    let result: T;
+    try {
+      result = publish();
+    } catch (err) {
+      return failed(err);
+    }
+    return result instanceof Promise ? result.then(sent, failed) as T : sent(result);
+  });
+}
+
+/**
+ * traceHandler - Runs one handler invocation in a consumer span that continues the
+ * trace from the inbound headers, recording its duration and whether it threw
+ */
+export async function traceHandler(
+  system: string,
+  msg: { subject: string; headers?: MessageHeaders },
+  messageName: string,
+  handle: () => Promise<void>
+): Promise<void> {
+  const parent = propagation.extract(context.active(), msg.headers, headerGetter);
+  const attributes = messageAttributes(system, msg.subject, messageName, 'receive');
+  instruments.messages.add(1, { channel: msg.subject, direction: 'receive' });
+
+  return tracer.startActiveSpan(`process ${msg.subject}`, { kind: SpanKind.CONSUMER, attributes }, parent, async span => {
+    const started = performance.now();
+    try {
+      await handle();
+    } catch (err) {
+      instruments.handlerErrors.add(1, { channel: msg.subject, message: messageName, error: (err as Error)?.name ?? 'Error' });
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+      throw err;
+    } finally {
+      instruments.handlerDuration.record(performance.now() - started, { channel: msg.subject, message: messageName });
+      span.end();
+    }
+  });
+}
+
+/**
+ * observeOrderStatuses - Reports the orders.by_status gauge from `listOrders` on every collection
+ */
+export function observeOrderStatuses(listOrders: () => Promise<Order[]>): void {
+  instruments.ordersByStatus.addCallback(async result => {
+    const orders = await listOrders();
+    for (const status of ORDER_STATUSES) {
+      result.observe(orders.filter(o => o.status === status).length, { status });
+    }
+  });
+}
+
+function messageAttributes(system: string, channel: string, messageName: string, direction: 'send' | 'receive'): Attributes {
+  return {
+    'messaging.system': system,
+    'messaging.destination.name': channel,
+    'messaging.operation.type': direction,
+    'messaging.message.name': messageName,
+  };
+}
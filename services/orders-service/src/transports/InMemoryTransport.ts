@@ -0,0 +1,115 @@
+import { logger } from '../logger';
+import {
+  HeaderMap,
+  MessageHandler,
+  MessageHeaders,
+  MessageTransport,
+  TransportHealth,
+  TransportSubscription,
+  copyHeaders,
+} from './MessageTransport';
+
+export interface BrokerMessage {
+  channel: string;
+  data: Uint8Array;
+  headers: HeaderMap;
+}
+
+interface Subscriber {
+  handler: MessageHandler;
+  queue: Promise<void>;  // Deliveries to this subscriber, one after the other
+}
+
+/**
+ * InMemoryBroker - In-process broker that any number of InMemoryTransports share.
+ * Keeps every published message, so tests and demos can see what was sent.
+ */
+export class InMemoryBroker {
+  readonly history: BrokerMessage[] = [];
+  private subscribers = new Map<string, Set<Subscriber>>();
+  private inFlight = new Set<Promise<void>>();
+  private unackedCount = 0;
+
+  publish(channel: string, data: Uint8Array, headers?: MessageHeaders): void {
+    const message: BrokerMessage = { channel, data, headers: copyHeaders(headers) };
+    this.history.push(message);
+    for (const subscriber of this.subscribers.get(channel) ?? []) this.deliver(subscriber, message);
+  }
+
+  subscribe(channel: string, handler: MessageHandler): TransportSubscription {
+    const subscriber: Subscriber = { handler, queue: Promise.resolve() };
+    if (!this.subscribers.has(channel)) this.subscribers.set(channel, new Set());
+    this.subscribers.get(channel)!.add(subscriber);
+    return { unsubscribe: () => { this.subscribers.get(channel)?.delete(subscriber); } };
+  }
+
+  /**
+   * settle - Resolves once every delivery has been handled, including those of messages
+   * the handlers published on the way
+   */
+  async settle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(Array.from(this.inFlight));
+    }
+  }
+
+  /**
+   * unacked - Deliveries whose handler finished without acknowledging the message
+   */
+  unacked(): number {
+    return this.unackedCount;
+  }
+
+  private deliver(subscriber: Subscriber, message: BrokerMessage): void {
+    let acked = false;
+    const delivery = subscriber.queue.then(async () => {
+      try {
+        await subscriber.handler({
+          subject: message.channel,
+          data: message.data,
+          headers: copyHeaders(message.headers),
+          ack: () => { acked = true; },
+        });
+      } catch (err) {
+        logger.error('❌ Unhandled error in subscription', { channel: message.channel, err });
+      }
+      if (!acked) this.unackedCount++;
+    });
+    subscriber.queue = delivery;
+    this.inFlight.add(delivery);
+    delivery.finally(() => this.inFlight.delete(delivery));
+  }
+}
+
+/**
+ * InMemoryTransport - MessageTransport over an InMemoryBroker, without any server
+ */
+export class InMemoryTransport implements MessageTransport {
+  readonly protocol = 'memory';
+  private connected = false;
+
+  constructor(readonly broker: InMemoryBroker = new InMemoryBroker()) {}
+
+  async connect(): Promise<void> {
+    this.connected = true;
+    logger.info('🧪 Using the in-memory broker');
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+  }
+
+  health(): TransportHealth {
+    return { protocol: this.protocol, connected: this.connected, server: this.connected ? 'in-memory' : null };
+  }
+
+  async publish(channel: string, data: Uint8Array, headers?: MessageHeaders): Promise<void> {
+    if (!this.connected) throw new Error('In-memory transport is not connected');
+    this.broker.publish(channel, data, headers);
+  }
+
+  subscribe(channel: string, handler: MessageHandler): TransportSubscription {
+    if (!this.connected) throw new Error('In-memory transport is not connected');
+    return this.broker.subscribe(channel, handler);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * MessageHeaders - Header access every transport offers; NATS MsgHdrs already has this shape
+ */
+export interface MessageHeaders {
+  get(name: string): string | undefined;
+  set(name: string, value: string): void;
+  keys(): string[];
+}
+
+/**
+ * HeaderMap - MessageHeaders kept in a Map, for outbound messages and brokers without native headers
+ */
+export class HeaderMap implements MessageHeaders {
+  private values = new Map<string, string>();
+
+  constructor(init: Record<string, string> = {}) {
+    for (const [name, value] of Object.entries(init)) this.values.set(name, value);
+  }
+
+  get(name: string): string | undefined {
+    return this.values.get(name);
+  }
+
+  set(name: string, value: string): void {
+    this.values.set(name, value);
+  }
+
+  keys(): string[] {
+    return Array.from(this.values.keys());
+  }
+
+  toRecord(): Record<string, string> {
+    return Object.fromEntries(this.values);
+  }
+}
+
+/**
+ * copyHeaders - A HeaderMap with every header of `source`
+ */
+export function copyHeaders(source: MessageHeaders | undefined): HeaderMap {
+  const copy = new HeaderMap();
+  for (const name of source?.keys() ?? []) {
+    const value = source!.get(name);
+    if (value !== undefined) copy.set(name, value);
+  }
+  return copy;
+}
+
+/**
+ * InboundMessage - One delivery of a message to a subscription
+ */
+export interface InboundMessage {
+  subject: string;           // Channel address the message was published to
+  data: Uint8Array;
+  headers?: MessageHeaders;
+  ack(): void;               // Done with the message, whether it was handled or dead-lettered
+}
+
+export type MessageHandler = (msg: InboundMessage) => Promise<void>;
+
+export interface TransportSubscription {
+  unsubscribe(): void;
+}
+
+export interface TransportHealth {
+  protocol: string;
+  connected: boolean;
+  server: string | null;
+}
+
+/**
+ * MessageTransport - The broker the service publishes to and subscribes through,
+ * picked from a `servers` entry of the AsyncAPI document
+ */
+export interface MessageTransport {
+  readonly protocol: string;  // AsyncAPI server protocol, e.g. nats or mqtt
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  health(): TransportHealth;
+  publish(channel: string, data: Uint8Array, headers?: MessageHeaders): Promise<void>;
+  // Messages of one subscription are handled one at a time, in the order they arrive
+  subscribe(channel: string, handler: MessageHandler): TransportSubscription;
+}
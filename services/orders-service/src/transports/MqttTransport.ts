@@ -0,0 +1,108 @@
+import { connectAsync, IPublishPacket, MqttClient } from 'mqtt';
+import { logger } from '../logger';
+import {
+  HeaderMap,
+  MessageHandler,
+  MessageTransport,
+  MessageHeaders,
+  TransportHealth,
+  TransportSubscription,
+  copyHeaders,
+} from './MessageTransport';
+
+interface TopicSubscribers {
+  handlers: Set<MessageHandler>;
+  queue: Promise<void>;  // Deliveries on this topic, one after the other
+}
+
+/**
+ * MqttTransport - MQTT 5 publish and subscribe at QoS 1. Headers travel as MQTT 5
+ * user properties; channel addresses are used as topics unchanged.
+ */
+export class MqttTransport implements MessageTransport {
+  readonly protocol = 'mqtt';
+  private client: MqttClient | null = null;
+  private topics = new Map<string, TopicSubscribers>();
+
+  constructor(private readonly url: string) {}
+
+  private get connection(): MqttClient {
+    if (!this.client) throw new Error('Not connected to MQTT');
+    return this.client;
+  }
+
+  async connect(): Promise<void> {
+    logger.info(`🔌 Connecting to MQTT at ${this.url}...`);
+    // No retries: an unreachable broker fails the connect instead of reconnecting in the background
+    this.client = await connectAsync(this.url, { protocolVersion: 5 }, false);
+    this.client.on('message', (topic, payload, packet) => this.dispatch(topic, payload, packet));
+    this.client.on('error', err => logger.error('❌ MQTT client error', { err }));
+    logger.info(`✅ Connected to MQTT broker: ${this.url}`);
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      await this.client.endAsync();
+      logger.info('👋 Disconnected from MQTT');
+    }
+  }
+
+  health(): TransportHealth {
+    return {
+      protocol: this.protocol,
+      connected: this.client?.connected ?? false,
+      server: this.client ? this.url : null,
+    };
+  }
+
+  async publish(channel: string, data: Uint8Array, headers?: MessageHeaders): Promise<void> {
+    await this.connection.publishAsync(channel, Buffer.from(data), {
+      qos: 1,
+      properties: { userProperties: copyHeaders(headers).toRecord() },
+    });
+  }
+
+  subscribe(channel: string, handler: MessageHandler): TransportSubscription {
+    let topic = this.topics.get(channel);
+    if (!topic) {
+      topic = { handlers: new Set(), queue: Promise.resolve() };
+      this.topics.set(channel, topic);
+      this.connection.subscribeAsync(channel, { qos: 1 }).catch(err => {
+        logger.error('❌ MQTT subscribe failed', { channel, err });
+      });
+    }
+    topic.handlers.add(handler);
+
+    return {
+      unsubscribe: () => {
+        topic!.handlers.delete(handler);
+        if (topic!.handlers.size > 0 || this.topics.get(channel) !== topic) return;
+        this.topics.delete(channel);
+        this.client?.unsubscribeAsync(channel).catch(err => {
+          logger.warn('⚠️  MQTT unsubscribe failed', { channel, err });
+        });
+      },
+    };
+  }
+
+  private dispatch(topic: string, payload: Buffer, packet: IPublishPacket): void {
+    const subscribers = this.topics.get(topic);
+    if (!subscribers) return;
+
+    const headers = new HeaderMap();
+    for (const [name, value] of Object.entries(packet.properties?.userProperties ?? {})) {
+      headers.set(name, Array.isArray(value) ? value[0] : value);
+    }
+
+    for (const handler of subscribers.handlers) {
+      subscribers.queue = subscribers.queue.then(async () => {
+        try {
+          // mqtt.js acknowledges QoS 1 deliveries itself once they arrive
+          await handler({ subject: topic, data: new Uint8Array(payload), headers: copyHeaders(headers), ack: () => {} });
+        } catch (err) {
+          logger.error('❌ Unhandled error in subscription', { channel: topic, err });
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { connect, Events, headers as natsHeaders, MsgHdrs, NatsConnection } from 'nats';
+import { logger } from '../logger';
+import {
+  MessageHandler,
+  MessageHeaders,
+  MessageTransport,
+  TransportHealth,
+  TransportSubscription,
+} from './MessageTransport';
+
+/**
+ * NatsTransport - Core NATS publish and subscribe. The connection stays reachable for
+ * what only NATS offers here: JetStream consumers, the KV order store and replay.
+ */
+export class NatsTransport implements MessageTransport {
+  readonly protocol = 'nats';
+  private nc: NatsConnection | null = null;
+  private connected = false;
+
+  constructor(private readonly url: string) {}
+
+  get connection(): NatsConnection {
+    if (!this.nc) throw new Error('Not connected to NATS');
+    return this.nc;
+  }
+
+  async connect(): Promise<void> {
+    logger.info(`🔌 Connecting to NATS at ${this.url}...`);
+    this.nc = await connect({ servers: this.url });
+    logger.info(`✅ Connected to NATS server: ${this.nc.getServer()}`);
+    this.connected = true;
+    this.watchConnection(this.nc);
+  }
+
+  private watchConnection(nc: NatsConnection): void {
+    (async () => {
+      for await (const status of nc.status()) {
+        if (status.type === Events.Disconnect) this.connected = false;
+        if (status.type === Events.Reconnect) this.connected = true;
+      }
+    })();
+    nc.closed().then(() => { this.connected = false; });
+  }
+
+  async close(): Promise<void> {
+    if (this.nc) {
+      await this.nc.drain();
+      logger.info('👋 Disconnected from NATS');
+    }
+  }
+
+  health(): TransportHealth {
+    return {
+      protocol: this.protocol,
+      connected: this.connected,
+      server: this.nc ? this.nc.getServer() : null,
+    };
+  }
+
+  async publish(channel: string, data: Uint8Array, headers?: MessageHeaders): Promise<void> {
+    this.connection.publish(channel, data, { headers: headers ? toNatsHeaders(headers) : undefined });
+  }
+
+  subscribe(channel: string, handler: MessageHandler): TransportSubscription {
+    const sub = this.connection.subscribe(channel);
+
+    (async () => {
+      for await (const msg of sub) {
+        try {
+          // Core NATS has nothing to acknowledge
+          await handler({ subject: msg.subject, data: msg.data, headers: msg.headers, ack: () => {} });
+        } catch (err) {
+          logger.error('❌ Unhandled error in subscription', { channel, err });
+        }
+      }
+    })();
+
+    return sub;
+  }
+}
+
+/**
+ * toNatsHeaders - NATS headers with every header of `source`
+ */
+export function toNatsHeaders(source: MessageHeaders): MsgHdrs {
+  const h = natsHeaders();
+  for (const name of source.keys()) {
+    const value = source.get(name);
+    if (value !== undefined) h.set(name, value);
+  }
+  return h;
+}
@@ -0,0 +1,59 @@
+import { specDocument } from '../validation';
+import { MessageTransport } from './MessageTransport';
+import { NatsTransport } from './NatsTransport';
+import { MqttTransport } from './MqttTransport';
+import { InMemoryTransport } from './InMemoryTransport';
+
+export * from './MessageTransport';
+export { NatsTransport, toNatsHeaders } from './NatsTransport';
+export { MqttTransport } from './MqttTransport';
+export { BrokerMessage, InMemoryBroker, InMemoryTransport } from './InMemoryTransport';
+
+// `servers` entry of the AsyncAPI document used when ASYNCAPI_SERVER is not set
+export const DEFAULT_SERVER = 'local';
+
+export interface SpecServer {
+  name: string;
+  host: string;
+  protocol: string;
+}
+
+/**
+ * specServer - A `servers` entry of the AsyncAPI document by name
+ */
+export function specServer(name: string): SpecServer {
+  const servers = specDocument().servers ?? {};
+  const server = servers[name];
+  if (!server) {
+    throw new Error(`Unknown server "${name}", the AsyncAPI document has ${Object.keys(servers).join(', ') || 'none'}`);
+  }
+  return { name, host: String(server.host), protocol: String(server.protocol) };
+}
+
+/**
+ * createTransport - The transport for a server's protocol (nats or mqtt)
+ */
+export function createTransport(server: SpecServer): MessageTransport {
+  switch (server.protocol) {
+    case 'nats':
+      return new NatsTransport(`nats://${server.host}`);
+    case 'mqtt':
+      return new MqttTransport(`mqtt://${server.host}`);
+    default:
+      throw new Error(`Server "${server.name}" uses protocol "${server.protocol}", expected nats or mqtt`);
+  }
+}
+
+/**
+ * transportFromEnv - The transport for ASYNCAPI_SERVER (a `servers` entry, default local),
+ * or the in-process broker for ASYNCAPI_SERVER=memory. NATS_URL still overrides the
+ * host of a nats server.
+ */
+export function transportFromEnv(env: NodeJS.ProcessEnv = process.env): MessageTransport {
+  const name = env.ASYNCAPI_SERVER || DEFAULT_SERVER;
+  if (name === 'memory') return new InMemoryTransport();
+
+  const server = specServer(name);
+  if (server.protocol === 'nats' && env.NATS_URL) return new NatsTransport(env.NATS_URL);
+  return createTransport(server);
+}
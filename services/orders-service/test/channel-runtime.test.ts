@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { CHANNELS } from '../src/channels';
+import { DLQ_HEADERS, dlqSubject } from '../src/dlq';
+import { ENVELOPE_HEADERS, createEnvelope, messageHeaders } from '../src/headers';
+import { receivePaymentProcessed, sendOrderCancelled } from '../src/__gen__/channels';
+import { TransportRuntime } from '../src/channel-runtime';
+import { OrderCancelled } from '../src/__gen__/payloads/OrderCancelled';
+import { PaymentProcessed } from '../src/__gen__/payloads/PaymentProcessed';
+import { RetryPolicy } from '../src/retry';
+import { InMemoryBroker, InMemoryTransport, MessageHeaders } from '../src/transports';
+
+// ============================================================================
+// The TransportRuntime under the generated channel functions: acknowledgement,
+// retries and dead-lettering of inbound messages (processMessage) and the
+// headers of outbound ones, seen through the in-memory broker
+// ============================================================================
+const FAST_RETRY: RetryPolicy = { maxAttempts: 3, initialDelayMs: 1, backoffFactor: 1, maxDelayMs: 1 };
+const encoder = new TextEncoder();
+
+/**
+ * An InMemoryTransport whose dead letters cannot be published
+ */
+class BrokenDeadLetterTransport extends InMemoryTransport {
+  async publish(channel: string, data: Uint8Array, headers?: MessageHeaders): Promise<void> {
+    if (channel.startsWith(dlqSubject(''))) throw new Error('DLQ publish failed');
+    return super.publish(channel, data, headers);
+  }
+}
+
+async function connected<T extends InMemoryTransport>(transport: T): Promise<T> {
+  await transport.connect();
+  return transport;
+}
+
+function publishPaymentProcessed(broker: InMemoryBroker, payload: Record<string, unknown>): void {
+  const h = messageHeaders(CHANNELS.paymentProcessed, 'PaymentProcessed', createEnvelope('ORD-1'));
+  broker.publish(CHANNELS.paymentProcessed, encoder.encode(JSON.stringify(payload)), h);
+}
+
+const VALID = { orderId: 'ORD-1', paymentId: 'PAY-1', status: 'completed' };
+
+function deadLetters(broker: InMemoryBroker) {
+  return broker.history.filter(message => message.channel === dlqSubject(CHANNELS.paymentProcessed));
+}
+
+describe('processMessage', () => {
+  test('acks a message once the handler is done with it', async () => {
+    const broker = new InMemoryBroker();
+    const received: PaymentProcessed[] = [];
+    receivePaymentProcessed(new TransportRuntime(await connected(new InMemoryTransport(broker))), async data => { received.push(data); }, FAST_RETRY);
+
+    publishPaymentProcessed(broker, VALID);
+    await broker.settle();
+
+    assert.deepEqual(received.map(data => data.toJSON()), [VALID]);
+    assert.equal(broker.unacked(), 0);
+    assert.equal(deadLetters(broker).length, 0);
+  });
+
+  test('retries a failing handler and acks the message once it succeeds', async () => {
+    const broker = new InMemoryBroker();
+    let attempts = 0;
+    receivePaymentProcessed(new TransportRuntime(await connected(new InMemoryTransport(broker))), async () => {
+      if (++attempts < FAST_RETRY.maxAttempts) throw new Error('Order store unavailable');
+    }, FAST_RETRY);
+
+    publishPaymentProcessed(broker, VALID);
+    await broker.settle();
+
+    assert.equal(attempts, FAST_RETRY.maxAttempts);
+    assert.equal(broker.unacked(), 0);
+    assert.equal(deadLetters(broker).length, 0);
+  });
+
+  test('dead-letters the message with its headers and acks it once the retries run out', async () => {
+    const broker = new InMemoryBroker();
+    let attempts = 0;
+    receivePaymentProcessed(new TransportRuntime(await connected(new InMemoryTransport(broker))), async () => {
+      attempts++;
+      throw new Error('Order store unavailable');
+    }, FAST_RETRY);
+
+    publishPaymentProcessed(broker, VALID);
+    await broker.settle();
+
+    assert.equal(attempts, FAST_RETRY.maxAttempts);
+    assert.equal(broker.unacked(), 0);
+    const [original] = broker.history;
+    const [letter] = deadLetters(broker);
+    assert.equal(letter.headers.get(DLQ_HEADERS.originalSubject), CHANNELS.paymentProcessed);
+    assert.equal(letter.headers.get(DLQ_HEADERS.attempts), String(FAST_RETRY.maxAttempts));
+    assert.equal(letter.headers.get(DLQ_HEADERS.error), 'Order store unavailable');
+    assert.equal(letter.headers.get('message-id'), original.headers.get('message-id'));
+    assert.deepEqual(letter.data, original.data);
+  });
+
+  test('dead-letters a message that breaks the contract without running the handler', async () => {
+    const broker = new InMemoryBroker();
+    let attempts = 0;
+    receivePaymentProcessed(new TransportRuntime(await connected(new InMemoryTransport(broker))), async () => { attempts++; }, FAST_RETRY);
+
+    publishPaymentProcessed(broker, { ...VALID, paymentId: 42 });
+    await broker.settle();
+
+    assert.equal(attempts, 0);
+    assert.equal(broker.unacked(), 0);
+    const [letter] = deadLetters(broker);
+    assert.equal(letter.headers.get(DLQ_HEADERS.attempts), '1');
+    assert.match(letter.headers.get(DLQ_HEADERS.error) ?? '', /violates the contract: \/paymentId must be string/);
+  });
+
+  test('leaves the message unacked for redelivery when the dead letter cannot be published', async () => {
+    const broker = new InMemoryBroker();
+    receivePaymentProcessed(new TransportRuntime(await connected(new BrokenDeadLetterTransport(broker))), async () => {
+      throw new Error('Order store unavailable');
+    }, FAST_RETRY);
+
+    publishPaymentProcessed(broker, VALID);
+    await broker.settle();
+
+    assert.equal(broker.unacked(), 1);
+    assert.equal(deadLetters(broker).length, 0);
+  });
+});
+
+describe('TransportRuntime.send', () => {
+  test('publishes with the header defaults of the spec and a new envelope for the order', async () => {
+    const broker = new InMemoryBroker();
+    await sendOrderCancelled(new TransportRuntime(await connected(new InMemoryTransport(broker))), new OrderCancelled({ orderId: 'ORD-1', reason: 'Out of stock' }));
+
+    const [sent] = broker.history;
+    assert.equal(sent.channel, CHANNELS.orderCancelled);
+    assert.deepEqual(JSON.parse(new TextDecoder().decode(sent.data)), { orderId: 'ORD-1', reason: 'Out of stock' });
+    assert.equal(sent.headers.get('ec-message-type'), 'event');
+    assert.equal(sent.headers.get(ENVELOPE_HEADERS.correlationId), 'ORD-1');
+  });
+
+  test('refuses a message that breaks the contract', async () => {
+    const broker = new InMemoryBroker();
+    const runtime = new TransportRuntime(await connected(new InMemoryTransport(broker)));
+    await assert.rejects(sendOrderCancelled(runtime, new OrderCancelled({ orderId: 'ORD-1', reason: 7 as unknown as string })), /violates the contract/);
+    assert.equal(broker.history.length, 0);
+  });
+});
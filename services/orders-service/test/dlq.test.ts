@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { headers } from 'nats';
+import { CHANNELS } from '../src/channels';
+import { DLQ_ERROR_MAX_LENGTH, DLQ_HEADERS, dlqSubject, errorHeaderValue } from '../src/dlq';
+import { InMemoryOrderRepository } from '../src/repositories';
+import { Order } from '../src/order';
+import { OrdersServiceHarness } from './harness';
+
+// ============================================================================
+// Dead-lettering of messages the handlers keep failing on
+// ============================================================================
+const MULTI_LINE_ERROR = 'Order store unavailable:\n  connection reset\r\n  at OrderRepository.update';
+
+class FailingOrderRepository extends InMemoryOrderRepository {
+  async update(): Promise<Order | undefined> {
+    throw new Error(MULTI_LINE_ERROR);
+  }
+}
+
+describe('errorHeaderValue', () => {
+  test('puts a multi-line error on one line that NATS accepts as a header value', () => {
+    const value = errorHeaderValue(new Error(MULTI_LINE_ERROR));
+
+    assert.equal(value, 'Order store unavailable: | connection reset | at OrderRepository.update');
+    assert.doesNotThrow(() => headers().set('dlq-error', value));
+  });
+
+  test('truncates long errors', () => {
+    const value = errorHeaderValue('x'.repeat(DLQ_ERROR_MAX_LENGTH * 2));
+
+    assert.equal(value.length, DLQ_ERROR_MAX_LENGTH);
+    assert.ok(value.endsWith('…'));
+  });
+});
+
+describe('deadLetter', () => {
+  let h: OrdersServiceHarness;
+
+  afterEach(async () => {
+    await h.stop();
+  });
+
+  test('dead-letters a message whose handler fails with a multi-line error', async () => {
+    h = await OrdersServiceHarness.start({
+      repository: new FailingOrderRepository(),
+      retryPolicies: { receivePaymentProcessed: { maxAttempts: 2, initialDelayMs: 1 } },
+    });
+
+    await h.when({ channel: CHANNELS.paymentProcessed, payload: { orderId: 'ORD-1', paymentId: 'PAY-1', status: 'completed' } });
+
+    assert.equal(h.thenDeadLettered(CHANNELS.paymentProcessed), 'Order store unavailable: | connection reset | at OrderRepository.update');
+    const [letter] = h.broker.history.filter(message => message.channel === dlqSubject(CHANNELS.paymentProcessed));
+    assert.equal(letter.headers.get(DLQ_HEADERS.attempts), '2');
+  });
+});
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { generateFromSpec, writeOutputs } from '../../../tools/spec-tools/src/codegen';
+import { handlersPreset } from '../../../tools/spec-tools/src/handlers';
+import { loadSpecFile, parseSpec } from '../../../tools/spec-tools/src/specs';
+import { TransportRuntime } from '../src/channel-runtime';
+import { CHANNELS } from '../src/channels';
+import { DLQ_HEADERS, dlqSubject } from '../src/dlq';
+import { MessageEnvelope, createEnvelope, messageHeaders } from '../src/headers';
+import { RetryPolicy } from '../src/retry';
+import { SPEC_PATH } from '../src/validation';
+import { InMemoryBroker, InMemoryTransport, TransportSubscription } from '../src/transports';
+
+// ============================================================================
+// wireHandlers as the handlers preset renders it for a spec with one receive
+// operation, subscribed over the TransportRuntime of the service
+// ============================================================================
+const FAST_RETRY: RetryPolicy = { maxAttempts: 3, initialDelayMs: 1, backoffFactor: 1, maxDelayMs: 1 };
+const encoder = new TextEncoder();
+
+// What the test needs of the rendered module
+interface RenderedHandlers {
+  wireHandlers(
+    runtime: TransportRuntime,
+    handlers: { onPaymentProcessed(message: { toJSON(): Record<string, unknown> }, envelope: Partial<MessageEnvelope>): Promise<void> },
+    options?: { receivePaymentProcessed?: RetryPolicy }
+  ): TransportSubscription[];
+}
+
+/**
+ * The orders-service spec cut down to receivePaymentProcessed, so the runtime still
+ * validates its messages against the orders-service contract
+ */
+function paymentSpec() {
+  const { doc } = loadSpecFile(SPEC_PATH);
+  return parseSpec(JSON.stringify({
+    ...doc,
+    info: { title: 'payment-listener', version: '1.0.0' },
+    channels: { paymentProcessed: doc.channels?.paymentProcessed },
+    operations: { receivePaymentProcessed: doc.operations?.receivePaymentProcessed },
+  }), 'payment-listener.yml');
+}
+
+const VALID = { orderId: 'ORD-1', paymentId: 'PAY-1', status: 'completed' };
+
+function publishPaymentProcessed(broker: InMemoryBroker): void {
+  const h = messageHeaders(CHANNELS.paymentProcessed, 'PaymentProcessed', createEnvelope('ORD-1'));
+  broker.publish(CHANNELS.paymentProcessed, encoder.encode(JSON.stringify(VALID)), h);
+}
+
+describe('wireHandlers', () => {
+  let dir: string;
+  let rendered: RenderedHandlers;
+
+  before(() => {
+    // Below test/ so the generated payloads resolve service-kit like the service does
+    dir = fs.mkdtempSync(path.join(__dirname, 'gen-'));
+    writeOutputs(generateFromSpec(paymentSpec(), [
+      { preset: 'payloads', outputPath: 'payloads' },
+      { preset: 'headers', outputPath: 'headers' },
+      { preset: 'channels', outputPath: 'channels' },
+      handlersPreset({ outputPath: 'handlers' }),
+    ]), dir);
+    rendered = require(path.join(dir, 'handlers'));
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test('renders one handler per receive operation', () => {
+    const source = fs.readFileSync(path.join(dir, 'handlers/index.ts'), 'utf8');
+    assert.match(source, /export interface PaymentListenerHandlers<E = unknown> \{\n {2}onPaymentProcessed\(message: PaymentProcessed, envelope: Partial<E>\): Promise<void>;\n\}/);
+  });
+
+  test('hands every message with its envelope to the handler and acks it', async () => {
+    const broker = new InMemoryBroker();
+    const transport = new InMemoryTransport(broker);
+    await transport.connect();
+    const received: Array<[Record<string, unknown>, string | undefined]> = [];
+    rendered.wireHandlers(new TransportRuntime(transport), {
+      onPaymentProcessed: async (message, envelope) => { received.push([message.toJSON(), envelope.correlationId]); },
+    }, { receivePaymentProcessed: FAST_RETRY });
+
+    publishPaymentProcessed(broker);
+    await broker.settle();
+
+    assert.deepEqual(received, [[VALID, 'ORD-1']]);
+    assert.equal(broker.unacked(), 0);
+  });
+
+  test('lets a failing handler reach the retries and the dead-letter channel', async () => {
+    const broker = new InMemoryBroker();
+    const transport = new InMemoryTransport(broker);
+    await transport.connect();
+    let attempts = 0;
+    rendered.wireHandlers(new TransportRuntime(transport), {
+      onPaymentProcessed: async () => {
+        attempts++;
+        throw new Error('Order store unavailable');
+      },
+    }, { receivePaymentProcessed: FAST_RETRY });
+
+    publishPaymentProcessed(broker);
+    await broker.settle();
+
+    assert.equal(attempts, FAST_RETRY.maxAttempts);
+    assert.equal(broker.unacked(), 0);
+    const [letter] = broker.history.filter(message => message.channel === dlqSubject(CHANNELS.paymentProcessed));
+    assert.equal(letter.headers.get(DLQ_HEADERS.attempts), String(FAST_RETRY.maxAttempts));
+  });
+});
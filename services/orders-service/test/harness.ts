@@ -0,0 +1,186 @@
+import assert from 'node:assert/strict';
+import { OrdersService, OrdersServiceOptions } from '../src/index';
+import { Order } from '../src/order';
+import { Clock } from '../src/clock';
+import { DLQ_HEADERS, dlqSubject } from '../src/dlq';
+import { MessageEnvelope, messageHeaders } from '../src/headers';
+import { specDocument, validateHeaders, validatePayload } from '../src/validation';
+import { BrokerMessage, InMemoryBroker, InMemoryTransport } from '../src/transports';
+
+// ============================================================================
+// Given/when/then harness for OrdersService event flows: an in-memory broker,
+// a manual clock and assertions on what the service published
+// ============================================================================
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * ManualClock - Stands still until a test moves it
+ */
+export class ManualClock implements Clock {
+  private current: number;
+
+  constructor(start: Date | string = '2026-01-01T00:00:00.000Z') {
+    this.current = new Date(start).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  advance(ms: number): Date {
+    this.current += ms;
+    return this.now();
+  }
+}
+
+/**
+ * InboundEvent - A message the other services send to the Orders Service. Its envelope
+ * gets a sequential messageId, the orderId as correlationId and the clock's time unless given.
+ */
+export interface InboundEvent {
+  channel: string;
+  payload: Record<string, unknown>;
+  envelope?: Partial<MessageEnvelope>;
+}
+
+export interface PublishedMessage {
+  channel: string;
+  messageName: string;
+  payload: Record<string, unknown>;
+  headers: Record<string, string>;
+}
+
+/**
+ * messageNameOf - The message the AsyncAPI document declares on a channel
+ */
+export function messageNameOf(channel: string): string {
+  const found = Object.values(specDocument().channels ?? {}).find(def => def.address === channel);
+  const names = Object.keys(found?.messages ?? {});
+  assert.equal(names.length, 1, `expected the AsyncAPI document to declare one message on ${channel}`);
+  return names[0];
+}
+
+/**
+ * OrdersServiceHarness - Runs an OrdersService on an InMemoryBroker and publishes events to it
+ * the way the other services would. Every given/when step waits until the service has handled
+ * all it received, so assertions never race the handlers.
+ */
+export class OrdersServiceHarness {
+  readonly broker = new InMemoryBroker();
+  readonly service: OrdersService;
+  private producer = new InMemoryTransport(this.broker);  // Stands in for every other service
+  private inputs = new Set<BrokerMessage>();
+  private since = 0;     // Index into the broker history where the last `when` started
+  private sequence = 0;
+
+  private constructor(readonly clock: ManualClock, options: Partial<OrdersServiceOptions>) {
+    this.service = new OrdersService(new InMemoryTransport(this.broker), { jetstream: false, clock, ...options });
+  }
+
+  static async start(options: Partial<OrdersServiceOptions> = {}, clock: ManualClock = new ManualClock()): Promise<OrdersServiceHarness> {
+    const harness = new OrdersServiceHarness(clock, options);
+    await harness.producer.connect();
+    await harness.service.connect();
+    await harness.service.setupSubscriptions();
+    return harness;
+  }
+
+  async stop(): Promise<void> {
+    await this.service.disconnect();
+    await this.producer.close();
+  }
+
+  /**
+   * given - Events that happened before; what the service publishes in reaction is not
+   * part of the outcome checked by the `then` assertions
+   */
+  async given(...events: InboundEvent[]): Promise<void> {
+    await this.deliver(events);
+    this.since = this.broker.history.length;
+  }
+
+  /**
+   * when - The events under test; the `then` assertions look at what follows them
+   */
+  async when(...events: InboundEvent[]): Promise<void> {
+    this.since = this.broker.history.length;
+    await this.deliver(events);
+  }
+
+  /**
+   * published - Every message the service published since `when`, each checked against
+   * the payload and headers schema of its message in the AsyncAPI document. Dead letters
+   * are left out, see thenDeadLettered.
+   */
+  published(channel?: string): PublishedMessage[] {
+    return this.outcome()
+      .filter(message => !message.channel.startsWith(dlqSubject('')))
+      .filter(message => channel === undefined || message.channel === channel)
+      .map(message => {
+        const messageName = messageNameOf(message.channel);
+        const payload = JSON.parse(decoder.decode(message.data));
+        const headers = message.headers.toRecord();
+        validatePayload(message.channel, messageName, payload, 'send');
+        validateHeaders(message.channel, messageName, headers, 'send');
+        return { channel: message.channel, messageName, payload, headers };
+      });
+  }
+
+  /**
+   * thenPublished - Asserts the service published exactly `count` messages on `channel`
+   * since `when` and returns them
+   */
+  thenPublished(channel: string, count: number = 1): PublishedMessage[] {
+    const messages = this.published(channel);
+    assert.equal(messages.length, count, `expected ${count} message(s) on ${channel}, got ${messages.length}`);
+    return messages;
+  }
+
+  /**
+   * thenNothingPublished - Asserts the service published nothing since `when`, dead letters included
+   */
+  thenNothingPublished(): void {
+    const channels = this.outcome().map(message => message.channel);
+    assert.deepEqual(channels, [], `expected nothing to be published, got ${channels.join(', ')}`);
+  }
+
+  /**
+   * thenDeadLettered - Asserts exactly one message of `channel` went to its dead-letter
+   * channel since `when` and returns the error it was dead-lettered with
+   */
+  thenDeadLettered(channel: string): string {
+    const letters = this.outcome().filter(message => message.channel === dlqSubject(channel));
+    assert.equal(letters.length, 1, `expected one dead letter for ${channel}, got ${letters.length}`);
+    return letters[0].headers.get(DLQ_HEADERS.error) ?? '';
+  }
+
+  async order(orderId: string): Promise<Order | undefined> {
+    return this.service.getOrder(orderId);
+  }
+
+  private outcome(): BrokerMessage[] {
+    return this.broker.history.slice(this.since).filter(message => !this.inputs.has(message));
+  }
+
+  private async deliver(events: InboundEvent[]): Promise<void> {
+    for (const event of events) {
+      const orderId = String(event.payload.orderId);
+      const envelope: MessageEnvelope = {
+        messageId: `msg-${++this.sequence}`,
+        correlationId: orderId,
+        timestamp: this.clock.now(),
+        specVersion: String(specDocument().info?.version ?? ''),
+        ...event.envelope,
+      };
+      const headers = messageHeaders(event.channel, messageNameOf(event.channel), envelope);
+
+      // The broker records the message before publish returns, handlers only run after
+      const index = this.broker.history.length;
+      await this.producer.publish(event.channel, encoder.encode(JSON.stringify(event.payload)), headers);
+      this.inputs.add(this.broker.history[index]);
+    }
+    await this.broker.settle();
+    assert.equal(this.broker.unacked(), 0, 'expected every delivered message to be acknowledged');
+  }
+}
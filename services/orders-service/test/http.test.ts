@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { OrdersApi, startHttpServer } from '../src/http';
+import { Order } from '../src/order';
+import { transition } from '../src/order-lifecycle';
+
+// ============================================================================
+// HTTP API routing and error responses
+// ============================================================================
+function order(orderId: string, status: Order['status']): Order {
+  return {
+    orderId,
+    userId: 'user-001',
+    totalAmount: 20,
+    items: [{ itemId: 'ITEM-001', quantity: 1, price: 20 }],
+    status,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  };
+}
+
+let orders = new Map<string, Order>();
+
+const api: OrdersApi = {
+  getOrder: async orderId => orders.get(orderId),
+  getOrders: async () => Array.from(orders.values()),
+  getOrdersByStatus: async status => Array.from(orders.values()).filter(order => order.status === status),
+  cancelOrder: async orderId => {
+    const found = orders.get(orderId);
+    if (found) transition(found, 'cancelled');
+  },
+  getBrokerHealth: () => ({ protocol: 'memory', connected: true, server: 'memory' }),
+};
+
+function cancel(orderId: string, body: unknown): Promise<Response> {
+  return fetch(`${baseUrl}/orders/${orderId}/cancel`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  server = await startHttpServer(api, 0);
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  orders = new Map([order('ORD 1', 'pending'), order('ORD-2', 'shipped')].map(o => [o.orderId, o]));
+});
+
+describe('HTTP API', () => {
+  test('decodes the order id in the path', async () => {
+    const res = await fetch(`${baseUrl}/orders/ORD%201`);
+
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).orderId, 'ORD 1');
+  });
+
+  test('answers 400 to a malformed percent-encoding', async () => {
+    const res = await fetch(`${baseUrl}/orders/%E0%A4%A`);
+
+    assert.equal(res.status, 400);
+    assert.match((await res.json()).error, /Malformed path segment "%E0%A4%A"/);
+  });
+
+  test('reports the broker, and the same connection as the deprecated nats field', async () => {
+    const res = await fetch(`${baseUrl}/health`);
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), {
+      status: 'ok',
+      broker: { protocol: 'memory', connected: true, server: 'memory' },
+      nats: { connected: true, server: 'memory' },
+    });
+  });
+
+  test('answers 404 for an unknown order', async () => {
+    const res = await fetch(`${baseUrl}/orders/ORD-UNKNOWN`);
+
+    assert.equal(res.status, 404);
+  });
+});
+
+describe('GET /orders', () => {
+  test('lists every order', async () => {
+    const res = await fetch(`${baseUrl}/orders`);
+
+    assert.equal(res.status, 200);
+    assert.deepEqual((await res.json()).map((o: Order) => o.orderId), ['ORD 1', 'ORD-2']);
+  });
+
+  test('filters by status', async () => {
+    const res = await fetch(`${baseUrl}/orders?status=shipped`);
+
+    assert.equal(res.status, 200);
+    assert.deepEqual((await res.json()).map((o: Order) => o.orderId), ['ORD-2']);
+  });
+
+  test('answers 400 to an unknown status', async () => {
+    const res = await fetch(`${baseUrl}/orders?status=lost`);
+
+    assert.equal(res.status, 400);
+    assert.match((await res.json()).error, /Unknown status "lost", expected one of pending, /);
+  });
+});
+
+describe('POST /orders/:id/cancel', () => {
+  test('cancels the order and answers with it', async () => {
+    const res = await cancel('ORD%201', { reason: 'Customer request' });
+
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    assert.equal(body.orderId, 'ORD 1');
+    assert.equal(body.status, 'cancelled');
+  });
+
+  test('answers 404 for an unknown order', async () => {
+    const res = await cancel('ORD-UNKNOWN', { reason: 'Customer request' });
+
+    assert.equal(res.status, 404);
+    assert.match((await res.json()).error, /Order ORD-UNKNOWN not found/);
+  });
+
+  test('answers 409 when the order cannot be cancelled any more', async () => {
+    const res = await cancel('ORD-2', { reason: 'Customer request' });
+
+    assert.equal(res.status, 409);
+    assert.match((await res.json()).error, /cannot move from shipped to cancelled/);
+    assert.equal(orders.get('ORD-2')?.status, 'shipped');
+  });
+
+  test('answers 400 without a reason', async () => {
+    const res = await cancel('ORD%201', {});
+
+    assert.equal(res.status, 400);
+    assert.match((await res.json()).error, /Field "reason" must be a non-empty string/);
+    assert.equal(orders.get('ORD 1')?.status, 'pending');
+  });
+});
@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { ConsumerMessages } from 'nats';
+import { CHANNELS } from '../src/channels';
+import { OrderCancelled } from '../src/__gen__/payloads/OrderCancelled';
+import { OrderCreated } from '../src/__gen__/payloads/OrderCreated';
+import { DLQ_HEADERS, dlqSubject } from '../src/dlq';
+import { createEnvelope, messageHeaders } from '../src/headers';
+import {
+  SERVICE_NAME,
+  ensureChannelStreams,
+  jetStreamReceiveOrderCreated,
+  jetStreamSendOrderCancelled,
+  streamName,
+} from '../src/jetstream';
+import { RetryPolicy } from '../src/retry';
+import { MessageHeaders, NatsTransport, toNatsHeaders } from '../src/transports';
+import { NATS_URL, connectNats } from './nats';
+
+// ============================================================================
+// JetStream publishing and durable consumers against a local nats-server.
+// Skipped without one; stop the orders-service first, it shares the durable consumers.
+// ============================================================================
+const FAST_RETRY: RetryPolicy = { maxAttempts: 2, initialDelayMs: 10, backoffFactor: 1, maxDelayMs: 10 };
+const DURABLE = `${SERVICE_NAME}-receiveOrderCreated`;
+
+/**
+ * A NatsTransport whose dead letters cannot be published
+ */
+class BrokenDeadLetterTransport extends NatsTransport {
+  async publish(channel: string, data: Uint8Array, headers?: MessageHeaders): Promise<void> {
+    if (channel.startsWith(dlqSubject(''))) throw new Error('DLQ publish failed');
+    return super.publish(channel, data, headers);
+  }
+}
+
+function orderCreated(orderId: string): OrderCreated {
+  return OrderCreated.unmarshal({ orderId, userId: 'user-check', totalAmount: 10, items: [{ itemId: 'ITEM-001', quantity: 1, price: 10 }] });
+}
+
+function until<T>(promise: Promise<T>, what: string, ms: number = 5000): Promise<T> {
+  return Promise.race([promise, new Promise<never>((_, reject) => setTimeout(() => reject(new Error(`${what} within ${ms}ms`)), ms))]);
+}
+
+describe('JetStream', () => {
+  let transport: NatsTransport | undefined;
+  let skip: string | undefined;
+  let consumer: ConsumerMessages | undefined;
+  let sequence = 0;
+
+  const nextOrderId = () => `JS-TEST-${Date.now()}-${++sequence}`;
+
+  async function publishOrderCreated(orderId: string): Promise<void> {
+    const h = messageHeaders(CHANNELS.orderCreated, 'OrderCreated', createEnvelope(orderId));
+    await transport!.connection.jetstream().publish(CHANNELS.orderCreated, orderCreated(orderId).marshal(), {
+      msgID: `${CHANNELS.orderCreated}:${orderId}`,
+      headers: toNatsHeaders(h),
+    });
+  }
+
+  /**
+   * Drops the durable consumer so every test starts one with its own retry policy
+   */
+  async function resetConsumer(): Promise<void> {
+    consumer?.stop();
+    consumer = undefined;
+    const jsm = await transport!.connection.jetstreamManager();
+    await jsm.consumers.delete(streamName(CHANNELS.orderCreated), DURABLE).catch(() => false);
+  }
+
+  before(async () => {
+    const connected = await connectNats();
+    if (typeof connected === 'string') {
+      skip = connected;
+      return;
+    }
+    transport = connected;
+    await ensureChannelStreams(transport.connection);
+  });
+
+  after(async () => {
+    if (!transport) return;
+    await resetConsumer();
+    await transport.close();
+  });
+
+  test('stores a duplicate publish once', async t => {
+    if (skip) return t.skip(skip);
+    const cancelled = new OrderCancelled({ orderId: nextOrderId(), reason: 'JetStream test' });
+
+    const first = await jetStreamSendOrderCancelled(transport!, cancelled);
+    const second = await jetStreamSendOrderCancelled(transport!, cancelled);
+
+    assert.equal(first.duplicate, false);
+    assert.equal(second.duplicate, true);
+    assert.equal(second.seq, first.seq);
+  });
+
+  test('delivers events published while the durable consumer was offline', async t => {
+    if (skip) return t.skip(skip);
+    await resetConsumer();
+    const orderId = nextOrderId();
+    await publishOrderCreated(orderId);
+
+    let onReceived: (data: OrderCreated) => void = () => {};
+    const received = new Promise<OrderCreated>(resolve => { onReceived = resolve; });
+    consumer = await jetStreamReceiveOrderCreated(transport!, async data => {
+      if (data.orderId === orderId) onReceived(data);
+    }, FAST_RETRY);
+
+    assert.equal((await until(received, 'OrderCreated was not delivered')).orderId, orderId);
+  });
+
+  test('redelivers a failing message and dead-letters it on the last attempt', async t => {
+    if (skip) return t.skip(skip);
+    await resetConsumer();
+    const orderId = nextOrderId();
+    let attempts = 0;
+
+    const letters = transport!.connection.subscribe(dlqSubject(CHANNELS.orderCreated));
+    const deadLettered = (async () => {
+      for await (const letter of letters) {
+        if (orderCreated(orderId).marshal() === new TextDecoder().decode(letter.data)) return letter;
+      }
+      throw new Error('subscription closed');
+    })();
+
+    consumer = await jetStreamReceiveOrderCreated(transport!, async data => {
+      if (data.orderId !== orderId) return;
+      attempts++;
+      throw new Error('handler failed\nwith a second line');
+    }, FAST_RETRY);
+    await publishOrderCreated(orderId);
+
+    const letter = await until(deadLettered, 'OrderCreated was not dead-lettered');
+    letters.unsubscribe();
+    assert.equal(attempts, FAST_RETRY.maxAttempts);
+    assert.equal(letter.headers?.get(DLQ_HEADERS.attempts), String(FAST_RETRY.maxAttempts));
+    assert.equal(letter.headers?.get(DLQ_HEADERS.error), 'handler failed | with a second line');
+  });
+
+  test('keeps consuming when a dead letter cannot be published', async t => {
+    if (skip) return t.skip(skip);
+    await resetConsumer();
+    const broken = new BrokenDeadLetterTransport(NATS_URL);
+    await broken.connect();
+    const failing = nextOrderId();
+    const healthy = nextOrderId();
+
+    let onHealthy: () => void = () => {};
+    const healthyReceived = new Promise<void>(resolve => { onHealthy = resolve; });
+    consumer = await jetStreamReceiveOrderCreated(broken, async data => {
+      if (data.orderId === failing) throw new Error('handler failed');
+      if (data.orderId === healthy) onHealthy();
+    }, FAST_RETRY);
+
+    try {
+      await publishOrderCreated(failing);
+      await publishOrderCreated(healthy);
+      await until(healthyReceived, 'the consumer stopped after a failed dead letter');
+    } finally {
+      await resetConsumer();
+      await broken.close();
+    }
+  });
+});
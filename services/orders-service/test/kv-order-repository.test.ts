@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { KV, NatsConnection, NatsError, StringCodec } from 'nats';
+import { Order } from '../src/order';
+import { ConcurrentUpdateError, KvOrderRepository, MAX_UPDATE_ATTEMPTS } from '../src/repositories';
+import { NatsTransport } from '../src/transports';
+import { connectNats } from './nats';
+
+// ============================================================================
+// KvOrderRepository: revision-checked updates of one order from concurrent handlers
+// ============================================================================
+const sc = StringCodec();
+
+function pendingOrder(orderId: string): Order {
+  return {
+    orderId,
+    userId: 'user-001',
+    totalAmount: 20,
+    items: [{ itemId: 'ITEM-001', quantity: 1, price: 20 }],
+    status: 'pending',
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  };
+}
+
+/**
+ * The part of a KV bucket KvOrderRepository uses, with the revision check of a JetStream bucket
+ */
+class FakeKv {
+  private entries = new Map<string, { value: Uint8Array; revision: number }>();
+  private revision = 0;
+  conflicts = 0;
+  alwaysConflict = false;
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    return entry && { key, value: entry.value, revision: entry.revision, operation: 'PUT' };
+  }
+
+  async put(key: string, data: string): Promise<number> {
+    this.entries.set(key, { value: sc.encode(data), revision: ++this.revision });
+    return this.revision;
+  }
+
+  async update(key: string, data: string, revision: number): Promise<number> {
+    if (this.alwaysConflict || this.entries.get(key)?.revision !== revision) {
+      this.conflicts++;
+      const err = new NatsError('wrong last sequence', '400');
+      err.api_error = { code: 400, err_code: 10071, description: 'wrong last sequence' };
+      throw err;
+    }
+    return this.put(key, data);
+  }
+}
+
+function openFake(kv: FakeKv): Promise<KvOrderRepository> {
+  const nc = { jetstream: () => ({ views: { kv: async () => kv as unknown as KV } }) };
+  return KvOrderRepository.open(nc as unknown as NatsConnection);
+}
+
+describe('KvOrderRepository.update', () => {
+  test('keeps both of two concurrent updates of an order', async () => {
+    const kv = new FakeKv();
+    const orders = await openFake(kv);
+    await orders.save(pendingOrder('ORD-1'));
+
+    await Promise.all([
+      orders.update('ORD-1', order => { order.paymentId = 'PAY-1'; }),
+      orders.update('ORD-1', order => { order.reservationId = 'RES-1'; }),
+    ]);
+
+    const stored = await orders.get('ORD-1');
+    assert.equal(stored?.paymentId, 'PAY-1');
+    assert.equal(stored?.reservationId, 'RES-1');
+    assert.equal(kv.conflicts, 1);
+  });
+
+  test('leaves the order alone when the change returns false', async () => {
+    const kv = new FakeKv();
+    const orders = await openFake(kv);
+    await orders.save(pendingOrder('ORD-1'));
+
+    const order = await orders.update('ORD-1', order => {
+      order.status = 'cancelled';
+      return false;
+    });
+
+    assert.equal(order?.status, 'cancelled');
+    assert.equal((await orders.get('ORD-1'))?.status, 'pending');
+  });
+
+  test('resolves to undefined for an unknown order', async () => {
+    const orders = await openFake(new FakeKv());
+
+    assert.equal(await orders.update('ORD-UNKNOWN', () => assert.fail('change ran')), undefined);
+  });
+
+  test('gives up when the order keeps changing', async () => {
+    const kv = new FakeKv();
+    const orders = await openFake(kv);
+    await orders.save(pendingOrder('ORD-1'));
+    kv.alwaysConflict = true;
+
+    await assert.rejects(orders.update('ORD-1', order => { order.paymentId = 'PAY-1'; }), ConcurrentUpdateError);
+    assert.equal(kv.conflicts, MAX_UPDATE_ATTEMPTS);
+  });
+});
+
+describe('KvOrderRepository on NATS', () => {
+  let transport: NatsTransport | undefined;
+  let skip: string | undefined;
+  const bucket = `orders-test-${Date.now()}`;
+
+  before(async () => {
+    const connected = await connectNats();
+    if (typeof connected === 'string') {
+      skip = connected;
+      return;
+    }
+    transport = connected;
+  });
+
+  after(async () => {
+    if (!transport) return;
+    const jsm = await transport.connection.jetstreamManager();
+    await jsm.streams.delete(`KV_${bucket}`).catch(() => false);
+    await transport.close();
+  });
+
+  test('keeps both of two concurrent updates of an order', async t => {
+    if (skip) return t.skip(skip);
+    const orders = await KvOrderRepository.open(transport!.connection, bucket);
+    await orders.save(pendingOrder('ORD-1'));
+
+    await Promise.all([
+      orders.update('ORD-1', order => { order.paymentId = 'PAY-1'; }),
+      orders.update('ORD-1', order => { order.reservationId = 'RES-1'; }),
+    ]);
+
+    const stored = await orders.get('ORD-1');
+    assert.equal(stored?.paymentId, 'PAY-1');
+    assert.equal(stored?.reservationId, 'RES-1');
+  });
+});
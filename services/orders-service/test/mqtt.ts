@@ -0,0 +1,18 @@
+import { MqttTransport } from '../src/transports';
+
+// ============================================================================
+// Suites that need an MQTT 5 broker (docker compose up mosquitto) skip when none answers
+// ============================================================================
+export const MQTT_URL = process.env.MQTT_URL || 'mqtt://localhost:1883';
+
+/**
+ * connectMqtt - A connected MqttTransport, or the reason to skip when no broker is reachable
+ */
+export async function connectMqtt(transport: MqttTransport = new MqttTransport(MQTT_URL)): Promise<MqttTransport | string> {
+  try {
+    await transport.connect();
+    return transport;
+  } catch (err) {
+    return `no MQTT broker at ${MQTT_URL} (${err instanceof Error ? err.message : String(err)})`;
+  }
+}
@@ -0,0 +1,18 @@
+import { NatsTransport } from '../src/transports';
+
+// ============================================================================
+// Suites that need a nats-server (docker compose up nats) skip when none answers
+// ============================================================================
+export const NATS_URL = process.env.NATS_URL || 'nats://localhost:4222';
+
+/**
+ * connectNats - A connected NatsTransport, or the reason to skip when no server is reachable
+ */
+export async function connectNats(transport: NatsTransport = new NatsTransport(NATS_URL)): Promise<NatsTransport | string> {
+  try {
+    await transport.connect();
+    return transport;
+  } catch (err) {
+    return `no NATS server at ${NATS_URL} (${err instanceof Error ? err.message : String(err)})`;
+  }
+}
@@ -0,0 +1,282 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { CHANNELS } from '../src/channels';
+import { ENVELOPE_HEADERS } from '../src/headers';
+import { InboundEvent, OrdersServiceHarness } from './harness';
+
+// ============================================================================
+// OrdersService event flows, one describe block per handler in src/index.ts
+// ============================================================================
+const ORDER_ID = 'ORD-1001';
+
+function orderCreated(orderId: string = ORDER_ID, totalAmount: number = 59.98): InboundEvent {
+  return {
+    channel: CHANNELS.orderCreated,
+    payload: { orderId, userId: 'user-001', totalAmount, items: [{ itemId: 'ITEM-001', quantity: 2, price: totalAmount / 2 }] },
+  };
+}
+
+function paymentProcessed(orderId: string = ORDER_ID): InboundEvent {
+  return { channel: CHANNELS.paymentProcessed, payload: { orderId, paymentId: 'PAY-1', status: 'completed' } };
+}
+
+function paymentFailed(orderId: string = ORDER_ID, failureReason: string = 'Card declined'): InboundEvent {
+  return { channel: CHANNELS.paymentFailed, payload: { orderId, paymentId: 'PAY-1', failureReason } };
+}
+
+function inventoryReserved(orderId: string = ORDER_ID): InboundEvent {
+  return {
+    channel: CHANNELS.inventoryReserved,
+    payload: { orderId, reservationId: 'RES-1', items: [{ itemId: 'ITEM-001', quantity: 2 }] },
+  };
+}
+
+function orderShipped(orderId: string = ORDER_ID): InboundEvent {
+  return {
+    channel: CHANNELS.orderShipped,
+    payload: { orderId, shipmentId: 'SHP-1', shipmentTime: '2026-01-01T01:00:00.000Z', carrier: 'UPS' },
+  };
+}
+
+function shipmentDelivered(orderId: string = ORDER_ID): InboundEvent {
+  return {
+    channel: CHANNELS.shipmentDelivered,
+    payload: { orderId, shipmentId: 'SHP-1', deliveryTime: '2026-01-02T09:30:00.000Z' },
+  };
+}
+
+let h: OrdersServiceHarness;
+
+beforeEach(async () => {
+  h = await OrdersServiceHarness.start();
+});
+
+afterEach(async () => {
+  await h.stop();
+});
+
+describe('onOrderCreated', () => {
+  test('registers a pending order at the current time', async () => {
+    await h.when(orderCreated());
+
+    h.thenNothingPublished();
+    const order = await h.order(ORDER_ID);
+    assert.equal(order?.status, 'pending');
+    assert.equal(order?.totalAmount, 59.98);
+    assert.deepEqual(order?.createdAt, h.clock.now());
+  });
+
+  test('ignores a duplicate', async () => {
+    await h.given(orderCreated(ORDER_ID, 59.98));
+    h.clock.advance(60_000);
+
+    await h.when(orderCreated(ORDER_ID, 10));
+
+    h.thenNothingPublished();
+    const order = await h.order(ORDER_ID);
+    assert.equal(order?.totalAmount, 59.98);
+    assert.deepEqual(order?.createdAt, new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  test('dead-letters an event that breaks the contract', async () => {
+    await h.when({ channel: CHANNELS.orderCreated, payload: { orderId: ORDER_ID, totalAmount: 'free' } });
+
+    assert.match(h.thenDeadLettered(CHANNELS.orderCreated), /violates the contract/);
+    assert.equal(await h.order(ORDER_ID), undefined);
+  });
+});
+
+describe('onPaymentProcessed', () => {
+  test('keeps the order pending until inventory is reserved', async () => {
+    await h.given(orderCreated());
+
+    await h.when(paymentProcessed());
+
+    h.thenNothingPublished();
+    const order = await h.order(ORDER_ID);
+    assert.equal(order?.status, 'pending');
+    assert.equal(order?.paymentId, 'PAY-1');
+  });
+
+  test('confirms an order whose inventory is already reserved', async () => {
+    await h.given(orderCreated(), inventoryReserved());
+
+    await h.when(paymentProcessed());
+
+    h.thenNothingPublished();
+    assert.equal((await h.order(ORDER_ID))?.status, 'confirmed');
+  });
+
+  test('ignores a payment for an unknown order', async () => {
+    await h.when(paymentProcessed('ORD-UNKNOWN'));
+
+    h.thenNothingPublished();
+    assert.equal(await h.order('ORD-UNKNOWN'), undefined);
+  });
+});
+
+describe('onInventoryReserved', () => {
+  test('keeps the order pending until payment is processed', async () => {
+    await h.given(orderCreated());
+
+    await h.when(inventoryReserved());
+
+    h.thenNothingPublished();
+    const order = await h.order(ORDER_ID);
+    assert.equal(order?.status, 'pending');
+    assert.equal(order?.reservationId, 'RES-1');
+  });
+
+  test('confirms an order that is already paid', async () => {
+    await h.given(orderCreated(), paymentProcessed());
+
+    await h.when(inventoryReserved());
+
+    h.thenNothingPublished();
+    assert.equal((await h.order(ORDER_ID))?.status, 'confirmed');
+  });
+
+  test('ignores a reservation for an unknown order', async () => {
+    await h.when(inventoryReserved('ORD-UNKNOWN'));
+
+    h.thenNothingPublished();
+  });
+});
+
+describe('onPaymentFailed', () => {
+  test('cancels the order in the saga of the failed payment', async () => {
+    await h.given(orderCreated());
+    h.clock.advance(5_000);
+
+    await h.when({ ...paymentFailed(ORDER_ID, 'Card declined'), envelope: { messageId: 'payment-failed-1' } });
+
+    const [cancelled] = h.thenPublished(CHANNELS.orderCancelled, 1);
+    assert.deepEqual(cancelled.payload, { orderId: ORDER_ID, reason: 'Payment failed: Card declined' });
+    assert.equal(cancelled.headers[ENVELOPE_HEADERS.correlationId], ORDER_ID);
+    assert.equal(cancelled.headers[ENVELOPE_HEADERS.causationId], 'payment-failed-1');
+    assert.equal(cancelled.headers[ENVELOPE_HEADERS.timestamp], '2026-01-01T00:00:05.000Z');
+    assert.equal((await h.order(ORDER_ID))?.status, 'cancelled');
+  });
+
+  test('cancels only once when the failure is delivered twice', async () => {
+    await h.given(orderCreated());
+
+    await h.when(paymentFailed(), paymentFailed());
+
+    h.thenPublished(CHANNELS.orderCancelled, 1);
+  });
+
+  test('leaves a shipped order alone', async () => {
+    await h.given(orderCreated(), paymentProcessed(), inventoryReserved(), orderShipped());
+
+    await h.when(paymentFailed());
+
+    h.thenNothingPublished();
+    assert.equal((await h.order(ORDER_ID))?.status, 'shipped');
+  });
+
+  test('ignores a failure for an unknown order', async () => {
+    await h.when(paymentFailed('ORD-UNKNOWN'));
+
+    h.thenNothingPublished();
+  });
+});
+
+describe('onOrderShipped', () => {
+  test('marks a confirmed order shipped', async () => {
+    await h.given(orderCreated(), paymentProcessed(), inventoryReserved());
+
+    await h.when(orderShipped());
+
+    h.thenNothingPublished();
+    const order = await h.order(ORDER_ID);
+    assert.equal(order?.status, 'shipped');
+    assert.equal(order?.shipmentId, 'SHP-1');
+  });
+
+  test('does not ship an order that is not confirmed', async () => {
+    await h.given(orderCreated(), paymentProcessed());
+
+    await h.when(orderShipped());
+
+    h.thenNothingPublished();
+    const order = await h.order(ORDER_ID);
+    assert.equal(order?.status, 'pending');
+    assert.equal(order?.shipmentId, undefined);
+  });
+
+  test('ignores a shipment for an unknown order', async () => {
+    await h.when(orderShipped('ORD-UNKNOWN'));
+
+    h.thenNothingPublished();
+  });
+});
+
+describe('onShipmentDelivered', () => {
+  test('completes a shipped order at the current time', async () => {
+    await h.given(orderCreated(), paymentProcessed(), inventoryReserved(), orderShipped());
+    h.clock.advance(86_400_000);
+
+    await h.when(shipmentDelivered());
+
+    const [completed] = h.thenPublished(CHANNELS.orderCompleted, 1);
+    assert.deepEqual(completed.payload, { orderId: ORDER_ID, completionTime: '2026-01-02T00:00:00.000Z' });
+    assert.equal(completed.headers[ENVELOPE_HEADERS.correlationId], ORDER_ID);
+    assert.equal((await h.order(ORDER_ID))?.status, 'completed');
+  });
+
+  test('completes a confirmed order whose shipment notice never arrived', async () => {
+    await h.given(orderCreated(), paymentProcessed(), inventoryReserved());
+
+    await h.when(shipmentDelivered());
+
+    h.thenPublished(CHANNELS.orderCompleted, 1);
+    assert.equal((await h.order(ORDER_ID))?.status, 'completed');
+  });
+
+  test('refuses to complete a cancelled order', async () => {
+    await h.given(orderCreated(), paymentFailed());
+
+    await h.when(shipmentDelivered());
+
+    h.thenNothingPublished();
+    assert.equal((await h.order(ORDER_ID))?.status, 'cancelled');
+  });
+
+  test('ignores a delivery for an unknown order', async () => {
+    await h.when(shipmentDelivered('ORD-UNKNOWN'));
+
+    h.thenNothingPublished();
+  });
+});
+
+describe('cancelOrder', () => {
+  test('cancels a pending order and publishes OrderCancelled', async () => {
+    await h.given(orderCreated());
+
+    await h.service.cancelOrder(ORDER_ID, 'Customer request');
+
+    const [cancelled] = h.thenPublished(CHANNELS.orderCancelled, 1);
+    assert.deepEqual(cancelled.payload, { orderId: ORDER_ID, reason: 'Customer request' });
+    assert.equal((await h.order(ORDER_ID))?.status, 'cancelled');
+  });
+
+  test('publishes one OrderCancelled when a payment failure races the cancellation', async () => {
+    await h.given(orderCreated());
+
+    const [cancel] = await Promise.allSettled([h.service.cancelOrder(ORDER_ID, 'Customer request'), h.when(paymentFailed())]);
+
+    h.thenPublished(CHANNELS.orderCancelled, 1);
+    assert.equal((await h.order(ORDER_ID))?.status, 'cancelled');
+    if (cancel.status === 'rejected') assert.equal(cancel.reason.name, 'IllegalTransitionError');
+  });
+
+  test('rejects a shipped order without publishing', async () => {
+    await h.given(orderCreated(), paymentProcessed(), inventoryReserved(), orderShipped());
+
+    await assert.rejects(h.service.cancelOrder(ORDER_ID, 'Customer request'), { name: 'IllegalTransitionError' });
+
+    h.thenNothingPublished();
+    assert.equal((await h.order(ORDER_ID))?.status, 'shipped');
+  });
+});
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { RETRY_POLICIES, retryPolicies, retryPoliciesFromEnv } from '../src/retry';
+
+// ============================================================================
+// Retry policy configuration
+// ============================================================================
+describe('retryPolicies', () => {
+  test('applies overrides to the operations they name only', () => {
+    const policies = retryPolicies({ receiveOrderCreated: { maxAttempts: 8 } });
+
+    assert.deepEqual(policies.receiveOrderCreated, { ...RETRY_POLICIES.receiveOrderCreated, maxAttempts: 8 });
+    assert.deepEqual(policies.receivePaymentFailed, RETRY_POLICIES.receivePaymentFailed);
+  });
+});
+
+describe('retryPoliciesFromEnv', () => {
+  test('applies the RETRY_* variables to every operation', () => {
+    const policies = retryPolicies(retryPoliciesFromEnv({ RETRY_MAX_ATTEMPTS: '7', RETRY_INITIAL_DELAY_MS: '50' }));
+
+    for (const policy of Object.values(policies)) {
+      assert.equal(policy.maxAttempts, 7);
+      assert.equal(policy.initialDelayMs, 50);
+    }
+  });
+
+  test('changes nothing when no variable is set', () => {
+    assert.deepEqual(retryPolicies(retryPoliciesFromEnv({})), RETRY_POLICIES);
+  });
+
+  test('rejects values that are not numbers', () => {
+    assert.throws(() => retryPoliciesFromEnv({ RETRY_MAX_ATTEMPTS: 'often' }), /RETRY_MAX_ATTEMPTS must be a positive integer/);
+    assert.throws(() => retryPoliciesFromEnv({ RETRY_MAX_DELAY_MS: '-1' }), /RETRY_MAX_DELAY_MS must be a non-negative number/);
+  });
+});
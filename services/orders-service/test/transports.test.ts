@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { CHANNELS } from '../src/channels';
+import { DLQ_HEADERS, dlqSubject } from '../src/dlq';
+import { createEnvelope, messageHeaders } from '../src/headers';
+import { receivePaymentProcessed } from '../src/__gen__/channels';
+import { TransportRuntime } from '../src/channel-runtime';
+import { PaymentProcessed } from '../src/__gen__/payloads/PaymentProcessed';
+import { RetryPolicy } from '../src/retry';
+import { HeaderMap, InboundMessage, MessageTransport } from '../src/transports';
+import { connectMqtt } from './mqtt';
+import { connectNats } from './nats';
+
+// ============================================================================
+// NatsTransport and MqttTransport against a real broker, each suite skipped without one.
+// Stop the orders-service first, it subscribes to the same channels.
+// ============================================================================
+const FAST_RETRY: RetryPolicy = { maxAttempts: 2, initialDelayMs: 10, backoffFactor: 1, maxDelayMs: 10 };
+const SUBSCRIBE_DELAY_MS = 250;  // MqttTransport subscribes in the background
+const encoder = new TextEncoder();
+
+const BROKERS: Array<{ name: string; connect: () => Promise<MessageTransport | string> }> = [
+  { name: 'NatsTransport', connect: () => connectNats() },
+  { name: 'MqttTransport', connect: () => connectMqtt() },
+];
+
+function until<T>(promise: Promise<T>, what: string, ms: number = 5000): Promise<T> {
+  return Promise.race([promise, new Promise<never>((_, reject) => setTimeout(() => reject(new Error(`${what} within ${ms}ms`)), ms))]);
+}
+
+function subscribed(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, SUBSCRIBE_DELAY_MS));
+}
+
+/**
+ * nextMessage - The first message delivered on a channel, subscribing right away
+ */
+function nextMessage(transport: MessageTransport, channel: string): Promise<InboundMessage> {
+  return new Promise(resolve => {
+    const sub = transport.subscribe(channel, async msg => {
+      sub.unsubscribe();
+      resolve(msg);
+    });
+  });
+}
+
+for (const broker of BROKERS) {
+  describe(`${broker.name} against a broker`, () => {
+    // Two connections, so nothing reaches the subscriber without going through the broker
+    let publisher: MessageTransport | undefined;
+    let subscriber: MessageTransport | undefined;
+    let skip: string | undefined;
+    let sequence = 0;
+
+    before(async () => {
+      const connected = await broker.connect();
+      if (typeof connected === 'string') {
+        skip = connected;
+        return;
+      }
+      publisher = connected;
+      const second = await broker.connect();
+      if (typeof second === 'string') {
+        skip = second;
+        return;
+      }
+      subscriber = second;
+    });
+
+    after(async () => {
+      await publisher?.close();
+      await subscriber?.close();
+    });
+
+    test('delivers a message with its headers', async t => {
+      if (skip) return t.skip(skip);
+      const channel = `transport-test.${Date.now()}.${++sequence}`;
+      const delivery = nextMessage(subscriber!, channel);
+      await subscribed();
+
+      await publisher!.publish(channel, encoder.encode('{"ping":1}'), new HeaderMap({ 'message-id': 'msg-1', 'ec-message-type': 'event' }));
+      const msg = await until(delivery, 'expected the message');
+
+      assert.equal(msg.subject, channel);
+      assert.equal(new TextDecoder().decode(msg.data), '{"ping":1}');
+      assert.equal(msg.headers?.get('message-id'), 'msg-1');
+      assert.equal(msg.headers?.get('ec-message-type'), 'event');
+    });
+
+    test('hands a received operation its payload and envelope', async t => {
+      if (skip) return t.skip(skip);
+      const orderId = `TRANSPORT-TEST-${Date.now()}-${++sequence}`;
+      const envelope = createEnvelope(orderId);
+      let resolveReceived: (received: [PaymentProcessed, string | undefined]) => void;
+      const received = new Promise<[PaymentProcessed, string | undefined]>(resolve => { resolveReceived = resolve; });
+      const sub = receivePaymentProcessed(new TransportRuntime(subscriber!), async (data, { correlationId }) => {
+        if (data.orderId === orderId) resolveReceived([data, correlationId]);
+      }, FAST_RETRY);
+      await subscribed();
+
+      try {
+        const payment = new PaymentProcessed({ orderId, paymentId: 'PAY-1', status: 'completed' });
+        await publisher!.publish(
+          CHANNELS.paymentProcessed,
+          encoder.encode(payment.marshal()),
+          messageHeaders(CHANNELS.paymentProcessed, 'PaymentProcessed', envelope)
+        );
+        const [data, correlationId] = await until(received, 'expected the PaymentProcessed handler to run');
+
+        assert.deepEqual(data.toJSON(), payment.toJSON());
+        assert.equal(correlationId, envelope.correlationId);
+      } finally {
+        sub.unsubscribe();
+      }
+    });
+
+    test('dead-letters a message that breaks the contract through the broker', async t => {
+      if (skip) return t.skip(skip);
+      const orderId = `TRANSPORT-TEST-${Date.now()}-${++sequence}`;
+      const deadLetter = nextMessage(publisher!, dlqSubject(CHANNELS.paymentProcessed));
+      const sub = receivePaymentProcessed(new TransportRuntime(subscriber!), async () => {
+        assert.fail('the handler should not see an invalid message');
+      }, FAST_RETRY);
+      await subscribed();
+
+      try {
+        await publisher!.publish(
+          CHANNELS.paymentProcessed,
+          encoder.encode(JSON.stringify({ orderId, paymentId: 42, status: 'completed' })),
+          messageHeaders(CHANNELS.paymentProcessed, 'PaymentProcessed', createEnvelope(orderId))
+        );
+        const letter = await until(deadLetter, 'expected a dead letter');
+
+        assert.equal(letter.headers?.get(DLQ_HEADERS.originalSubject), CHANNELS.paymentProcessed);
+        assert.equal(letter.headers?.get(DLQ_HEADERS.attempts), '1');
+        assert.match(letter.headers?.get(DLQ_HEADERS.error) ?? '', /\/paymentId must be string/);
+      } finally {
+        sub.unsubscribe();
+      }
+    });
+
+    test('stops delivering once the last subscription is gone', async t => {
+      if (skip) return t.skip(skip);
+      const channel = `transport-test.${Date.now()}.${++sequence}`;
+      let deliveries = 0;
+      const sub = subscriber!.subscribe(channel, async () => { deliveries++; });
+      await subscribed();
+      sub.unsubscribe();
+      await subscribed();
+
+      const probe = nextMessage(publisher!, channel);
+      await subscribed();
+      await publisher!.publish(channel, encoder.encode('{}'));
+      await until(probe, 'expected the publisher to see its own message');
+
+      assert.equal(deliveries, 0);
+    });
+  });
+}
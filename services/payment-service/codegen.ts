@@ -0,0 +1,31 @@
+import { CodegenConfiguration } from '../../tools/spec-tools/src/codegen';
+import { handlersPreset } from '../../tools/spec-tools/src/handlers';
+const config: CodegenConfiguration = {
+  inputPath: "../../eventcatalog/asyncapi-files/payment-service.yml",
+  generators: [
+    {
+      preset: "types",
+      outputPath: "src/__gen__/types"
+    },
+    {
+      preset: "payloads",
+      outputPath: "src/__gen__/payloads"
+    },
+    {
+      preset: "headers",
+      outputPath: "src/__gen__/headers"
+    },
+    {
+      preset: "parameters",
+      outputPath: "src/__gen__/parameters"
+    },
+    {
+      preset: "channels",
+      outputPath: "src/__gen__/channels",
+    },
+    handlersPreset({
+      outputPath: "src/__gen__/handlers"
+    })
+  ]
+};
+export default config;
@@ -0,0 +1,111 @@
+// Generated by the channels preset of tools/spec-tools from payment-service.yml, do not edit
+import { PAYMENT_FAILED_HEADER_DEFAULTS } from '../headers/PaymentFailedHeaders';
+import { PAYMENT_PROCESSED_HEADER_DEFAULTS } from '../headers/PaymentProcessedHeaders';
+import { REFUND_INITIATED_HEADER_DEFAULTS } from '../headers/RefundInitiatedHeaders';
+import { OrderCancelled } from '../payloads/OrderCancelled';
+import { OrderCreated } from '../payloads/OrderCreated';
+import { PaymentFailed } from '../payloads/PaymentFailed';
+import { PaymentProcessed } from '../payloads/PaymentProcessed';
+import { RefundInitiated } from '../payloads/RefundInitiated';
+
+// A model class of the payloads preset
+export interface ChannelPayload {
+  toJSON(): Record<string, unknown>;
+  marshal(): string;
+}
+
+export interface SendOperation {
+  operationId: string;
+  channel: string;                  // Channel address
+  messageName: string;
+  headers: Record<string, string>;  // The header defaults the spec gives the message, e.g. ec-message-type
+}
+
+export interface ReceiveOperation<T> {
+  operationId: string;
+  channel: string;
+  messageName: string;
+  unmarshal(json: string | object): T;
+}
+
+export interface ChannelSubscription {
+  unsubscribe(): void;
+}
+
+/**
+ * ChannelRuntime - What the operations below send and receive through. The service decides
+ * how: the broker, validation, retries and dead-lettering, and what the envelope `E` of a
+ * message and the options `O` of a receive operation are. A handler that throws fails the message.
+ */
+export interface ChannelRuntime<E = unknown, O = unknown> {
+  send(operation: SendOperation, message: ChannelPayload, envelope?: E): Promise<void>;
+  receive<T>(operation: ReceiveOperation<T>, handler: (message: T, envelope: Partial<E>) => Promise<void>, options?: O): ChannelSubscription;
+}
+
+/**
+ * receiveOrderCreated - Hands every OrderCreated on order.created to `handler`
+ */
+export function receiveOrderCreated<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: OrderCreated, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receiveOrderCreated',
+    channel: 'order.created',
+    messageName: 'OrderCreated',
+    unmarshal: OrderCreated.unmarshal,
+  }, handler, options);
+}
+
+/**
+ * sendPaymentProcessed - Sends PaymentProcessed on payment.processed
+ */
+export function sendPaymentProcessed<E>(runtime: ChannelRuntime<E>, message: PaymentProcessed, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendPaymentProcessed',
+    channel: 'payment.processed',
+    messageName: 'PaymentProcessed',
+    headers: PAYMENT_PROCESSED_HEADER_DEFAULTS,
+  }, message, envelope);
+}
+
+/**
+ * sendPaymentFailed - Sends PaymentFailed on payment.failed
+ */
+export function sendPaymentFailed<E>(runtime: ChannelRuntime<E>, message: PaymentFailed, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendPaymentFailed',
+    channel: 'payment.failed',
+    messageName: 'PaymentFailed',
+    headers: PAYMENT_FAILED_HEADER_DEFAULTS,
+  }, message, envelope);
+}
+
+/**
+ * receiveOrderCancelled - Hands every OrderCancelled on order.cancelled to `handler`
+ */
+export function receiveOrderCancelled<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handler: (message: OrderCancelled, envelope: Partial<E>) => Promise<void>,
+  options?: O
+): ChannelSubscription {
+  return runtime.receive({
+    operationId: 'receiveOrderCancelled',
+    channel: 'order.cancelled',
+    messageName: 'OrderCancelled',
+    unmarshal: OrderCancelled.unmarshal,
+  }, handler, options);
+}
+
+/**
+ * sendRefundInitiated - Sends RefundInitiated on refund.initiated
+ */
+export function sendRefundInitiated<E>(runtime: ChannelRuntime<E>, message: RefundInitiated, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendRefundInitiated',
+    channel: 'refund.initiated',
+    messageName: 'RefundInitiated',
+    headers: REFUND_INITIATED_HEADER_DEFAULTS,
+  }, message, envelope);
+}
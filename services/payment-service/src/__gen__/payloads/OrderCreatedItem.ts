@@ -0,0 +1,45 @@
+// Generated by the payloads preset of tools/spec-tools from payment-service.yml, do not edit
+import { readInteger, readNumber, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface OrderCreatedItemProps {
+  itemId: string;
+  quantity: number;
+  price: number;
+}
+
+export class OrderCreatedItem {
+  private _itemId: string;
+  private _quantity: number;
+  private _price: number;
+
+  constructor(props: OrderCreatedItemProps) {
+    this._itemId = props.itemId;
+    this._quantity = props.quantity;
+    this._price = props.price;
+  }
+
+  get itemId(): string { return this._itemId; }
+  get quantity(): number { return this._quantity; }
+  get price(): number { return this._price; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      itemId: this._itemId,
+      quantity: this._quantity,
+      price: this._price,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): OrderCreatedItem {
+    const obj = toWireObject(json, 'OrderCreatedItem');
+    return new OrderCreatedItem({
+      itemId: readString(obj, 'itemId', 'OrderCreatedItem'),
+      quantity: readInteger(obj, 'quantity', 'OrderCreatedItem'),
+      price: readNumber(obj, 'price', 'OrderCreatedItem'),
+    });
+  }
+}
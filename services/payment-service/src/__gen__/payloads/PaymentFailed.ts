@@ -0,0 +1,45 @@
+// Generated by the payloads preset of tools/spec-tools from payment-service.yml, do not edit
+import { readString, toWireObject } from 'service-kit/src/wire';
+
+export interface PaymentFailedProps {
+  paymentId: string;
+  orderId: string;
+  failureReason: string;
+}
+
+export class PaymentFailed {
+  private _paymentId: string;
+  private _orderId: string;
+  private _failureReason: string;
+
+  constructor(props: PaymentFailedProps) {
+    this._paymentId = props.paymentId;
+    this._orderId = props.orderId;
+    this._failureReason = props.failureReason;
+  }
+
+  get paymentId(): string { return this._paymentId; }
+  get orderId(): string { return this._orderId; }
+  get failureReason(): string { return this._failureReason; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      paymentId: this._paymentId,
+      orderId: this._orderId,
+      failureReason: this._failureReason,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): PaymentFailed {
+    const obj = toWireObject(json, 'PaymentFailed');
+    return new PaymentFailed({
+      paymentId: readString(obj, 'paymentId', 'PaymentFailed'),
+      orderId: readString(obj, 'orderId', 'PaymentFailed'),
+      failureReason: readString(obj, 'failureReason', 'PaymentFailed'),
+    });
+  }
+}
@@ -0,0 +1,21 @@
+// Generated by the types preset of tools/spec-tools from payment-service.yml, do not edit
+
+// The address of every channel, by channel id
+export const CHANNEL_ADDRESSES = {
+  orderCreated: 'order.created',
+  paymentProcessed: 'payment.processed',
+  paymentFailed: 'payment.failed',
+  orderCancelled: 'order.cancelled',
+  refundInitiated: 'refund.initiated',
+} as const;
+
+export type ChannelId = keyof typeof CHANNEL_ADDRESSES;
+export type ChannelAddress = (typeof CHANNEL_ADDRESSES)[ChannelId];
+
+export type SendOperationId =
+  | 'sendPaymentProcessed'
+  | 'sendPaymentFailed'
+  | 'sendRefundInitiated';
+export type ReceiveOperationId =
+  | 'receiveOrderCreated'
+  | 'receiveOrderCancelled';
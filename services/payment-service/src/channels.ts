@@ -0,0 +1,13 @@
+// ============================================================================
+// Channels (keys are AsyncAPI channel IDs, values are NATS subjects)
+// ============================================================================
+export const CHANNELS = {
+  // Channels this service PUBLISHES to
+  paymentProcessed: 'payment.processed',
+  paymentFailed: 'payment.failed',
+  refundInitiated: 'refund.initiated',
+
+  // Channels this service SUBSCRIBES to
+  orderCreated: 'order.created',
+  orderCancelled: 'order.cancelled',
+} as const;
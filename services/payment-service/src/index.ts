@@ -0,0 +1,237 @@
+import { connect, NatsConnection, Subscription } from 'nats';
+
+import { CHANNELS } from './channels';
+import { PaymentProcessed } from './models/PaymentProcessed';
+import { PaymentFailed } from './models/PaymentFailed';
+import { RefundInitiated } from './models/RefundInitiated';
+import { OrderCreated } from './models/OrderCreated';
+import { OrderCancelled } from './models/OrderCancelled';
+import {
+  sendPaymentProcessed,
+  sendPaymentFailed,
+  sendRefundInitiated,
+  receiveOrderCreated,
+  receiveOrderCancelled,
+} from './nats';
+import { Ledger, OrderPayment } from './ledger';
+import { ACCOUNTS_PATH, ChargeResult, FakePaymentProvider, PaymentProvider, loadAccounts } from './provider';
+import { MessageEnvelope, createEnvelope } from './headers';
+import { Logger, logger } from './logger';
+
+// ============================================================================
+// Payment Service Implementation
+// ============================================================================
+export class PaymentService {
+  private subscriptions: Subscription[] = [];
+  private running = true;
+  private cancelledWhileCharging = new Map<string, Partial<MessageEnvelope>>();  // Envelope of the order.cancelled by orderId
+
+  // `nc` is an open connection to use instead of connect(), e.g. a test double
+  constructor(
+    private readonly ledger: Ledger,
+    private readonly provider: PaymentProvider,
+    private nc: NatsConnection | null = null,
+  ) {}
+
+  async connect(natsUrl: string = 'nats://localhost:4222'): Promise<void> {
+    logger.info(`🔌 Connecting to NATS at ${natsUrl}...`);
+    this.nc = await connect({ servers: natsUrl });
+    logger.info(`✅ Connected to NATS server: ${this.nc.getServer()}`);
+  }
+
+  async disconnect(): Promise<void> {
+    this.running = false;
+    for (const sub of this.subscriptions) {
+      sub.unsubscribe();
+    }
+    this.subscriptions = [];
+
+    if (this.nc) {
+      await this.nc.drain();
+      logger.info('👋 Disconnected from NATS');
+    }
+  }
+
+  // =========================================================================
+  // Handlers (Business Logic)
+  // =========================================================================
+
+  /**
+   * handleOrderCreated - Charges the order total through the payment provider.
+   * The ledger takes the order before the provider is asked, so an overlapping
+   * redelivery of the same order is not charged twice.
+   */
+  handleOrderCreated = async (data: OrderCreated, envelope: Partial<MessageEnvelope>): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.orderCreated, 'receiveOrderCreated', data.orderId, envelope);
+    log.debug('📥 OrderCreated received', { payload: data });
+
+    const existing = this.ledger.get(data.orderId);
+    if (existing) {
+      log.warn(`⚠️  Order ${data.orderId} was already charged (${existing.status}), ignoring duplicate`);
+      return;
+    }
+
+    this.ledger.begin(data.orderId, data.userId, data.totalAmount);
+    let result: ChargeResult;
+    try {
+      result = await this.provider.charge({ orderId: data.orderId, userId: data.userId, amount: data.totalAmount });
+    } catch (err) {
+      this.ledger.abandon(data.orderId);
+      throw err;
+    }
+    const reply = createEnvelope(data.orderId, envelope);
+    const cancellation = this.cancelledWhileCharging.get(data.orderId);
+    this.cancelledWhileCharging.delete(data.orderId);
+
+    if (result.approved) {
+      const payment = this.ledger.recordCharge(data.orderId, result.paymentId);
+      log.info(`💳 Charged $${data.totalAmount.toFixed(2)} to ${data.userId} for order ${data.orderId}`);
+      this.publish(nc => sendPaymentProcessed(nc, new PaymentProcessed({
+        orderId: data.orderId,
+        paymentId: result.paymentId,
+        status: 'completed',
+      }), reply));
+
+      if (cancellation) {
+        log.info(`↩️  Order ${data.orderId} was cancelled while it was being charged`);
+        await this.refund(payment, cancellation, log);
+      }
+    } else {
+      const reason = result.reason ?? 'Declined';
+      this.ledger.recordDecline(data.orderId, result.paymentId, reason);
+      log.warn(`❌ Payment of $${data.totalAmount.toFixed(2)} declined for order ${data.orderId}: ${reason}`);
+      this.publish(nc => sendPaymentFailed(nc, new PaymentFailed({
+        paymentId: result.paymentId,
+        orderId: data.orderId,
+        failureReason: reason,
+      }), reply));
+    }
+  };
+
+  /**
+   * handleOrderCancelled - Refunds the order in full when it was paid, or once it is
+   * paid when the charge is still pending
+   */
+  handleOrderCancelled = async (data: OrderCancelled, envelope: Partial<MessageEnvelope>): Promise<void> => {
+    const log = this.messageLogger(CHANNELS.orderCancelled, 'receiveOrderCancelled', data.orderId, envelope);
+    log.debug('📥 OrderCancelled received', { payload: data });
+
+    const payment = this.ledger.get(data.orderId);
+    if (payment?.status === 'pending') {
+      log.info(`⏳ Order ${data.orderId} is being charged, refunding once the charge completes`);
+      this.cancelledWhileCharging.set(data.orderId, envelope);
+      return;
+    }
+    if (!payment || payment.status !== 'paid') {
+      log.info(`ℹ️  Order ${data.orderId} is ${payment?.status ?? 'unpaid'}, nothing to refund`);
+      return;
+    }
+
+    await this.refund(payment, envelope, log);
+  };
+
+  /**
+   * Refunds a paid order in full, in reaction to the order.cancelled with envelope `cause`
+   */
+  private async refund(payment: OrderPayment, cause: Partial<MessageEnvelope>, log: Logger): Promise<void> {
+    const { refundId } = await this.provider.refund({
+      paymentId: payment.paymentId,
+      userId: payment.userId,
+      amount: payment.amount,
+    });
+    this.ledger.recordRefund(payment.orderId, refundId);
+    log.info(`💸 Refunding $${payment.amount.toFixed(2)} to ${payment.userId} for order ${payment.orderId}`);
+    this.publish(nc => sendRefundInitiated(nc, new RefundInitiated({
+      refundId,
+      paymentId: payment.paymentId,
+      orderId: payment.orderId,
+      amount: payment.amount,
+    }), createEnvelope(payment.orderId, cause)));
+  }
+
+  // =========================================================================
+  // Publishing helpers
+  // =========================================================================
+
+  private publish(send: (nc: NatsConnection) => void): void {
+    if (!this.nc) throw new Error('Not connected to NATS');
+    send(this.nc);
+  }
+
+  /**
+   * Logger for one inbound message, carrying its channel, operation, orderId and correlation id
+   */
+  private messageLogger(channel: string, operation: string, orderId: string, envelope: Partial<MessageEnvelope>): Logger {
+    return logger.child({ channel, operation, orderId, correlationId: envelope.correlationId });
+  }
+
+  // =========================================================================
+  // Subscription setup
+  // =========================================================================
+
+  setupSubscriptions(): void {
+    if (!this.nc) throw new Error('Not connected to NATS');
+
+    this.subscriptions.push(receiveOrderCreated(this.nc, this.handleOrderCreated));
+    this.subscriptions.push(receiveOrderCancelled(this.nc, this.handleOrderCancelled));
+  }
+
+  // =========================================================================
+  // Service runner
+  // =========================================================================
+
+  async run(): Promise<void> {
+    if (!logger.isJson()) {
+      console.log('\n' + '═'.repeat(60));
+      console.log('  💳 PAYMENT SERVICE');
+      console.log(`  Charging and refunding orders through the ${this.provider.name} provider`);
+      console.log('═'.repeat(60));
+    }
+
+    this.setupSubscriptions();
+    logger.info('✅ Payment Service is running. Waiting for events...');
+
+    // Periodic ledger report (every 30 seconds)
+    let lastReport = Date.now();
+    while (this.running) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (Date.now() - lastReport >= 30000) {
+        lastReport = Date.now();
+        const counts = this.ledger.countByStatus();
+        logger.info(`📊 Payments: ${counts.pending} pending, ${counts.paid} paid, ${counts.failed} failed, ${counts.refunded} refunded`);
+      }
+    }
+  }
+}
+
+async function main() {
+  const natsUrl = process.env.NATS_URL || 'nats://localhost:4222';
+
+  try {
+    const config = loadAccounts();
+    logger.info(`🗂️  Loaded ${config.accounts.length} account(s) from ${ACCOUNTS_PATH}`);
+    const service = new PaymentService(new Ledger(), new FakePaymentProvider(config));
+    await service.connect(natsUrl);
+
+    // Handle graceful shutdown
+    const shutdown = async () => {
+      logger.info('🛑 Shutting down Payment Service...');
+      await service.disconnect();
+      process.exit(0);
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    await service.run();
+
+  } catch (err) {
+    logger.error('❌ Failed to start Payment Service', { err });
+    process.exit(1);
+  }
+}
+
+// Imported by the tests, which drive the service themselves
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,99 @@
+// ============================================================================
+// Ledger of what each order was charged and refunded
+// ============================================================================
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+
+export type LedgerEntry =
+  | { type: 'charge'; paymentId: string; amount: number; at: Date }
+  | { type: 'decline'; paymentId: string; amount: number; reason: string; at: Date }
+  | { type: 'refund'; refundId: string; paymentId: string; amount: number; at: Date };
+
+export interface OrderPayment {
+  orderId: string;
+  userId: string;
+  amount: number;
+  paymentId?: string;      // Once the provider answered
+  status: PaymentStatus;
+  entries: LedgerEntry[];  // Oldest first
+}
+
+/**
+ * LedgerError - An entry that does not fit the order's payment so far, e.g. refunding an unpaid order
+ */
+export class LedgerError extends Error {
+  constructor(public readonly orderId: string, message: string) {
+    super(`Order ${orderId}: ${message}`);
+    this.name = 'LedgerError';
+  }
+}
+
+/**
+ * Ledger - One payment per order: begun before the provider is asked, so a redelivered
+ * order sees it is taken, then charged or declined once and refunded at most once
+ */
+export class Ledger {
+  private payments = new Map<string, OrderPayment>();  // By orderId
+
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  get(orderId: string): OrderPayment | undefined {
+    return this.payments.get(orderId);
+  }
+
+  list(): OrderPayment[] {
+    return Array.from(this.payments.values());
+  }
+
+  countByStatus(): Record<PaymentStatus, number> {
+    const counts: Record<PaymentStatus, number> = { pending: 0, paid: 0, failed: 0, refunded: 0 };
+    for (const payment of this.payments.values()) counts[payment.status]++;
+    return counts;
+  }
+
+  /**
+   * begin - Takes the order for a charge that is about to be made
+   */
+  begin(orderId: string, userId: string, amount: number): OrderPayment {
+    if (this.payments.has(orderId)) throw new LedgerError(orderId, 'already has a payment');
+    const payment: OrderPayment = { orderId, userId, amount, status: 'pending', entries: [] };
+    this.payments.set(orderId, payment);
+    return payment;
+  }
+
+  /**
+   * abandon - Drops a pending payment whose charge never reached the provider,
+   * so a redelivery of the order can charge it
+   */
+  abandon(orderId: string): void {
+    if (this.payments.get(orderId)?.status === 'pending') this.payments.delete(orderId);
+  }
+
+  private settle(orderId: string, paymentId: string, status: PaymentStatus, entry: (amount: number) => LedgerEntry): OrderPayment {
+    const payment = this.payments.get(orderId);
+    if (!payment) throw new LedgerError(orderId, 'has no pending payment');
+    if (payment.status !== 'pending') throw new LedgerError(orderId, `already has a payment that is ${payment.status}`);
+
+    payment.paymentId = paymentId;
+    payment.status = status;
+    payment.entries.push(entry(payment.amount));
+    return payment;
+  }
+
+  recordCharge(orderId: string, paymentId: string): OrderPayment {
+    return this.settle(orderId, paymentId, 'paid', amount => ({ type: 'charge', paymentId, amount, at: this.now() }));
+  }
+
+  recordDecline(orderId: string, paymentId: string, reason: string): OrderPayment {
+    return this.settle(orderId, paymentId, 'failed', amount => ({ type: 'decline', paymentId, amount, reason, at: this.now() }));
+  }
+
+  recordRefund(orderId: string, refundId: string): OrderPayment {
+    const payment = this.payments.get(orderId);
+    if (!payment) throw new LedgerError(orderId, 'has no payment to refund');
+    if (payment.status !== 'paid') throw new LedgerError(orderId, `cannot refund a payment that is ${payment.status}`);
+
+    payment.entries.push({ type: 'refund', refundId, paymentId: payment.paymentId, amount: payment.amount, at: this.now() });
+    payment.status = 'refunded';
+    return payment;
+  }
+}
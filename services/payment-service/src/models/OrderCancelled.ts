@@ -0,0 +1,39 @@
+import { readString, toWireObject } from 'service-kit/src/wire';
+
+// The reason is left out by some senders, a refund does not depend on it
+export interface OrderCancelledProps {
+  orderId: string;
+  reason?: string;
+}
+
+export class OrderCancelled {
+  private _orderId: string;
+  private _reason?: string;
+
+  constructor(props: OrderCancelledProps) {
+    this._orderId = props.orderId;
+    this._reason = props.reason;
+  }
+
+  get orderId(): string { return this._orderId; }
+  get reason(): string | undefined { return this._reason; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      orderId: this._orderId,
+      reason: this._reason,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): OrderCancelled {
+    const obj = toWireObject(json, 'OrderCancelled');
+    return new OrderCancelled({
+      orderId: readString(obj, 'orderId', 'OrderCancelled'),
+      reason: obj.reason === undefined ? undefined : readString(obj, 'reason', 'OrderCancelled'),
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { readString, toWireObject } from 'service-kit/src/wire';
+
+export interface PaymentProcessedProps {
+  orderId: string;
+  paymentId: string;
+  status: string;
+}
+
+export class PaymentProcessed {
+  private _orderId: string;
+  private _paymentId: string;
+  private _status: string;
+
+  constructor(props: PaymentProcessedProps) {
+    this._orderId = props.orderId;
+    this._paymentId = props.paymentId;
+    this._status = props.status;
+  }
+
+  get orderId(): string { return this._orderId; }
+  get paymentId(): string { return this._paymentId; }
+  get status(): string { return this._status; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      orderId: this._orderId,
+      paymentId: this._paymentId,
+      status: this._status,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): PaymentProcessed {
+    const obj = toWireObject(json, 'PaymentProcessed');
+    return new PaymentProcessed({
+      orderId: readString(obj, 'orderId', 'PaymentProcessed'),
+      paymentId: readString(obj, 'paymentId', 'PaymentProcessed'),
+      status: readString(obj, 'status', 'PaymentProcessed'),
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { readNumber, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface RefundInitiatedProps {
+  refundId: string;
+  paymentId: string;
+  orderId: string;
+  amount: number;
+}
+
+export class RefundInitiated {
+  private _refundId: string;
+  private _paymentId: string;
+  private _orderId: string;
+  private _amount: number;
+
+  constructor(props: RefundInitiatedProps) {
+    this._refundId = props.refundId;
+    this._paymentId = props.paymentId;
+    this._orderId = props.orderId;
+    this._amount = props.amount;
+  }
+
+  get refundId(): string { return this._refundId; }
+  get paymentId(): string { return this._paymentId; }
+  get orderId(): string { return this._orderId; }
+  get amount(): number { return this._amount; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      refundId: this._refundId,
+      paymentId: this._paymentId,
+      orderId: this._orderId,
+      amount: this._amount,
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): RefundInitiated {
+    const obj = toWireObject(json, 'RefundInitiated');
+    return new RefundInitiated({
+      refundId: readString(obj, 'refundId', 'RefundInitiated'),
+      paymentId: readString(obj, 'paymentId', 'RefundInitiated'),
+      orderId: readString(obj, 'orderId', 'RefundInitiated'),
+      amount: readNumber(obj, 'amount', 'RefundInitiated'),
+    });
+  }
+}
@@ -0,0 +1,106 @@
+import { NatsConnection, Subscription } from 'nats';
+import { natsSubscriptions } from 'service-kit/src/nats';
+import { CHANNELS } from './channels';
+import { PaymentProcessed } from './models/PaymentProcessed';
+import { PaymentFailed } from './models/PaymentFailed';
+import { RefundInitiated } from './models/RefundInitiated';
+import { OrderCreated } from './models/OrderCreated';
+import { OrderCancelled } from './models/OrderCancelled';
+import { validatePayload } from './validation';
+import { MessageEnvelope, createEnvelope, messageHeaders } from './headers';
+import { logger } from './logger';
+
+export const { decodeValidated, subscribe } = natsSubscriptions(validatePayload, logger);
+
+// ============================================================================
+// Send (Publish) Functions
+// ============================================================================
+
+/**
+ * sendPaymentProcessed - Publishes PaymentProcessed event
+ * Channel: payment.processed
+ */
+export function sendPaymentProcessed(
+  nc: NatsConnection,
+  data: PaymentProcessed,
+  envelope: MessageEnvelope = createEnvelope(data.orderId)
+): void {
+  validatePayload(CHANNELS.paymentProcessed, 'PaymentProcessed', data.toJSON(), 'send');
+  nc.publish(CHANNELS.paymentProcessed, data.marshal(), {
+    headers: messageHeaders(CHANNELS.paymentProcessed, 'PaymentProcessed', envelope),
+  });
+  logger.info('📤 PaymentProcessed sent', {
+    channel: CHANNELS.paymentProcessed,
+    operation: 'sendPaymentProcessed',
+    orderId: data.orderId,
+    correlationId: envelope.correlationId,
+  });
+}
+
+/**
+ * sendPaymentFailed - Publishes PaymentFailed event
+ * Channel: payment.failed
+ */
+export function sendPaymentFailed(
+  nc: NatsConnection,
+  data: PaymentFailed,
+  envelope: MessageEnvelope = createEnvelope(data.orderId)
+): void {
+  validatePayload(CHANNELS.paymentFailed, 'PaymentFailed', data.toJSON(), 'send');
+  nc.publish(CHANNELS.paymentFailed, data.marshal(), {
+    headers: messageHeaders(CHANNELS.paymentFailed, 'PaymentFailed', envelope),
+  });
+  logger.info('📤 PaymentFailed sent', {
+    channel: CHANNELS.paymentFailed,
+    operation: 'sendPaymentFailed',
+    orderId: data.orderId,
+    correlationId: envelope.correlationId,
+  });
+}
+
+/**
+ * sendRefundInitiated - Publishes RefundInitiated event
+ * Channel: refund.initiated
+ */
+export function sendRefundInitiated(
+  nc: NatsConnection,
+  data: RefundInitiated,
+  envelope: MessageEnvelope = createEnvelope(data.orderId)
+): void {
+  validatePayload(CHANNELS.refundInitiated, 'RefundInitiated', data.toJSON(), 'send');
+  nc.publish(CHANNELS.refundInitiated, data.marshal(), {
+    headers: messageHeaders(CHANNELS.refundInitiated, 'RefundInitiated', envelope),
+  });
+  logger.info('📤 RefundInitiated sent', {
+    channel: CHANNELS.refundInitiated,
+    operation: 'sendRefundInitiated',
+    orderId: data.orderId,
+    correlationId: envelope.correlationId,
+  });
+}
+
+// ============================================================================
+// Receive (Subscribe) Functions
+// ============================================================================
+
+/**
+ * receiveOrderCreated - Subscribes to OrderCreated events
+ * Channel: order.created
+ */
+export function receiveOrderCreated(
+  nc: NatsConnection,
+  handler: (data: OrderCreated, envelope: Partial<MessageEnvelope>) => Promise<void>
+): Subscription {
+  return subscribe(nc, CHANNELS.orderCreated, 'OrderCreated', OrderCreated.unmarshal, handler);
+}
+
+/**
+ * receiveOrderCancelled - Subscribes to OrderCancelled events
+ * Channel: order.cancelled
+ */
+export function receiveOrderCancelled(
+  nc: NatsConnection,
+  handler: (data: OrderCancelled, envelope: Partial<MessageEnvelope>) => Promise<void>
+): Subscription {
+  return subscribe(nc, CHANNELS.orderCancelled, 'OrderCancelled', OrderCancelled.unmarshal, handler);
+}
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+// ============================================================================
+// Payment providers: whatever charges the customer's card and pays refunds
+// ============================================================================
+export const ACCOUNTS_PATH = process.env.PAYMENT_ACCOUNTS
+  || path.resolve(__dirname, '../accounts.yml');
+
+export interface ChargeRequest {
+  orderId: string;
+  userId: string;
+  amount: number;
+}
+
+export interface ChargeResult {
+  approved: boolean;
+  paymentId: string;
+  reason?: string;  // Why the charge was declined
+}
+
+export interface RefundRequest {
+  paymentId: string;
+  userId: string;
+  amount: number;
+}
+
+export interface RefundResult {
+  refundId: string;
+}
+
+/**
+ * PaymentProvider - Charges and refunds orders. A declined charge is a result, not an error;
+ * errors mean the provider could not be asked at all.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  refund(request: RefundRequest): Promise<RefundResult>;
+}
+
+// ============================================================================
+// Fake provider with card rules and a balance per userId
+// ============================================================================
+export interface Account {
+  userId: string;
+  cardNumber: string;
+  expires: string;  // MM/YY, the card is valid until the end of that month
+  balance: number;
+}
+
+// One entry of the accounts file as parsed, before it is checked
+type AccountEntry = Partial<Record<keyof Account, unknown>>;
+
+export interface FakeProviderConfig {
+  declined: string[];  // Card numbers the issuer refuses whatever the balance
+  accounts: Account[];
+}
+
+export const DECLINE_REASONS = {
+  noCard: 'No card on file',
+  invalidNumber: 'Invalid card number',
+  expired: 'Card expired',
+  declined: 'Card declined',
+  insufficientFunds: 'Insufficient funds',
+} as const;
+
+/**
+ * loadAccounts - Reads the fake provider's cards and balances, e.g. accounts.yml
+ */
+export function loadAccounts(file: string = ACCOUNTS_PATH): FakeProviderConfig {
+  const doc: { declined?: unknown; accounts?: unknown } | null = YAML.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(doc?.accounts)) throw new Error(`${file}: expected an "accounts" list`);
+  const declined = doc.declined ?? [];
+  if (!Array.isArray(declined)) throw new Error(`${file}: expected "declined" to be a list`);
+  const accounts = doc.accounts.map((account: unknown, i: number): Account => {
+    const { userId, cardNumber, expires, balance }: AccountEntry = account !== null && typeof account === 'object' ? account : {};
+    if (typeof userId !== 'string' || typeof cardNumber !== 'string'
+      || typeof expires !== 'string' || !/^\d{2}\/\d{2}$/.test(expires) || typeof balance !== 'number') {
+      throw new Error(`${file}: accounts[${i}] needs a userId, cardNumber, expires (MM/YY) and balance`);
+    }
+    return { userId, cardNumber, expires, balance };
+  });
+  return { declined: declined.map(String), accounts };
+}
+
+/**
+ * luhnValid - Whether a card number passes the Luhn checksum
+ */
+export function luhnValid(cardNumber: string): boolean {
+  if (!/^\d{12,19}$/.test(cardNumber)) return false;
+  let sum = 0;
+  for (let i = 0; i < cardNumber.length; i++) {
+    let digit = Number(cardNumber[cardNumber.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isExpired(expires: string, now: Date): boolean {
+  const [month, year] = expires.split('/').map(Number);
+  // Day 0 of the following month is the last day of the expiry month
+  const end = new Date(Date.UTC(2000 + year, month, 0, 23, 59, 59));
+  return now > end;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * FakePaymentProvider - Approves a charge when the user's card passes every rule, in order:
+ * a card on file, a valid number, not expired, not on the declined list, and a balance that
+ * covers the amount. Approved charges are taken off the balance and refunds put back.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private accounts = new Map<string, Account>();
+  private charges = new Map<string, ChargeRequest>();  // Approved charges by paymentId
+
+  constructor(private readonly config: FakeProviderConfig, private readonly now: () => Date = () => new Date()) {
+    for (const account of config.accounts) this.accounts.set(account.userId, { ...account });
+  }
+
+  balance(userId: string): number | undefined {
+    return this.accounts.get(userId)?.balance;
+  }
+
+  private declineReason(account: Account | undefined, amount: number): string | undefined {
+    if (!account) return DECLINE_REASONS.noCard;
+    if (!luhnValid(account.cardNumber)) return DECLINE_REASONS.invalidNumber;
+    if (isExpired(account.expires, this.now())) return DECLINE_REASONS.expired;
+    if (this.config.declined.includes(account.cardNumber)) return DECLINE_REASONS.declined;
+    if (account.balance < amount) return DECLINE_REASONS.insufficientFunds;
+    return undefined;
+  }
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    const paymentId = `PAY-${crypto.randomUUID()}`;
+    const account = this.accounts.get(request.userId);
+    const reason = this.declineReason(account, request.amount);
+    if (reason) return { approved: false, paymentId, reason };
+
+    account!.balance = roundCents(account!.balance - request.amount);
+    this.charges.set(paymentId, { ...request });
+    return { approved: true, paymentId };
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResult> {
+    const charge = this.charges.get(request.paymentId);
+    if (!charge) throw new Error(`Unknown payment ${request.paymentId}`);
+    if (request.amount > charge.amount) {
+      throw new Error(`Cannot refund ${request.amount} of payment ${request.paymentId}, only ${charge.amount} is left to refund`);
+    }
+
+    const account = this.accounts.get(charge.userId)!;
+    account.balance = roundCents(account.balance + request.amount);
+    charge.amount = roundCents(charge.amount - request.amount);
+    return { refundId: `REF-${crypto.randomUUID()}` };
+  }
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Ledger, LedgerError } from '../src/ledger';
+
+// ============================================================================
+// The payment ledger: begin, then charge or decline once, then refund once
+// ============================================================================
+const AT = new Date('2026-01-01T00:00:00.000Z');
+
+function ledger(): Ledger {
+  return new Ledger(() => AT);
+}
+
+describe('begin', () => {
+  test('takes the order with a pending payment', () => {
+    const l = ledger();
+
+    const payment = l.begin('ORD-1', 'user-001', 59.98);
+
+    assert.equal(payment.status, 'pending');
+    assert.equal(payment.paymentId, undefined);
+    assert.deepEqual(payment.entries, []);
+    assert.equal(l.get('ORD-1'), payment);
+  });
+
+  test('refuses an order that already has a payment', () => {
+    const l = ledger();
+    l.begin('ORD-1', 'user-001', 59.98);
+
+    assert.throws(() => l.begin('ORD-1', 'user-001', 59.98), LedgerError);
+  });
+});
+
+describe('recordCharge', () => {
+  test('settles the pending payment as paid', () => {
+    const l = ledger();
+    l.begin('ORD-1', 'user-001', 59.98);
+
+    const payment = l.recordCharge('ORD-1', 'PAY-1');
+
+    assert.equal(payment.status, 'paid');
+    assert.equal(payment.paymentId, 'PAY-1');
+    assert.deepEqual(payment.entries, [{ type: 'charge', paymentId: 'PAY-1', amount: 59.98, at: AT }]);
+  });
+
+  test('needs a pending payment', () => {
+    const l = ledger();
+    assert.throws(() => l.recordCharge('ORD-1', 'PAY-1'), /has no pending payment/);
+
+    l.begin('ORD-1', 'user-001', 59.98);
+    l.recordCharge('ORD-1', 'PAY-1');
+    assert.throws(() => l.recordCharge('ORD-1', 'PAY-2'), /already has a payment that is paid/);
+  });
+});
+
+describe('recordDecline', () => {
+  test('settles the pending payment as failed with the reason', () => {
+    const l = ledger();
+    l.begin('ORD-1', 'user-001', 59.98);
+
+    const payment = l.recordDecline('ORD-1', 'PAY-1', 'Card declined');
+
+    assert.equal(payment.status, 'failed');
+    assert.deepEqual(payment.entries, [{ type: 'decline', paymentId: 'PAY-1', amount: 59.98, reason: 'Card declined', at: AT }]);
+  });
+});
+
+describe('abandon', () => {
+  test('drops a pending payment so the order can be charged again', () => {
+    const l = ledger();
+    l.begin('ORD-1', 'user-001', 59.98);
+
+    l.abandon('ORD-1');
+
+    assert.equal(l.get('ORD-1'), undefined);
+    l.begin('ORD-1', 'user-001', 59.98);
+  });
+
+  test('keeps a settled payment', () => {
+    const l = ledger();
+    l.begin('ORD-1', 'user-001', 59.98);
+    l.recordCharge('ORD-1', 'PAY-1');
+
+    l.abandon('ORD-1');
+
+    assert.equal(l.get('ORD-1')?.status, 'paid');
+  });
+});
+
+describe('recordRefund', () => {
+  test('refunds a paid order in full', () => {
+    const l = ledger();
+    l.begin('ORD-1', 'user-001', 59.98);
+    l.recordCharge('ORD-1', 'PAY-1');
+
+    const payment = l.recordRefund('ORD-1', 'REF-1');
+
+    assert.equal(payment.status, 'refunded');
+    assert.deepEqual(payment.entries[1], { type: 'refund', refundId: 'REF-1', paymentId: 'PAY-1', amount: 59.98, at: AT });
+  });
+
+  test('refuses orders that are not paid', () => {
+    const l = ledger();
+    assert.throws(() => l.recordRefund('ORD-1', 'REF-1'), /has no payment to refund/);
+
+    l.begin('ORD-1', 'user-001', 59.98);
+    assert.throws(() => l.recordRefund('ORD-1', 'REF-1'), /cannot refund a payment that is pending/);
+
+    l.recordCharge('ORD-1', 'PAY-1');
+    l.recordRefund('ORD-1', 'REF-1');
+    assert.throws(() => l.recordRefund('ORD-1', 'REF-2'), /cannot refund a payment that is refunded/);
+  });
+});
+
+describe('countByStatus', () => {
+  test('counts pending payments too', () => {
+    const l = ledger();
+    l.begin('ORD-1', 'user-001', 10);
+    l.begin('ORD-2', 'user-001', 10);
+    l.recordCharge('ORD-2', 'PAY-2');
+
+    assert.deepEqual(l.countByStatus(), { pending: 1, paid: 1, failed: 0, refunded: 0 });
+  });
+});
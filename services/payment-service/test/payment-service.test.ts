@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { NatsConnection } from 'nats';
+import { PaymentService } from '../src/index';
+import { Ledger } from '../src/ledger';
+import { ChargeRequest, ChargeResult, FakePaymentProvider, PaymentProvider, RefundRequest, RefundResult } from '../src/provider';
+import { CHANNELS } from '../src/channels';
+import { OrderCreated } from '../src/models/OrderCreated';
+import { OrderCancelled } from '../src/models/OrderCancelled';
+
+// ============================================================================
+// PaymentService handlers on a connection that records what is published
+// and a provider whose charges a test can hold
+// ============================================================================
+const ORDER_ID = 'ORD-1001';
+
+interface Published {
+  channel: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * HeldProvider - The fake provider, except that charges wait for release() while held
+ */
+class HeldProvider implements PaymentProvider {
+  readonly name = 'held';
+  charges = 0;
+  private held: Array<() => void> = [];
+  private holding = false;
+
+  constructor(private readonly provider: PaymentProvider) {}
+
+  hold(): void {
+    this.holding = true;
+  }
+
+  release(): void {
+    this.holding = false;
+    this.held.splice(0).forEach(resume => resume());
+  }
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    this.charges++;
+    if (this.holding) await new Promise<void>(resume => this.held.push(resume));
+    return this.provider.charge(request);
+  }
+
+  refund(request: RefundRequest): Promise<RefundResult> {
+    return this.provider.refund(request);
+  }
+}
+
+function orderCreated(orderId: string = ORDER_ID, userId: string = 'user-001'): OrderCreated {
+  return OrderCreated.unmarshal({ orderId, userId, totalAmount: 59.98, items: [{ itemId: 'ITEM-001', quantity: 2, price: 29.99 }] });
+}
+
+function orderCancelled(orderId: string = ORDER_ID): OrderCancelled {
+  return OrderCancelled.unmarshal({ orderId, reason: 'Customer request' });
+}
+
+let published: Published[];
+let ledger: Ledger;
+let provider: HeldProvider;
+let service: PaymentService;
+
+beforeEach(() => {
+  published = [];
+  const nc = {
+    publish: (channel: string, data: string) => { published.push({ channel, payload: JSON.parse(data) }); },
+  } as unknown as NatsConnection;
+  ledger = new Ledger();
+  provider = new HeldProvider(new FakePaymentProvider({
+    declined: [],
+    accounts: [{ userId: 'user-001', cardNumber: '4242424242424242', expires: '12/99', balance: 100 }],
+  }));
+  service = new PaymentService(ledger, provider, nc);
+});
+
+function channels(): string[] {
+  return published.map(message => message.channel);
+}
+
+describe('handleOrderCreated', () => {
+  test('charges the order and publishes payment.processed', async () => {
+    await service.handleOrderCreated(orderCreated(), {});
+
+    assert.deepEqual(channels(), [CHANNELS.paymentProcessed]);
+    assert.equal(ledger.get(ORDER_ID)?.status, 'paid');
+  });
+
+  test('publishes payment.failed for a declined charge', async () => {
+    await service.handleOrderCreated(orderCreated(ORDER_ID, 'user-404'), {});
+
+    assert.deepEqual(channels(), [CHANNELS.paymentFailed]);
+    assert.equal(published[0].payload.failureReason, 'No card on file');
+    assert.equal(ledger.get(ORDER_ID)?.status, 'failed');
+  });
+
+  test('charges overlapping deliveries of the same order once', async () => {
+    provider.hold();
+    const first = service.handleOrderCreated(orderCreated(), {});
+    const second = service.handleOrderCreated(orderCreated(), {});
+    provider.release();
+    await Promise.all([first, second]);
+
+    assert.equal(provider.charges, 1);
+    assert.deepEqual(channels(), [CHANNELS.paymentProcessed]);
+  });
+
+  test('charges a redelivery when the provider could not be asked', async () => {
+    const unavailable: PaymentProvider = {
+      name: 'unavailable',
+      charge: async () => { throw new Error('Provider unavailable'); },
+      refund: async () => { throw new Error('Provider unavailable'); },
+    };
+
+    await assert.rejects(new PaymentService(ledger, unavailable).handleOrderCreated(orderCreated(), {}), /Provider unavailable/);
+    assert.equal(ledger.get(ORDER_ID), undefined);
+
+    await service.handleOrderCreated(orderCreated(), {});
+    assert.equal(ledger.get(ORDER_ID)?.status, 'paid');
+  });
+});
+
+describe('handleOrderCancelled', () => {
+  test('refunds a paid order in full', async () => {
+    await service.handleOrderCreated(orderCreated(), {});
+
+    await service.handleOrderCancelled(orderCancelled(), { messageId: 'cancel-1', correlationId: ORDER_ID });
+
+    assert.deepEqual(channels(), [CHANNELS.paymentProcessed, CHANNELS.refundInitiated]);
+    assert.equal(published[1].payload.amount, 59.98);
+    assert.equal(ledger.get(ORDER_ID)?.status, 'refunded');
+  });
+
+  test('refunds only once when the cancellation is delivered twice', async () => {
+    await service.handleOrderCreated(orderCreated(), {});
+
+    await service.handleOrderCancelled(orderCancelled(), {});
+    await service.handleOrderCancelled(orderCancelled(), {});
+
+    assert.deepEqual(channels(), [CHANNELS.paymentProcessed, CHANNELS.refundInitiated]);
+  });
+
+  test('refunds an order cancelled while it is being charged once the charge completes', async () => {
+    provider.hold();
+    const charging = service.handleOrderCreated(orderCreated(), {});
+
+    await service.handleOrderCancelled(orderCancelled(), {});
+    assert.deepEqual(channels(), []);
+
+    provider.release();
+    await charging;
+
+    assert.deepEqual(channels(), [CHANNELS.paymentProcessed, CHANNELS.refundInitiated]);
+    assert.equal(ledger.get(ORDER_ID)?.status, 'refunded');
+  });
+
+  test('refunds nothing for a declined or unknown order', async () => {
+    await service.handleOrderCreated(orderCreated(ORDER_ID, 'user-404'), {});
+
+    await service.handleOrderCancelled(orderCancelled(), {});
+    await service.handleOrderCancelled(orderCancelled('ORD-UNKNOWN'), {});
+
+    assert.deepEqual(channels(), [CHANNELS.paymentFailed]);
+  });
+});
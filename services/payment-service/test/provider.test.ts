@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, test } from 'node:test';
+import { ACCOUNTS_PATH, loadAccounts } from '../src/provider';
+
+// ============================================================================
+// The cards and balances of the fake provider
+// ============================================================================
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'payment-'));
+let files = 0;
+
+after(() => {
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+function accountsFile(yaml: string): string {
+  const file = path.join(tmp, `accounts-${++files}.yml`);
+  fs.writeFileSync(file, yaml);
+  return file;
+}
+
+const ACCOUNT = "{ userId: user-001, cardNumber: '4242424242424242', expires: '12/30', balance: 50 }";
+
+describe('loadAccounts', () => {
+  test('reads the accounts and declined cards', () => {
+    const config = loadAccounts(ACCOUNTS_PATH);
+
+    assert.deepEqual(config.declined, ['4000000000000002']);
+    assert.deepEqual(config.accounts[0], { userId: 'user-001', cardNumber: '4242424242424242', expires: '12/30', balance: 5000 });
+  });
+
+  test('declines no card when the file lists none', () => {
+    assert.deepEqual(loadAccounts(accountsFile(`accounts:\n  - ${ACCOUNT}\n`)).declined, []);
+  });
+
+  test('names the entry without a userId, cardNumber, MM/YY expiry or balance', () => {
+    const broken = [
+      '{ cardNumber: "4242424242424242", expires: "12/30", balance: 50 }',
+      '{ userId: user-002, cardNumber: "4242424242424242", expires: "2030-12", balance: 50 }',
+      '{ userId: user-002, cardNumber: "4242424242424242", expires: "12/30", balance: "50" }',
+      'user-002',
+    ];
+    for (const entry of broken) {
+      assert.throws(() => loadAccounts(accountsFile(`accounts:\n  - ${ACCOUNT}\n  - ${entry}\n`)), /accounts\[1\] needs a userId/);
+    }
+  });
+
+  test('rejects a file without an accounts list or with declined cards that are not a list', () => {
+    assert.throws(() => loadAccounts(accountsFile('cards: []\n')), /expected an "accounts" list/);
+    assert.throws(() => loadAccounts(accountsFile(`declined: '4000000000000002'\naccounts: []\n`)), /expected "declined" to be a list/);
+  });
+});
@@ -0,0 +1,49 @@
+// Generated by the channels preset of tools/spec-tools from user-service.yml, do not edit
+import { USER_SIGNED_UP_HEADER_DEFAULTS } from '../headers/UserSignedUpHeaders';
+import { UserSignedUp } from '../payloads/UserSignedUp';
+
+// A model class of the payloads preset
+export interface ChannelPayload {
+  toJSON(): Record<string, unknown>;
+  marshal(): string;
+}
+
+export interface SendOperation {
+  operationId: string;
+  channel: string;                  // Channel address
+  messageName: string;
+  headers: Record<string, string>;  // The header defaults the spec gives the message, e.g. ec-message-type
+}
+
+export interface ReceiveOperation<T> {
+  operationId: string;
+  channel: string;
+  messageName: string;
+  unmarshal(json: string | object): T;
+}
+
+export interface ChannelSubscription {
+  unsubscribe(): void;
+}
+
+/**
+ * ChannelRuntime - What the operations below send and receive through. The service decides
+ * how: the broker, validation, retries and dead-lettering, and what the envelope `E` of a
+ * message and the options `O` of a receive operation are. A handler that throws fails the message.
+ */
+export interface ChannelRuntime<E = unknown, O = unknown> {
+  send(operation: SendOperation, message: ChannelPayload, envelope?: E): Promise<void>;
+  receive<T>(operation: ReceiveOperation<T>, handler: (message: T, envelope: Partial<E>) => Promise<void>, options?: O): ChannelSubscription;
+}
+
+/**
+ * sendUserSignedUp - Sends UserSignedUp on user.signedup
+ */
+export function sendUserSignedUp<E>(runtime: ChannelRuntime<E>, message: UserSignedUp, envelope?: E): Promise<void> {
+  return runtime.send({
+    operationId: 'sendUserSignedUp',
+    channel: 'user.signedup',
+    messageName: 'UserSignedUp',
+    headers: USER_SIGNED_UP_HEADER_DEFAULTS,
+  }, message, envelope);
+}
@@ -0,0 +1,18 @@
+// Generated by the handlers preset of tools/spec-tools from user-service.yml, do not edit
+import { ChannelRuntime, ChannelSubscription } from '../channels';
+
+export interface UserServiceHandlers<E = unknown> {
+}
+
+/**
+ * wireHandlers - Subscribes every receive operation of User Service to its handler through
+ * `runtime`, with the receive options of each operation (e.g. its retry policy) from `options`
+ */
+export function wireHandlers<E, O>(
+  runtime: ChannelRuntime<E, O>,
+  handlers: UserServiceHandlers<E>,
+  options: Partial<Record<never, O>> = {}
+): ChannelSubscription[] {
+  return [
+  ];
+}
@@ -0,0 +1,51 @@
+// Generated by the payloads preset of tools/spec-tools from user-service.yml, do not edit
+import { readDateTime, readString, toWireObject } from 'service-kit/src/wire';
+
+export interface UserSignedUpProps {
+  userId: string;
+  fullName: string;
+  email: string;
+  signupTime?: Date; // ISO 8601 date-time on the wire
+}
+
+export class UserSignedUp {
+  private _userId: string;
+  private _fullName: string;
+  private _email: string;
+  private _signupTime?: Date;
+
+  constructor(props: UserSignedUpProps) {
+    this._userId = props.userId;
+    this._fullName = props.fullName;
+    this._email = props.email;
+    this._signupTime = props.signupTime;
+  }
+
+  get userId(): string { return this._userId; }
+  get fullName(): string { return this._fullName; }
+  get email(): string { return this._email; }
+  get signupTime(): Date | undefined { return this._signupTime; }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      userId: this._userId,
+      fullName: this._fullName,
+      email: this._email,
+      signupTime: this._signupTime?.toISOString(),
+    };
+  }
+
+  marshal(): string {
+    return JSON.stringify(this);
+  }
+
+  static unmarshal(json: string | object): UserSignedUp {
+    const obj = toWireObject(json, 'UserSignedUp');
+    return new UserSignedUp({
+      userId: readString(obj, 'userId', 'UserSignedUp'),
+      fullName: readString(obj, 'fullName', 'UserSignedUp'),
+      email: readString(obj, 'email', 'UserSignedUp'),
+      signupTime: obj.signupTime === undefined ? undefined : readDateTime(obj, 'signupTime', 'UserSignedUp'),
+    });
+  }
+}
@@ -0,0 +1,13 @@
+// Generated by the types preset of tools/spec-tools from user-service.yml, do not edit
+
+// The address of every channel, by channel id
+export const CHANNEL_ADDRESSES = {
+  userSignedUp: 'user.signedup',
+} as const;
+
+export type ChannelId = keyof typeof CHANNEL_ADDRESSES;
+export type ChannelAddress = (typeof CHANNEL_ADDRESSES)[ChannelId];
+
+export type SendOperationId =
+  | 'sendUserSignedUp';
+export type ReceiveOperationId = never;
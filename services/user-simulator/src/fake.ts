@@ -0,0 +1,112 @@
+import { Rng, pick, randomId, randomInt } from 'service-kit/src/random';
+import { JsonSchema } from './spec';
+
+// ============================================================================
+// Schema-driven fake data
+// ============================================================================
+export interface FakeOptions {
+  rng: Rng;
+  // Exact values for properties with these names, at any depth (e.g. the orderId of a flow)
+  context: Record<string, unknown>;
+  // Values to pick from for properties with these names (the scenario's data pools)
+  pools: Record<string, unknown[]>;
+  // Dates are drawn from before this time (ms since the epoch), default REFERENCE_TIME
+  referenceTime?: number;
+}
+
+// Fixed, so that a seed reproduces the dates as well
+export const REFERENCE_TIME = Date.UTC(2026, 0, 1);
+
+const WORDS = ['swift', 'blue', 'parcel', 'order', 'north', 'rapid', 'prime', 'cargo', 'bright', 'route'];
+
+function fakeString(schema: JsonSchema, name: string, options: FakeOptions): string {
+  const { rng } = options;
+  const referenceTime = options.referenceTime ?? REFERENCE_TIME;
+  switch (schema.format) {
+    case 'date-time':
+      return new Date(referenceTime - randomInt(rng, 0, 3600) * 1000).toISOString();
+    case 'date':
+      return new Date(referenceTime - randomInt(rng, 0, 30) * 86400000).toISOString().slice(0, 10);
+    case 'email':
+      return `${pick(rng, WORDS)}.${pick(rng, WORDS)}${randomInt(rng, 1, 999)}@example.com`;
+    case 'uuid':
+      return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+        const r = Math.floor(rng() * 16);
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+      });
+    case 'uri':
+      return `https://example.com/${pick(rng, WORDS)}`;
+  }
+
+  // IDs get a readable prefix derived from the property name, e.g. shipmentId -> SHIP-...
+  if (/Id$/.test(name)) {
+    const prefix = name.replace(/Id$/, '').slice(0, 4).toUpperCase() || 'ID';
+    return randomId(rng, prefix);
+  }
+
+  const words = Array.from({ length: randomInt(rng, 1, 3) }, () => pick(rng, WORDS));
+  let value = words.join(' ');
+  if (schema.minLength !== undefined) value = value.padEnd(schema.minLength, 'x');
+  if (schema.maxLength !== undefined) value = value.slice(0, schema.maxLength);
+  return value;
+}
+
+/**
+ * fakeValue - Produces a value that satisfies `schema`, honouring enum, const, format,
+ * numeric/length/item bounds, required and additionalProperties
+ */
+export function fakeValue(schema: JsonSchema, options: FakeOptions, name: string = ''): unknown {
+  if (name in options.context) return options.context[name];
+  if (options.pools[name]?.length) return pick(options.rng, options.pools[name]);
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return pick(options.rng, schema.enum);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type ?? (schema.properties ? 'object' : 'string');
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        result[key] = fakeValue(propertySchema, options, key);
+      }
+      return result;
+    }
+    case 'array': {
+      const count = randomInt(options.rng, schema.minItems ?? 1, schema.maxItems ?? Math.max(3, schema.minItems ?? 1));
+      return Array.from({ length: count }, () => fakeValue(schema.items ?? {}, options, ''));
+    }
+    case 'integer': {
+      // Without a bound on one side, the range extends from the other one
+      const min = schema.minimum ?? Math.min(1, schema.maximum ?? 1);
+      return randomInt(options.rng, min, schema.maximum ?? min + 9);
+    }
+    case 'number': {
+      const min = schema.minimum ?? Math.min(1, schema.maximum ?? 1);
+      const max = schema.maximum ?? min + 499;
+      const value = min + options.rng() * (max - min);
+      return schema.format === 'float' || schema.format === 'double' ? Math.round(value * 100) / 100 : value;
+    }
+    case 'boolean':
+      return options.rng() < 0.5;
+    case 'null':
+      return null;
+    default:
+      return fakeString(schema, name, options);
+  }
+}
+
+/**
+ * fakePayload - Generates a message payload, then applies the `overrides` the schema allows
+ */
+export function fakePayload(
+  schema: JsonSchema,
+  options: FakeOptions,
+  overrides: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const payload = fakeValue(schema, options) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(overrides)) {
+    // Never add fields the schema forbids
+    if (schema.additionalProperties === false && !(key in (schema.properties ?? {}))) continue;
+    payload[key] = value;
+  }
+  return payload;
+}
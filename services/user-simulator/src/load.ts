@@ -0,0 +1,263 @@
+import fs from 'fs';
+import path from 'path';
+import { performance } from 'perf_hooks';
+import { Payload, UserSimulator, sleep } from './simulator';
+
+// ============================================================================
+// Load mode: many concurrent scenario actions, timed until the Orders Service
+// answers with order.completed or order.cancelled
+// ============================================================================
+export const OUTCOME_CHANNELS = ['order.completed', 'order.cancelled'] as const;
+export type Outcome = 'completed' | 'cancelled';
+
+export interface LoadOptions {
+  rate: number;          // Target actions per second once ramped up
+  concurrency: number;   // Most orders awaiting their outcome at once
+  rampUp: number;        // Seconds to climb linearly from 0 to `rate`
+  duration: number;      // Seconds to keep starting actions, ramp-up included
+  timeout: number;       // Seconds to wait for an order's outcome
+}
+
+export const DEFAULT_LOAD_OPTIONS: LoadOptions = {
+  rate: 10,
+  concurrency: 100,
+  rampUp: 0,
+  duration: 60,
+  timeout: 30,
+};
+
+export interface LatencyStats {
+  count: number;
+  min: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface LoadReport {
+  scenario: string;
+  seed: number;
+  startedAt: string;
+  finishedAt: string;
+  options: LoadOptions;
+  actions: {
+    started: number;
+    throttled: number;   // Due to start while `concurrency` orders were already waiting
+    failed: number;      // Threw while publishing
+  };
+  orders: {
+    created: number;
+    completed: number;
+    cancelled: number;
+    timedOut: number;
+    abandoned: number;   // The scenario stopped before the order reached an outcome channel
+  };
+  throughput: number;    // Outcomes per second over the whole run
+  latencyMs: {
+    all: LatencyStats;
+    completed: LatencyStats;
+    cancelled: LatencyStats;
+  };
+  errors: Record<string, number>;
+}
+
+interface PendingOrder {
+  createdAt: number;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * percentile - Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+export function latencyStats(samples: number[]): LatencyStats {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const round = (ms: number) => Math.round(ms * 100) / 100;
+  return {
+    count: sorted.length,
+    min: round(sorted[0] ?? 0),
+    mean: round(sorted.length ? sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length : 0),
+    p50: round(percentile(sorted, 50)),
+    p90: round(percentile(sorted, 90)),
+    p95: round(percentile(sorted, 95)),
+    p99: round(percentile(sorted, 99)),
+    max: round(sorted[sorted.length - 1] ?? 0),
+  };
+}
+
+/**
+ * targetRate - Actions per second `elapsed` seconds into the run
+ */
+export function targetRate(options: LoadOptions, elapsed: number): number {
+  if (options.rampUp <= 0 || elapsed >= options.rampUp) return options.rate;
+  return options.rate * (elapsed / options.rampUp);
+}
+
+/**
+ * runLoad - Starts scenario actions at the target rate for `duration` seconds, then waits
+ * for the outstanding orders. The simulator must be connected with noEcho, otherwise the
+ * order.cancelled events it publishes itself would count as answers.
+ */
+export async function runLoad(simulator: UserSimulator, options: LoadOptions): Promise<LoadReport> {
+  const pending = new Map<string, PendingOrder>();
+  const latencies: Record<Outcome, number[]> = { completed: [], cancelled: [] };
+  const errors: Record<string, number> = {};
+  const actions = { started: 0, throttled: 0, failed: 0 };
+  const orders = { created: 0, completed: 0, cancelled: 0, timedOut: 0, abandoned: 0 };
+  const running = new Set<Promise<void>>();
+
+  const countError = (message: string) => {
+    errors[message] = (errors[message] ?? 0) + 1;
+  };
+
+  const settle = (orderId: string, outcome: Outcome | 'timedOut' | 'abandoned') => {
+    const order = pending.get(orderId);
+    if (!order) return;
+    clearTimeout(order.timer);
+    pending.delete(orderId);
+    orders[outcome]++;
+    if (outcome === 'completed' || outcome === 'cancelled') {
+      latencies[outcome].push(performance.now() - order.createdAt);
+    } else if (outcome === 'timedOut') {
+      countError(`No outcome within ${options.timeout}s`);
+    }
+  };
+
+  simulator.logEvents = false;
+  simulator.onPublish = (channel, payload) => {
+    if (channel !== 'order.created' || typeof payload.orderId !== 'string') return;
+    const orderId = payload.orderId;
+    orders.created++;
+    pending.set(orderId, {
+      createdAt: performance.now(),
+      timer: setTimeout(() => settle(orderId, 'timedOut'), options.timeout * 1000),
+    });
+  };
+
+  const subscriptions = OUTCOME_CHANNELS.map(channel =>
+    simulator.subscribe(channel, (payload: Payload) => {
+      if (typeof payload.orderId === 'string') {
+        settle(payload.orderId, channel === 'order.completed' ? 'completed' : 'cancelled');
+      }
+    }),
+  );
+
+  const startAction = () => {
+    actions.started++;
+    const run = simulator.runAction(simulator.chooseAction())
+      .then(flow => {
+        // Nobody will answer for an order the scenario left open, so it is not a timeout
+        if (flow?.orderId && simulator.isActive(flow.orderId)) settle(flow.orderId, 'abandoned');
+      })
+      .catch(err => {
+        actions.failed++;
+        countError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => running.delete(run));
+    running.add(run);
+  };
+
+  const startedAt = new Date();
+  const start = performance.now();
+  const tickMs = 20;
+  let due = 0;
+  let lastProgress = 0;
+
+  console.log(`\n🚀 Load: ${options.rate}/s, ramp-up ${options.rampUp}s, ${options.duration}s, concurrency ${options.concurrency}`);
+
+  while (!simulator.stopped) {
+    const elapsed = (performance.now() - start) / 1000;
+    if (elapsed >= options.duration) break;
+
+    due += targetRate(options, elapsed) * (tickMs / 1000);
+    while (due >= 1) {
+      due--;
+      if (pending.size >= options.concurrency) {
+        actions.throttled++;
+      } else {
+        startAction();
+      }
+    }
+
+    if (elapsed - lastProgress >= 5) {
+      lastProgress = elapsed;
+      console.log(`⏱️  ${elapsed.toFixed(0)}s: ${actions.started} started, ${pending.size} waiting, `
+        + `${orders.completed + orders.cancelled} answered`);
+    }
+    await sleep(tickMs);
+  }
+
+  // Let the remaining flows publish their steps, then give the service until the timeout to answer
+  await Promise.all(running);
+  if (pending.size > 0) {
+    console.log(`\n⏳ Waiting up to ${options.timeout}s for ${pending.size} outstanding orders...`);
+  }
+  while (pending.size > 0 && !simulator.stopped) {
+    await sleep(100);
+  }
+  for (const orderId of Array.from(pending.keys())) {
+    settle(orderId, 'timedOut');
+  }
+
+  subscriptions.forEach(sub => sub.unsubscribe());
+  simulator.onPublish = undefined;
+
+  const seconds = (performance.now() - start) / 1000;
+  return {
+    scenario: simulator.scenarioName,
+    seed: simulator.seed,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    options,
+    actions,
+    orders,
+    throughput: Math.round(((orders.completed + orders.cancelled) / seconds) * 100) / 100,
+    latencyMs: {
+      all: latencyStats([...latencies.completed, ...latencies.cancelled]),
+      completed: latencyStats(latencies.completed),
+      cancelled: latencyStats(latencies.cancelled),
+    },
+    errors,
+  };
+}
+
+/**
+ * printLoadReport - Human-readable summary of a load run
+ */
+export function printLoadReport(report: LoadReport): void {
+  const row = (label: string, stats: LatencyStats) =>
+    console.log(`  ${label.padEnd(10)} n=${String(stats.count).padEnd(6)} p50=${stats.p50}ms  p90=${stats.p90}ms  `
+      + `p95=${stats.p95}ms  p99=${stats.p99}ms  max=${stats.max}ms`);
+
+  console.log('\n' + '═'.repeat(50));
+  console.log(`  📊 LOAD REPORT - ${report.scenario} (seed ${report.seed})`);
+  console.log('═'.repeat(50));
+  console.log(`  Actions:   ${report.actions.started} started, ${report.actions.throttled} throttled, ${report.actions.failed} failed`);
+  console.log(`  Orders:    ${report.orders.created} created, ${report.orders.completed} completed, `
+    + `${report.orders.cancelled} cancelled, ${report.orders.timedOut} timed out, ${report.orders.abandoned} abandoned`);
+  console.log(`  Throughput: ${report.throughput} outcomes/s`);
+  console.log('\n  End-to-end latency (order.created → outcome):');
+  row('all', report.latencyMs.all);
+  row('completed', report.latencyMs.completed);
+  row('cancelled', report.latencyMs.cancelled);
+
+  const errors = Object.entries(report.errors);
+  if (errors.length > 0) {
+    console.log('\n  Errors:');
+    errors.forEach(([message, count]) => console.log(`  ${String(count).padStart(6)} × ${message}`));
+  }
+  console.log('═'.repeat(50));
+}
+
+export function writeLoadReport(report: LoadReport, file: string): void {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(report, null, 2) + '\n');
+  console.log(`📝 Report written to ${file}`);
+}
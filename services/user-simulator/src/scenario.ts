@@ -0,0 +1,252 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+// ============================================================================
+// Scenario definitions (YAML or JSON files in scenarios/)
+// ============================================================================
+export const SCENARIO_DIR = path.resolve(__dirname, '../scenarios');
+
+// Publish step address meaning "any channel that no action of the scenario publishes to"
+export const ANY_CHANNEL = '*';
+
+// Milliseconds, either fixed or drawn uniformly from a range
+export type Delay = number | { min: number; max: number };
+
+export interface PublishStep {
+  publish: string;                  // Channel address, or ANY_CHANNEL
+  set?: Record<string, unknown>;    // Fixed payload fields
+}
+
+export interface DelayStep {
+  delay: Delay;
+}
+
+export interface Branch {
+  name?: string;
+  probability: number;
+  steps: Step[];
+}
+
+// Takes at most one branch; when the probabilities add up to less than 1 the rest means "none"
+export interface BranchStep {
+  branch: Branch[];
+}
+
+export type Step = PublishStep | DelayStep | BranchStep;
+
+export interface ScenarioAction {
+  name: string;
+  weight: number;
+  // The order the steps are about: a freshly created one, or one still in flight
+  order?: 'new' | 'active';
+  steps: Step[];
+}
+
+export interface Product {
+  itemId: string;
+  name: string;
+  price: number;
+}
+
+// Defaults for load mode; the CLI flags of the same name take precedence
+export interface LoadSettings {
+  rate?: number;          // Target actions per second once ramped up
+  concurrency?: number;   // Most orders awaiting their outcome at once
+  rampUp?: number;        // Seconds to climb linearly from 0 to `rate`
+  duration?: number;      // Seconds to keep starting actions, ramp-up included
+  timeout?: number;       // Seconds to wait for an order's outcome
+}
+
+const LOAD_SETTINGS: (keyof LoadSettings)[] = ['rate', 'concurrency', 'rampUp', 'duration', 'timeout'];
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  seed?: number;
+  maxActions?: number;              // Stop after this many actions, run forever when omitted
+  delay: Delay;                     // Pause between actions
+  products: Product[];              // Priced items that orders are made of
+  pools: Record<string, unknown[]>; // Values for payload fields of the same name
+  actions: ScenarioAction[];
+  load: LoadSettings;
+}
+
+/**
+ * ScenarioError - A scenario file that cannot be used, with the path of the offending entry
+ */
+export class ScenarioError extends Error {
+  constructor(public readonly file: string, public readonly at: string, message: string) {
+    super(`${file}: ${at}: ${message}`);
+    this.name = 'ScenarioError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function checkDelay(fail: (at: string, message: string) => never, at: string, delay: unknown): Delay {
+  if (typeof delay === 'number' && delay >= 0) return delay;
+  if (isObject(delay) && typeof delay.min === 'number' && typeof delay.max === 'number'
+    && delay.min >= 0 && delay.min <= delay.max) {
+    return { min: delay.min, max: delay.max };
+  }
+  return fail(at, 'expected milliseconds or { min, max } with 0 <= min <= max');
+}
+
+function checkSteps(fail: (at: string, message: string) => never, at: string, steps: unknown): Step[] {
+  if (!Array.isArray(steps)) fail(at, 'expected a list of steps');
+
+  return (steps as unknown[]).map((step, i) => {
+    const stepAt = `${at}[${i}]`;
+    if (!isObject(step)) return fail(stepAt, 'expected an object');
+
+    if ('publish' in step) {
+      if (typeof step.publish !== 'string' || !step.publish) return fail(`${stepAt}.publish`, 'expected a channel address');
+      if (step.set !== undefined && !isObject(step.set)) return fail(`${stepAt}.set`, 'expected an object');
+      return { publish: step.publish, set: isObject(step.set) ? step.set : undefined };
+    }
+    if ('delay' in step) {
+      return { delay: checkDelay(fail, `${stepAt}.delay`, step.delay) };
+    }
+    if ('branch' in step) {
+      if (!Array.isArray(step.branch) || step.branch.length === 0) fail(`${stepAt}.branch`, 'expected a list of branches');
+      const branches = (step.branch as unknown[]).map((branch, j) => {
+        const branchAt = `${stepAt}.branch[${j}]`;
+        if (!isObject(branch)) return fail(branchAt, 'expected an object');
+        if (typeof branch.probability !== 'number' || branch.probability < 0 || branch.probability > 1) {
+          return fail(`${branchAt}.probability`, 'expected a number between 0 and 1');
+        }
+        return {
+          name: typeof branch.name === 'string' ? branch.name : undefined,
+          probability: branch.probability,
+          steps: checkSteps(fail, `${branchAt}.steps`, branch.steps),
+        };
+      });
+      const total = branches.reduce((sum, b) => sum + b.probability, 0);
+      if (total > 1 + 1e-9) fail(`${stepAt}.branch`, `probabilities add up to ${total}, more than 1`);
+      return { branch: branches };
+    }
+    return fail(stepAt, 'expected one of publish, delay or branch');
+  });
+}
+
+/**
+ * parseScenario - Checks a parsed scenario document and fills in defaults
+ */
+export function parseScenario(doc: unknown, file: string): Scenario {
+  const fail = (at: string, message: string): never => {
+    throw new ScenarioError(file, at, message);
+  };
+  if (!isObject(doc)) return fail('scenario', 'expected an object');
+  const raw = doc;
+
+  if (raw.seed !== undefined && !Number.isInteger(raw.seed)) fail('seed', 'expected an integer');
+  if (raw.maxActions !== undefined && !(typeof raw.maxActions === 'number' && Number.isInteger(raw.maxActions) && raw.maxActions > 0)) {
+    fail('maxActions', 'expected a positive integer');
+  }
+
+  const rawProducts = raw.products ?? [];
+  if (!Array.isArray(rawProducts)) return fail('products', 'expected a list');
+  const products = rawProducts.map((product: unknown, i: number): Product => {
+    if (!isObject(product) || typeof product.itemId !== 'string' || typeof product.price !== 'number') {
+      return fail(`products[${i}]`, 'expected { itemId, name, price }');
+    }
+    return { itemId: product.itemId, name: typeof product.name === 'string' ? product.name : product.itemId, price: product.price };
+  });
+
+  const pools = raw.pools ?? {};
+  if (!isObject(pools)) return fail('pools', 'expected an object of lists');
+  const poolValues: Record<string, unknown[]> = {};
+  for (const [field, values] of Object.entries(pools)) {
+    if (!Array.isArray(values) || values.length === 0) return fail(`pools.${field}`, 'expected a non-empty list');
+    poolValues[field] = values;
+  }
+
+  if (!Array.isArray(raw.actions) || raw.actions.length === 0) return fail('actions', 'expected a non-empty list');
+  const actions = (raw.actions as unknown[]).map((action, i): ScenarioAction => {
+    const at = `actions[${i}]`;
+    if (!isObject(action)) return fail(at, 'expected an object');
+    if (typeof action.weight !== 'number' || action.weight < 0) return fail(`${at}.weight`, 'expected a number >= 0');
+    if (action.order !== undefined && action.order !== 'new' && action.order !== 'active') {
+      return fail(`${at}.order`, 'expected "new" or "active"');
+    }
+    return {
+      name: typeof action.name === 'string' ? action.name : `action ${i + 1}`,
+      weight: action.weight,
+      order: action.order === 'new' || action.order === 'active' ? action.order : undefined,
+      steps: checkSteps(fail, `${at}.steps`, action.steps),
+    };
+  });
+  if (actions.every(action => action.weight === 0)) fail('actions', 'at least one action needs a weight above 0');
+
+  const load = raw.load ?? {};
+  if (!isObject(load)) return fail('load', 'expected an object');
+  const settings: LoadSettings = {};
+  for (const [key, value] of Object.entries(load)) {
+    if (!LOAD_SETTINGS.includes(key as keyof LoadSettings)) return fail(`load.${key}`, 'unknown setting');
+    if (typeof value !== 'number' || value < 0 || (key !== 'rampUp' && value === 0)) {
+      return fail(`load.${key}`, key === 'rampUp' ? 'expected a number >= 0' : 'expected a number above 0');
+    }
+    settings[key as keyof LoadSettings] = value;
+  }
+
+  return {
+    name: typeof raw.name === 'string' ? raw.name : path.basename(file, path.extname(file)),
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    seed: typeof raw.seed === 'number' ? raw.seed : undefined,
+    maxActions: typeof raw.maxActions === 'number' ? raw.maxActions : undefined,
+    delay: raw.delay === undefined ? 0 : checkDelay(fail, 'delay', raw.delay),
+    products,
+    pools: {
+      itemId: products.map(product => product.itemId),
+      ...poolValues,
+    },
+    actions,
+    load: settings,
+  };
+}
+
+/**
+ * resolveScenarioPath - Accepts a file path, or the name of a file in SCENARIO_DIR
+ */
+export function resolveScenarioPath(nameOrPath: string): string {
+  const candidates = [
+    nameOrPath,
+    ...['.yml', '.yaml', '.json'].map(ext => path.join(SCENARIO_DIR, nameOrPath + ext)),
+  ];
+  const found = candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+  if (!found) {
+    const known = fs.existsSync(SCENARIO_DIR)
+      ? fs.readdirSync(SCENARIO_DIR).map(f => path.basename(f, path.extname(f))).join(', ')
+      : 'none';
+    throw new Error(`Scenario "${nameOrPath}" not found (known scenarios: ${known})`);
+  }
+  return found;
+}
+
+/**
+ * loadScenario - Reads and checks a YAML or JSON scenario file
+ */
+export function loadScenario(nameOrPath: string): Scenario {
+  const file = resolveScenarioPath(nameOrPath);
+  const text = fs.readFileSync(file, 'utf8');
+  const doc = file.endsWith('.json') ? JSON.parse(text) : YAML.parse(text);
+  return parseScenario(doc, file);
+}
+
+/**
+ * publishedChannels - Every explicit channel address the scenario's steps publish to
+ */
+export function publishedChannels(scenario: Scenario): string[] {
+  const channels = new Set<string>();
+  const visit = (steps: Step[]) => {
+    for (const step of steps) {
+      if ('publish' in step && step.publish !== ANY_CHANNEL) channels.add(step.publish);
+      if ('branch' in step) step.branch.forEach(branch => visit(branch.steps));
+    }
+  };
+  scenario.actions.forEach(action => visit(action.steps));
+  return Array.from(channels);
+}
@@ -0,0 +1,337 @@
+import crypto from 'crypto';
+import { connect, headers, MsgHdrs, NatsConnection, JSONCodec, Subscription } from 'nats';
+import { Rng, pick, randomId, randomInt, seededRng } from 'service-kit/src/random';
+import { SpecMessage, publishableMessages } from './spec';
+import { FakeOptions, fakePayload } from './fake';
+import { tracePublish } from './telemetry';
+import { logger } from './logger';
+import {
+  ANY_CHANNEL,
+  Branch,
+  Delay,
+  PublishStep,
+  Scenario,
+  ScenarioAction,
+  Step,
+  publishedChannels,
+} from './scenario';
+
+export type Payload = Record<string, unknown>;
+
+// ============================================================================
+// Channels with built-in meaning for the order an action is about
+// ============================================================================
+const ORDER_CREATED = 'order.created';
+const INVENTORY_RESERVED = 'inventory.reserved';
+// Once one of these is published the order is no longer open for cancellation
+const TERMINAL_CHANNELS = ['order.cancelled', 'shipment.delivered'];
+
+// Envelope headers on every published message, see the message headers in the AsyncAPI files
+export const ENVELOPE_HEADERS = {
+  messageId: 'message-id',
+  correlationId: 'correlation-id',
+  causationId: 'causation-id',
+  timestamp: 'timestamp',
+  specVersion: 'spec-version',
+} as const;
+
+const CHANNEL_ICONS: Record<string, string> = {
+  'order.created': '🛒',
+  'order.cancelled': '🚫',
+  'inventory.reserved': '📦',
+  'payment.processed': '💳',
+  'payment.failed': '❌',
+  'shipment.delivered': '🚚',
+};
+
+/**
+ * The items of an order payload, as far as they are objects
+ */
+function itemsOf(order: Payload): Payload[] {
+  if (!Array.isArray(order.items)) return [];
+  return order.items.filter((item): item is Payload => item !== null && typeof item === 'object');
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' ? value : fallback;
+}
+
+// The order an action is about, shared by all of its steps
+export interface FlowState {
+  orderId?: string;
+  order?: Payload;
+  lastMessageId?: string;  // Causation id of the next message in the flow
+}
+
+// ============================================================================
+// Utility functions
+// ============================================================================
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// User Simulator Service
+// ============================================================================
+export class UserSimulator {
+  private jc = JSONCodec();
+  private activeOrders: Map<string, Payload> = new Map();
+  private running = true;
+  private messages: Map<string, SpecMessage>;
+  private rng: Rng;
+  // Called after every publish, e.g. to time an order from order.created onwards
+  onPublish?: (channel: string, payload: Payload) => void;
+  // Per-event console output, switched off under load
+  logEvents = true;
+
+  // `nc` is an open connection to use instead of connect(), e.g. a test double
+  constructor(private scenario: Scenario, readonly seed: number, private nc: NatsConnection | null = null) {
+    this.rng = seededRng(seed);
+    this.messages = publishableMessages();
+    for (const channel of publishedChannels(scenario)) {
+      if (!this.messages.has(channel)) {
+        throw new Error(`Channel ${channel} used by scenario "${scenario.name}" is not defined in any AsyncAPI file`);
+      }
+    }
+  }
+
+  get scenarioName(): string {
+    return this.scenario.name;
+  }
+
+  get stopped(): boolean {
+    return !this.running;
+  }
+
+  get channels(): SpecMessage[] {
+    return Array.from(this.messages.values());
+  }
+
+  /**
+   * With `noEcho` the connection does not receive what it publishes itself, so a
+   * subscriber only sees the services' replies
+   */
+  async connect(natsUrl: string = 'nats://localhost:4222', noEcho: boolean = false): Promise<void> {
+    logger.info(`🔌 Connecting to NATS at ${natsUrl}...`);
+    this.nc = await connect({ servers: natsUrl, noEcho });
+    logger.info(`✅ Connected to NATS server: ${this.nc.getServer()}`);
+  }
+
+  async disconnect(): Promise<void> {
+    this.running = false;
+    if (this.nc) {
+      await this.nc.drain();
+      logger.info('👋 Disconnected from NATS');
+    }
+  }
+
+  /**
+   * The spec's header defaults plus the envelope. The orderId is the correlation id
+   * and every message of a flow is caused by the one published before it.
+   */
+  private messageHeaders(channel: string, flow: FlowState): MsgHdrs {
+    const message = this.messages.get(channel);
+    const h = headers();
+    for (const [name, value] of Object.entries(message?.headers ?? {})) h.set(name, value);
+
+    const messageId = crypto.randomUUID();
+    h.set(ENVELOPE_HEADERS.messageId, messageId);
+    h.set(ENVELOPE_HEADERS.correlationId, flow.orderId ?? messageId);
+    if (flow.lastMessageId) h.set(ENVELOPE_HEADERS.causationId, flow.lastMessageId);
+    h.set(ENVELOPE_HEADERS.timestamp, new Date().toISOString());
+    if (message?.specVersion) h.set(ENVELOPE_HEADERS.specVersion, message.specVersion);
+    flow.lastMessageId = messageId;
+    return h;
+  }
+
+  private publish(channel: string, data: Payload, flow: FlowState): void {
+    if (!this.nc) throw new Error('Not connected to NATS');
+    const nc = this.nc;
+    const h = this.messageHeaders(channel, flow);
+    const messageName = this.messages.get(channel)?.messageName ?? channel;
+    tracePublish(channel, messageName, h, () => nc.publish(channel, this.jc.encode(data), { headers: h }));
+    this.onPublish?.(channel, data);
+  }
+
+  subscribe(channel: string, handler: (payload: Payload) => void): Subscription {
+    if (!this.nc) throw new Error('Not connected to NATS');
+    return this.nc.subscribe(channel, {
+      callback: (err, msg) => {
+        if (err) {
+          logger.error('❌ Subscription failed', { channel, err });
+          return;
+        }
+        handler(this.jc.decode(msg.data) as Payload);
+      },
+    });
+  }
+
+  /**
+   * Whether the order was created and has not reached a terminal channel yet
+   */
+  isActive(orderId: string): boolean {
+    return this.activeOrders.has(orderId);
+  }
+
+  /**
+   * Generates a payload for the channel from its AsyncAPI schema. Properties named in
+   * `context` (such as the orderId of a flow) are reused, `overrides` replace fields outright.
+   */
+  private fake(channel: string, context: Payload = {}, overrides: Payload = {}): Payload {
+    const message = this.messages.get(channel);
+    if (!message) throw new Error(`No AsyncAPI message for channel ${channel}`);
+    const options: FakeOptions = { rng: this.rng, context, pools: this.scenario.pools };
+    return fakePayload(message.payload, options, overrides);
+  }
+
+  private delayMs(delay: Delay): number {
+    return typeof delay === 'number' ? delay : randomInt(this.rng, delay.min, delay.max);
+  }
+
+  /**
+   * Picks an entry with probability proportional to its weight
+   */
+  chooseAction(actions: ScenarioAction[] = this.scenario.actions): ScenarioAction {
+    const total = actions.reduce((sum, action) => sum + action.weight, 0);
+    let roll = this.rng() * total;
+    for (const action of actions) {
+      roll -= action.weight;
+      if (roll < 0) return action;
+    }
+    return actions[actions.length - 1];
+  }
+
+  private chooseBranch(branches: Branch[]): Branch | undefined {
+    let roll = this.rng();
+    for (const branch of branches) {
+      roll -= branch.probability;
+      if (roll < 0) return branch;
+    }
+    return undefined;
+  }
+
+  // =========================================================================
+  // Scenario steps
+  // =========================================================================
+
+  /**
+   * Payload fields the order flow dictates: inventory is reserved for exactly the items ordered
+   */
+  private flowOverrides(channel: string, flow: FlowState): Payload {
+    if (channel === INVENTORY_RESERVED && flow.order) {
+      return { items: itemsOf(flow.order).map(i => ({ itemId: i.itemId, quantity: i.quantity })) };
+    }
+    return {};
+  }
+
+  /**
+   * Prices the generated items from the scenario's products and totals the order
+   */
+  private priceOrder(order: Payload): void {
+    const items = itemsOf(order).map(item => {
+      const product = this.scenario.products.find(p => p.itemId === item.itemId);
+      return product && 'price' in item ? { ...item, price: product.price } : item;
+    });
+    const totalAmount = Math.round(items.reduce((sum, i) => sum + numberOr(i.price, 0) * numberOr(i.quantity, 1), 0) * 100) / 100;
+    Object.assign(order, { items, totalAmount });
+  }
+
+  private publishStep(step: PublishStep, flow: FlowState): void {
+    let channel = step.publish;
+    if (channel === ANY_CHANNEL) {
+      // Background traffic, so every channel in the AsyncAPI files (including new ones) is exercised
+      const scripted = publishedChannels(this.scenario);
+      const candidates = this.channels.filter(m => !scripted.includes(m.channel));
+      if (candidates.length === 0) return;
+      channel = pick(this.rng, candidates).channel;
+    }
+
+    const context: Payload = {};
+    if (flow.orderId) context.orderId = flow.orderId;
+    if (flow.order?.userId) context.userId = flow.order.userId;
+    const payload = this.fake(channel, context, { ...this.flowOverrides(channel, flow), ...step.set });
+
+    if (channel === ORDER_CREATED && flow.orderId) {
+      this.priceOrder(payload);
+      flow.order = payload;
+      this.activeOrders.set(flow.orderId, payload);
+    }
+
+    const message = this.messages.get(channel)!;
+    const icon = CHANNEL_ICONS[channel] ?? '📡';
+    const subject = flow.orderId ? ` for order ${flow.orderId}` : ` from ${message.service}`;
+    const detail = channel === ORDER_CREATED ? ` - $${numberOr(payload.totalAmount, 0).toFixed(2)}` : '';
+    this.publish(channel, payload, flow);
+    if (this.logEvents) {
+      logger.info(`${icon} ${message.messageName} on ${channel}${subject}${detail}`, {
+        channel,
+        operation: message.operationId,
+        orderId: flow.orderId,
+        correlationId: flow.orderId ?? flow.lastMessageId,
+      });
+      logger.debug(`${icon} ${message.messageName} payload`, { channel, orderId: flow.orderId, payload });
+    }
+
+    if (TERMINAL_CHANNELS.includes(channel) && flow.orderId) {
+      this.activeOrders.delete(flow.orderId);
+    }
+  }
+
+  private async runSteps(steps: Step[], flow: FlowState): Promise<void> {
+    for (const step of steps) {
+      if ('publish' in step) {
+        this.publishStep(step, flow);
+      } else if ('delay' in step) {
+        await sleep(this.delayMs(step.delay));
+      } else {
+        const branch = this.chooseBranch(step.branch);
+        if (branch?.name && this.logEvents) logger.info(`🔀 ${branch.name}`, { orderId: flow.orderId });
+        if (branch) await this.runSteps(branch.steps, flow);
+      }
+    }
+  }
+
+  /**
+   * Runs one action of the scenario. Returns the order it was about, or null when
+   * it had nothing to act on.
+   */
+  async runAction(action: ScenarioAction): Promise<FlowState | null> {
+    const flow: FlowState = {};
+    if (action.order === 'new') {
+      flow.orderId = randomId(this.rng, 'ORD');
+    } else if (action.order === 'active') {
+      if (this.activeOrders.size === 0) return null;
+      flow.orderId = pick(this.rng, Array.from(this.activeOrders.keys()));
+      flow.order = this.activeOrders.get(flow.orderId);
+    }
+
+    if (this.logEvents) logger.info(`▶️  ${action.name}`, { orderId: flow.orderId });
+    await this.runSteps(action.steps, flow);
+    return flow;
+  }
+
+  /**
+   * Main simulation loop
+   */
+  async runSimulation(): Promise<void> {
+    logger.info(`🎮 Starting scenario "${this.scenario.name}" (seed ${this.seed})...`);
+
+    let actionCount = 0;
+
+    while (this.running && (this.scenario.maxActions === undefined || actionCount < this.scenario.maxActions)) {
+      try {
+        const action = this.chooseAction();
+        if (await this.runAction(action) !== null) actionCount++;
+
+        const waitTime = this.delayMs(this.scenario.delay);
+        logger.info(`⏳ Next action in ${(waitTime / 1000).toFixed(1)}s... (${actionCount} actions run)`);
+        await sleep(waitTime);
+
+      } catch (err) {
+        logger.error('❌ Error in simulation', { err });
+        await sleep(1000);
+      }
+    }
+    logger.info(`🏁 Scenario "${this.scenario.name}" finished after ${actionCount} actions`);
+  }
+}
@@ -0,0 +1,65 @@
+import { ASYNCAPI_DIR, JsonSchema, loadSpecs, operationMessages } from 'spec-tools/src/specs';
+
+export { ASYNCAPI_DIR, JsonSchema } from 'spec-tools/src/specs';
+
+// ============================================================================
+// AsyncAPI catalog: every message in eventcatalog/asyncapi-files/
+// ============================================================================
+export interface SpecMessage {
+  service: string;      // info.title of the document that declares it
+  file: string;         // File name inside ASYNCAPI_DIR
+  operationId: string;
+  action: 'send' | 'receive';
+  channel: string;      // Channel address, used as the NATS subject
+  messageName: string;
+  payload: JsonSchema;  // With every $ref resolved
+  headers: Record<string, string>;  // Header defaults the message declares, e.g. ec-message-type
+  specVersion: string;  // info.version of the document
+}
+
+function headerDefaults(schema: JsonSchema | undefined): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [name, property] of Object.entries(schema?.properties ?? {})) {
+    if (property.default !== undefined) values[name] = String(property.default);
+  }
+  return values;
+}
+
+/**
+ * loadSpecMessages - Reads every AsyncAPI file and lists the message of each operation
+ */
+export function loadSpecMessages(dir: string = ASYNCAPI_DIR): SpecMessage[] {
+  return loadSpecs(dir).flatMap(spec => operationMessages(spec).map(message => ({
+    service: message.service,
+    file: message.file,
+    operationId: message.operationId,
+    action: message.action,
+    channel: message.channel,
+    messageName: message.messageName,
+    payload: message.payload,
+    headers: headerDefaults(message.headers),
+    specVersion: spec.version,
+  })));
+}
+
+/**
+ * publishableMessages - One message definition per channel address for the simulator to publish.
+ * The producer's definition wins; channels nobody sends on (such as order.created, which comes
+ * from the storefront) use the consumer definition with the most properties.
+ */
+export function publishableMessages(messages: SpecMessage[] = loadSpecMessages()): Map<string, SpecMessage> {
+  const byChannel = new Map<string, SpecMessage>();
+  const propertyCount = (m: SpecMessage) => Object.keys(m.payload.properties ?? {}).length;
+
+  for (const message of messages) {
+    const current = byChannel.get(message.channel);
+    if (!current) {
+      byChannel.set(message.channel, message);
+    } else if (current.action !== 'send' && message.action === 'send') {
+      byChannel.set(message.channel, message);
+    } else if (current.action === message.action && propertyCount(message) > propertyCount(current)) {
+      byChannel.set(message.channel, message);
+    }
+  }
+  return byChannel;
+}
@@ -0,0 +1,150 @@
+import { Counter, SpanKind, SpanStatusCode, TextMapSetter, Tracer, context, metrics, propagation, trace } from '@opentelemetry/api';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  MetricReader,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { PrometheusExporter } from '@opentelemetry/exporter-prometheus';
+import { MsgHdrs } from 'nats';
+import { SERVICE_NAME, logger } from './logger';
+
+// ============================================================================
+// OpenTelemetry tracing and metrics, configured like the Orders Service:
+//
+//   OTEL_TRACES_EXPORTER    otlp | console | none (default)
+//   OTEL_METRICS_EXPORTER   otlp | prometheus | none (default)
+//   OTEL_EXPORTER_OTLP_ENDPOINT      Collector for otlp (default http://localhost:4318)
+//   OTEL_EXPORTER_PROMETHEUS_PORT    Port of the /metrics endpoint (default 9464)
+//
+// Every publish starts a trace, so a whole order flow can be followed from here.
+// ============================================================================
+export type TraceExporterKind = 'otlp' | 'console' | 'memory' | 'none';
+export type MetricExporterKind = 'otlp' | 'prometheus' | 'memory' | 'none';
+
+export interface TelemetryOptions {
+  traces: TraceExporterKind;
+  metrics: MetricExporterKind;
+  prometheusPort?: number;
+}
+
+export interface Telemetry {
+  spans?: InMemorySpanExporter;     // Only with traces: 'memory'
+  metrics?: InMemoryMetricExporter; // Only with metrics: 'memory', filled by flush()
+  flush(): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+// Replaced by initTelemetry; until then spans and metrics go to the no-op globals
+let tracer: Tracer = trace.getTracer(SERVICE_NAME);
+let published: Counter = metrics.getMeter(SERVICE_NAME).createCounter('messaging.messages');
+
+const headerSetter: TextMapSetter<MsgHdrs> = {
+  set: (carrier, key, value) => carrier.set(key, value),
+};
+
+export function telemetryOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): TelemetryOptions {
+  return {
+    traces: (env.OTEL_TRACES_EXPORTER || 'none') as TraceExporterKind,
+    metrics: (env.OTEL_METRICS_EXPORTER || 'none') as MetricExporterKind,
+    prometheusPort: env.OTEL_EXPORTER_PROMETHEUS_PORT ? Number(env.OTEL_EXPORTER_PROMETHEUS_PORT) : undefined,
+  };
+}
+
+function spanProcessor(kind: TraceExporterKind, memory: InMemorySpanExporter | undefined): SpanProcessor | undefined {
+  switch (kind) {
+    case 'otlp': return new BatchSpanProcessor(new OTLPTraceExporter());
+    case 'console': return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case 'memory': return new SimpleSpanProcessor(memory!);
+    case 'none': return undefined;
+    default: throw new Error(`Unknown traces exporter "${kind}", expected otlp, console, memory or none`);
+  }
+}
+
+function metricReader(options: TelemetryOptions, memory: InMemoryMetricExporter | undefined): MetricReader | undefined {
+  switch (options.metrics) {
+    case 'otlp': return new PeriodicExportingMetricReader({ exporter: new OTLPMetricExporter() });
+    case 'prometheus': return new PrometheusExporter({ port: options.prometheusPort });
+    case 'memory': return new PeriodicExportingMetricReader({ exporter: memory!, exportIntervalMillis: 2 ** 31 - 1 });
+    case 'none': return undefined;
+    default: throw new Error(`Unknown metrics exporter "${options.metrics}", expected otlp, prometheus, memory or none`);
+  }
+}
+
+/**
+ * initTelemetry - Sets up the tracer and meter providers and their exporters
+ */
+export function initTelemetry(options: TelemetryOptions): Telemetry {
+  const resource = resourceFromAttributes({ 'service.name': SERVICE_NAME });
+  const spans = options.traces === 'memory' ? new InMemorySpanExporter() : undefined;
+  const memoryMetrics = options.metrics === 'memory'
+    ? new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE)
+    : undefined;
+
+  const processor = spanProcessor(options.traces, spans);
+  const tracerProvider = new NodeTracerProvider({ resource, spanProcessors: processor ? [processor] : [] });
+  tracerProvider.register();
+  tracer = tracerProvider.getTracer(SERVICE_NAME);
+
+  const reader = metricReader(options, memoryMetrics);
+  const meterProvider = new MeterProvider({ resource, readers: reader ? [reader] : [] });
+  published = meterProvider.getMeter(SERVICE_NAME).createCounter('messaging.messages', {
+    description: 'Messages published, by channel',
+  });
+
+  if (options.traces !== 'none' || options.metrics !== 'none') {
+    logger.info(`🔭 Telemetry: traces → ${options.traces}, metrics → ${options.metrics}`);
+  }
+
+  return {
+    spans,
+    metrics: memoryMetrics,
+    flush: async () => {
+      await tracerProvider.forceFlush();
+      await meterProvider.forceFlush();
+    },
+    shutdown: async () => {
+      await tracerProvider.shutdown();
+      await meterProvider.shutdown();
+    },
+  };
+}
+
+/**
+ * tracePublish - Runs `publish` in a producer span, injecting its trace context into the headers first
+ */
+export function tracePublish(channel: string, messageName: string, h: MsgHdrs, publish: () => void): void {
+  tracer.startActiveSpan(`send ${channel}`, {
+    kind: SpanKind.PRODUCER,
+    attributes: {
+      'messaging.system': 'nats',
+      'messaging.destination.name': channel,
+      'messaging.operation.type': 'send',
+      'messaging.message.name': messageName,
+    },
+  }, span => {
+    propagation.inject(context.active(), h, headerSetter);
+    try {
+      publish();
+      published.add(1, { channel, direction: 'send' });
+    } catch (err) {
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+      throw err;
+    } finally {
+      span.end();
+    }
+  });
+}
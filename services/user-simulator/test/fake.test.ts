@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, test } from 'node:test';
+import { SpecValidation, specValidation } from 'service-kit/src/validation';
+import { seededRng } from 'service-kit/src/random';
+import { FakeOptions, fakePayload } from '../src/fake';
+import { ASYNCAPI_DIR, SpecMessage, loadSpecMessages, publishableMessages } from '../src/spec';
+
+// ============================================================================
+// Fake payloads from the AsyncAPI schemas
+// ============================================================================
+function options(seed: number, overrides: Partial<FakeOptions> = {}): FakeOptions {
+  return { rng: seededRng(seed), context: {}, pools: {}, ...overrides };
+}
+
+function message(channel: string): SpecMessage {
+  const found = publishableMessages().get(channel);
+  assert.ok(found, `expected an AsyncAPI message on ${channel}`);
+  return found;
+}
+
+describe('fakePayload', () => {
+  test('generates payloads the AsyncAPI file of every message accepts', () => {
+    const validations = new Map<string, SpecValidation>();
+    for (const { file, channel, messageName, payload } of loadSpecMessages()) {
+      if (!validations.has(file)) validations.set(file, specValidation(path.join(ASYNCAPI_DIR, file)));
+      for (let seed = 1; seed <= 20; seed++) {
+        validations.get(file)!.validatePayload(channel, messageName, fakePayload(payload, options(seed)), 'send');
+      }
+    }
+    assert.ok(validations.size > 0);
+  });
+
+  test('gives the same payload for the same seed', () => {
+    const { payload } = message('order.created');
+
+    assert.deepEqual(fakePayload(payload, options(7)), fakePayload(payload, options(7)));
+    assert.notDeepEqual(fakePayload(payload, options(7)), fakePayload(payload, options(8)));
+  });
+
+  test('uses the context value for a property of that name at any depth', () => {
+    const order = fakePayload(message('order.created').payload, options(1, { context: { orderId: 'ORD-1', itemId: 'ITEM-9' } }));
+
+    assert.equal(order.orderId, 'ORD-1');
+    assert.ok(Array.isArray(order.items) && order.items.length > 0);
+    for (const item of order.items) assert.equal(item.itemId, 'ITEM-9');
+  });
+
+  test('picks from the pool of a property', () => {
+    const order = fakePayload(message('order.created').payload, options(1, { pools: { userId: ['user-007'] } }));
+
+    assert.equal(order.userId, 'user-007');
+  });
+
+  test('applies the overrides on top of the generated payload', () => {
+    const payment = fakePayload(message('payment.processed').payload, options(1, { context: { orderId: 'ORD-1' } }), {
+      orderId: 'ORD-2',
+      status: 'refunded',
+    });
+
+    assert.equal(payment.orderId, 'ORD-2');
+    assert.equal(payment.status, 'refunded');
+  });
+
+  test('leaves out overrides the schema does not allow', () => {
+    const schema = { type: 'object', properties: { reason: { type: 'string' } }, additionalProperties: false };
+
+    assert.deepEqual(fakePayload(schema, options(1), { reason: 'Out of stock', extra: true }), { reason: 'Out of stock' });
+  });
+});
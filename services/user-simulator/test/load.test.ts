@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { NatsConnection } from 'nats';
+import { LoadOptions, latencyStats, runLoad, targetRate } from '../src/load';
+import { parseScenario } from '../src/scenario';
+import { UserSimulator } from '../src/simulator';
+
+// ============================================================================
+// Load mode: ramp-up, the concurrency cap and latency percentiles
+// ============================================================================
+const OPTIONS: LoadOptions = { rate: 100, concurrency: 10, rampUp: 10, duration: 60, timeout: 30 };
+
+// Every action creates an order and closes the flow, so only the answer is outstanding
+const SCENARIO = parseScenario({
+  name: 'load',
+  actions: [{ name: 'order', weight: 1, order: 'new', steps: [{ publish: 'order.created' }, { publish: 'shipment.delivered' }] }],
+}, 'load.yml');
+
+type Callback = (err: Error | null, msg: { data: Uint8Array }) => void;
+
+/**
+ * A simulator on a connection that answers every order.created on `answer` after
+ * `delayMs`, or never without an `answer`
+ */
+function loadSimulator(answer?: 'order.completed' | 'order.cancelled', delayMs: number = 5): UserSimulator {
+  const subscribers = new Map<string, Callback>();
+  const nc = {
+    publish: (channel: string, data: Uint8Array) => {
+      const callback = answer && subscribers.get(answer);
+      if (channel !== 'order.created' || !callback) return;
+      const { orderId } = JSON.parse(new TextDecoder().decode(data));
+      setTimeout(() => callback(null, { data: new TextEncoder().encode(JSON.stringify({ orderId })) }), delayMs);
+    },
+    subscribe: (channel: string, opts: { callback: Callback }) => {
+      subscribers.set(channel, opts.callback);
+      return { unsubscribe: () => subscribers.delete(channel) };
+    },
+  } as unknown as NatsConnection;
+  return new UserSimulator(SCENARIO, 1, nc);
+}
+
+describe('targetRate', () => {
+  test('climbs linearly to the rate over the ramp-up', () => {
+    assert.equal(targetRate(OPTIONS, 0), 0);
+    assert.equal(targetRate(OPTIONS, 2.5), 25);
+    assert.equal(targetRate(OPTIONS, 5), 50);
+  });
+
+  test('holds the rate once ramped up', () => {
+    assert.equal(targetRate(OPTIONS, 10), 100);
+    assert.equal(targetRate(OPTIONS, 45), 100);
+  });
+
+  test('starts at the full rate without a ramp-up', () => {
+    assert.equal(targetRate({ ...OPTIONS, rampUp: 0 }, 0), 100);
+  });
+});
+
+describe('latencyStats', () => {
+  test('takes nearest-rank percentiles', () => {
+    const samples = Array.from({ length: 100 }, (_, i) => 100 - i);
+
+    assert.deepEqual(latencyStats(samples), { count: 100, min: 1, mean: 50.5, p50: 50, p90: 90, p95: 95, p99: 99, max: 100 });
+  });
+
+  test('rounds to hundredths of a millisecond', () => {
+    assert.deepEqual(latencyStats([1.234, 2.345, 3.456]), {
+      count: 3, min: 1.23, mean: 2.35, p50: 2.35, p90: 3.46, p95: 3.46, p99: 3.46, max: 3.46,
+    });
+  });
+
+  test('reports a single sample as every percentile', () => {
+    assert.deepEqual(latencyStats([12]), { count: 1, min: 12, mean: 12, p50: 12, p90: 12, p95: 12, p99: 12, max: 12 });
+  });
+
+  test('reports zeros without samples', () => {
+    assert.deepEqual(latencyStats([]), { count: 0, min: 0, mean: 0, p50: 0, p90: 0, p95: 0, p99: 0, max: 0 });
+  });
+});
+
+describe('runLoad', () => {
+  test('starts no more actions than the concurrency while orders wait for an answer', async () => {
+    const report = await runLoad(loadSimulator(), { rate: 200, concurrency: 3, rampUp: 0, duration: 0.3, timeout: 0.5 });
+
+    assert.equal(report.actions.started, 3);
+    assert.ok(report.actions.throttled > 0);
+    assert.deepEqual(report.orders, { created: 3, completed: 0, cancelled: 0, timedOut: 3, abandoned: 0 });
+    assert.deepEqual(report.errors, { 'No outcome within 0.5s': 3 });
+  });
+
+  test('times every order until its answer', async () => {
+    const report = await runLoad(loadSimulator('order.completed', 20), { rate: 50, concurrency: 100, rampUp: 0, duration: 0.2, timeout: 5 });
+
+    assert.ok(report.orders.created > 0);
+    assert.equal(report.orders.completed, report.orders.created);
+    assert.equal(report.orders.timedOut, 0);
+    assert.equal(report.latencyMs.completed.count, report.orders.created);
+    assert.ok(report.latencyMs.completed.min >= 15, `expected latencies of about 20ms, got ${report.latencyMs.completed.min}`);
+    assert.deepEqual(report.latencyMs.all, report.latencyMs.completed);
+    assert.equal(report.latencyMs.cancelled.count, 0);
+  });
+});
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { ScenarioError, loadScenario, parseScenario, publishedChannels } from '../src/scenario';
+
+// ============================================================================
+// Scenario files: checking, defaults and the bundled scenarios
+// ============================================================================
+const MINIMAL = { actions: [{ name: 'order', weight: 1, steps: [{ publish: 'order.created' }] }] };
+
+/**
+ * Asserts parsing `doc` fails at `at` with a message matching `message`
+ */
+function assertRejected(doc: unknown, at: string, message: RegExp): void {
+  assert.throws(() => parseScenario(doc, 'test.yml'), (err: unknown) => {
+    assert.ok(err instanceof ScenarioError);
+    assert.equal(err.file, 'test.yml');
+    assert.equal(err.at, at);
+    assert.match(err.message, message);
+    return true;
+  });
+}
+
+describe('parseScenario', () => {
+  test('fills in the defaults', () => {
+    const scenario = parseScenario({ ...MINIMAL, products: [{ itemId: 'ITEM-001', price: 9.99 }] }, 'scenarios/minimal.yml');
+
+    assert.equal(scenario.name, 'minimal');
+    assert.equal(scenario.delay, 0);
+    assert.equal(scenario.seed, undefined);
+    assert.deepEqual(scenario.products, [{ itemId: 'ITEM-001', name: 'ITEM-001', price: 9.99 }]);
+    assert.deepEqual(scenario.pools, { itemId: ['ITEM-001'] });
+    assert.deepEqual(scenario.load, {});
+  });
+
+  test('rejects a document that is not an object', () => {
+    assertRejected([], 'scenario', /expected an object/);
+  });
+
+  test('rejects a seed that is not an integer', () => {
+    assertRejected({ ...MINIMAL, seed: 1.5 }, 'seed', /expected an integer/);
+  });
+
+  test('rejects a scenario without actions', () => {
+    assertRejected({ actions: [] }, 'actions', /expected a non-empty list/);
+  });
+
+  test('rejects a scenario whose actions all have weight 0', () => {
+    assertRejected({ actions: [{ weight: 0, steps: [] }] }, 'actions', /at least one action needs a weight above 0/);
+  });
+
+  test('rejects a negative weight', () => {
+    assertRejected({ actions: [{ weight: -1, steps: [] }] }, 'actions[0].weight', /expected a number >= 0/);
+  });
+
+  test('rejects an unknown order kind', () => {
+    assertRejected({ actions: [{ weight: 1, order: 'old', steps: [] }] }, 'actions[0].order', /expected "new" or "active"/);
+  });
+
+  test('rejects a product without a price', () => {
+    assertRejected({ ...MINIMAL, products: [{ itemId: 'ITEM-001' }] }, 'products[0]', /expected \{ itemId, name, price \}/);
+  });
+
+  test('rejects an empty pool', () => {
+    assertRejected({ ...MINIMAL, pools: { userId: [] } }, 'pools.userId', /expected a non-empty list/);
+  });
+
+  test('rejects a delay range with min above max', () => {
+    assertRejected({ ...MINIMAL, delay: { min: 500, max: 100 } }, 'delay', /0 <= min <= max/);
+  });
+
+  test('rejects a step that is neither publish, delay nor branch', () => {
+    assertRejected({ actions: [{ weight: 1, steps: [{ wait: 10 }] }] }, 'actions[0].steps[0]', /expected one of publish, delay or branch/);
+  });
+
+  test('points at the offending step inside a branch', () => {
+    const steps = [{ branch: [{ probability: 0.5, steps: [{ publish: 'payment.processed', set: 'paid' }] }] }];
+
+    assertRejected({ actions: [{ weight: 1, steps }] }, 'actions[0].steps[0].branch[0].steps[0].set', /expected an object/);
+  });
+
+  test('rejects branch probabilities above 1', () => {
+    const branch = [{ probability: 0.6, steps: [] }, { probability: 0.6, steps: [] }];
+
+    assertRejected({ actions: [{ weight: 1, steps: [{ branch }] }] }, 'actions[0].steps[0].branch', /add up to 1\.2, more than 1/);
+  });
+
+  test('rejects a branch probability outside 0 to 1', () => {
+    assertRejected(
+      { actions: [{ weight: 1, steps: [{ branch: [{ probability: 2, steps: [] }] }] }] },
+      'actions[0].steps[0].branch[0].probability',
+      /expected a number between 0 and 1/
+    );
+  });
+
+  test('rejects unknown and non-positive load settings', () => {
+    assertRejected({ ...MINIMAL, load: { workers: 4 } }, 'load.workers', /unknown setting/);
+    assertRejected({ ...MINIMAL, load: { rate: 0 } }, 'load.rate', /expected a number above 0/);
+    assertRejected({ ...MINIMAL, load: { rampUp: -1 } }, 'load.rampUp', /expected a number >= 0/);
+  });
+});
+
+describe('bundled scenarios', () => {
+  for (const name of ['default', 'payment-failures', 'services']) {
+    test(`${name} parses`, () => {
+      const scenario = loadScenario(name);
+
+      assert.equal(scenario.name, name);
+      assert.ok(publishedChannels(scenario).length > 0);
+    });
+  }
+});
@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { NatsConnection } from 'nats';
+import { ENVELOPE_HEADERS, Payload, UserSimulator } from '../src/simulator';
+import { loadScenario, parseScenario } from '../src/scenario';
+
+// ============================================================================
+// UserSimulator runs on a connection that records what is published
+// ============================================================================
+interface Published {
+  channel: string;
+  payload: Payload;
+  headers: Record<string, string>;
+}
+
+// An order flow with a branch per payment outcome and background traffic, without delays
+const SCENARIO = parseScenario({
+  name: 'seeded',
+  products: [{ itemId: 'ITEM-001', price: 10 }, { itemId: 'ITEM-002', price: 2.5 }],
+  pools: { userId: ['user-001', 'user-002', 'user-003'] },
+  actions: [
+    {
+      name: 'order flow',
+      weight: 3,
+      order: 'new',
+      steps: [
+        { publish: 'order.created' },
+        { publish: 'inventory.reserved' },
+        {
+          branch: [
+            { name: 'paid', probability: 0.5, steps: [{ publish: 'payment.processed', set: { status: 'completed' } }] },
+            { name: 'declined', probability: 0.3, steps: [{ publish: 'payment.failed' }, { publish: 'order.cancelled' }] },
+          ],
+        },
+      ],
+    },
+    { name: 'cancel', weight: 1, order: 'active', steps: [{ publish: 'order.cancelled' }] },
+    { name: 'background', weight: 1, steps: [{ publish: '*' }] },
+  ],
+}, 'seeded.yml');
+
+/**
+ * A simulator for SCENARIO whose publishes land in the returned list
+ */
+function recordingSimulator(seed: number, scenario = SCENARIO): { simulator: UserSimulator; published: Published[] } {
+  const published: Published[] = [];
+  const nc = {
+    publish: (channel: string, data: Uint8Array, opts: { headers: Iterable<[string, string[]]> }) => {
+      const headers: Record<string, string> = {};
+      for (const [name, values] of opts.headers) headers[name] = values[0];
+      published.push({ channel, payload: JSON.parse(new TextDecoder().decode(data)), headers });
+    },
+  } as unknown as NatsConnection;
+  const simulator = new UserSimulator(scenario, seed, nc);
+  simulator.logEvents = false;
+  return { simulator, published };
+}
+
+/**
+ * Runs `count` actions picked by the simulator, returning the names of those it ran
+ */
+async function runActions(simulator: UserSimulator, count: number): Promise<string[]> {
+  const names: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const action = simulator.chooseAction();
+    if (await simulator.runAction(action) !== null) names.push(action.name);
+  }
+  return names;
+}
+
+describe('UserSimulator', () => {
+  test('repeats actions, branches and payloads for the same seed and scenario', async () => {
+    const first = recordingSimulator(42);
+    const second = recordingSimulator(42);
+
+    const actions = await runActions(first.simulator, 30);
+
+    assert.deepEqual(await runActions(second.simulator, 30), actions);
+    assert.deepEqual(
+      second.published.map(({ channel, payload }) => ({ channel, payload })),
+      first.published.map(({ channel, payload }) => ({ channel, payload }))
+    );
+    // Both outcomes of the branch and every kind of action came up
+    const channels = first.published.map(message => message.channel);
+    assert.ok(channels.includes('payment.processed') && channels.includes('payment.failed'));
+    assert.deepEqual(new Set(actions), new Set(['order flow', 'cancel', 'background']));
+  });
+
+  test('takes a different course for another seed', async () => {
+    const first = recordingSimulator(42);
+    const second = recordingSimulator(43);
+
+    await runActions(first.simulator, 30);
+    await runActions(second.simulator, 30);
+
+    assert.notDeepEqual(second.published.map(m => m.payload), first.published.map(m => m.payload));
+  });
+
+  test('keeps one order, priced from the products, through a flow', async () => {
+    const { simulator, published } = recordingSimulator(1);
+
+    const flow = await simulator.runAction(SCENARIO.actions[0]);
+
+    const [created, reserved] = published;
+    assert.equal(created.channel, 'order.created');
+    assert.equal(created.payload.orderId, flow?.orderId);
+    assert.ok(published.every(message => message.payload.orderId === flow?.orderId));
+    assert.ok(published.every(message => message.headers[ENVELOPE_HEADERS.correlationId] === flow?.orderId));
+    assert.equal(reserved.headers[ENVELOPE_HEADERS.causationId], created.headers[ENVELOPE_HEADERS.messageId]);
+
+    const items = created.payload.items as Array<{ itemId: string; quantity: number; price: number }>;
+    const prices: Record<string, number> = { 'ITEM-001': 10, 'ITEM-002': 2.5 };
+    for (const item of items) assert.equal(item.price, prices[item.itemId]);
+    assert.equal(created.payload.totalAmount, items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+    assert.deepEqual(reserved.payload.items, items.map(({ itemId, quantity }) => ({ itemId, quantity })));
+  });
+
+  test('skips an action on an active order while there is none', async () => {
+    const { simulator, published } = recordingSimulator(1);
+
+    assert.equal(await simulator.runAction(SCENARIO.actions[1]), null);
+    assert.deepEqual(published, []);
+  });
+
+  for (const name of ['default', 'payment-failures', 'services']) {
+    test(`accepts the bundled ${name} scenario, whose channels are all in the AsyncAPI files`, () => {
+      assert.doesNotThrow(() => recordingSimulator(1, loadScenario(name)));
+    });
+  }
+
+  test('refuses a scenario that publishes to a channel no AsyncAPI file defines', () => {
+    const scenario = parseScenario({ actions: [{ weight: 1, steps: [{ publish: 'order.teleported' }] }] }, 'unknown.yml');
+
+    assert.throws(() => recordingSimulator(1, scenario), /Channel order\.teleported used by scenario "unknown"/);
+  });
+});
@@ -0,0 +1,221 @@
+import path from 'path';
+import { OperationMessage, operationMessages } from './specs';
+import { GeneratorOutput, RenderContext, camelCase, generatedHeader, importPath, pascalCase, quote } from './render';
+import { channelMessages, isHeadersOutput, isPayloadsOutput } from './payloads';
+
+// ============================================================================
+// The types, parameters and channels presets: channel addresses and operation
+// ids, channel parameters, and a typed function per send and receive operation
+// ============================================================================
+export interface ChannelsOutput extends GeneratorOutput {
+  functions: Record<string, string>;  // Function of every operation, by operation id, in `<outputPath>/index.ts`
+}
+
+const PARAMETER = /\{([^}]+)\}/g;
+
+function parametersOf(address: string): string[] {
+  return Array.from(address.matchAll(PARAMETER), match => match[1]);
+}
+
+function union(members: string[]): string {
+  if (members.length === 0) return ' never;';
+  return ['', ...members.map(m => `  | ${quote(m)}`)].join('\n') + ';';
+}
+
+/**
+ * renderTypes - The types preset: `<outputPath>/index.ts` with the address of every channel
+ * and the ids of the send and receive operations
+ */
+export function renderTypes({ spec, outputPath }: RenderContext): GeneratorOutput {
+  const channels = new Map(channelMessages(spec).map(m => [m.channelId, m.address]));
+  for (const [channelId, channel] of Object.entries(spec.doc.channels ?? {})) {
+    if (!channels.has(channelId)) channels.set(channelId, channel.address);
+  }
+  const operations = Object.entries(spec.doc.operations ?? {});
+  const ids = (action: string) => operations.filter(([, o]) => o.action === action).map(([id]) => id);
+
+  const content = [
+    generatedHeader('types', spec),
+    '',
+    '// The address of every channel, by channel id',
+    'export const CHANNEL_ADDRESSES = {',
+    ...Array.from(channels, ([channelId, address]) => `  ${channelId}: ${quote(address)},`),
+    '} as const;',
+    '',
+    'export type ChannelId = keyof typeof CHANNEL_ADDRESSES;',
+    'export type ChannelAddress = (typeof CHANNEL_ADDRESSES)[ChannelId];',
+    '',
+    `export type SendOperationId =${union(ids('send'))}`,
+    `export type ReceiveOperationId =${union(ids('receive'))}`,
+    '',
+  ].join('\n');
+  return { outputPath, files: [{ path: path.join(outputPath, 'index.ts'), content }] };
+}
+
+/**
+ * renderParameters - The parameters preset: `<outputPath>/<Channel>Parameters.ts` for every
+ * channel whose address has `{parameters}`, with a function filling them in
+ */
+export function renderParameters({ spec, outputPath }: RenderContext): GeneratorOutput {
+  const files = Object.entries(spec.doc.channels ?? {}).flatMap(([channelId, channel]) => {
+    const parameters = parametersOf(channel.address);
+    if (parameters.length === 0) return [];
+    const name = `${pascalCase(channelId)}Parameters`;
+    const address = channel.address.replace(PARAMETER, (_, parameter: string) => `\${parameters.${camelCase(parameter)}}`);
+    const content = [
+      generatedHeader('parameters', spec),
+      '',
+      '/**',
+      ` * ${name} - The parameters of the ${channelId} channel, ${channel.address}`,
+      ' */',
+      `export interface ${name} {`,
+      ...parameters.map(p => `  ${camelCase(p)}: string;`),
+      '}',
+      '',
+      `export function ${camelCase(channelId)}Address(parameters: ${name}): string {`,
+      `  return \`${address}\`;`,
+      '}',
+      '',
+    ].join('\n');
+    return [{ path: path.join(outputPath, `${name}.ts`), content }];
+  });
+  return { outputPath, files };
+}
+
+// ============================================================================
+// Channels
+// ============================================================================
+
+// The part of the rendered file every service shares
+const RUNTIME = [
+  '// A model class of the payloads preset',
+  'export interface ChannelPayload {',
+  '  toJSON(): Record<string, unknown>;',
+  '  marshal(): string;',
+  '}',
+  '',
+  'export interface SendOperation {',
+  '  operationId: string;',
+  '  channel: string;                  // Channel address',
+  '  messageName: string;',
+  '  headers: Record<string, string>;  // The header defaults the spec gives the message, e.g. ec-message-type',
+  '}',
+  '',
+  'export interface ReceiveOperation<T> {',
+  '  operationId: string;',
+  '  channel: string;',
+  '  messageName: string;',
+  '  unmarshal(json: string | object): T;',
+  '}',
+  '',
+  'export interface ChannelSubscription {',
+  '  unsubscribe(): void;',
+  '}',
+  '',
+  '/**',
+  ' * ChannelRuntime - What the operations below send and receive through. The service decides',
+  ' * how: the broker, validation, retries and dead-lettering, and what the envelope `E` of a',
+  ' * message and the options `O` of a receive operation are. A handler that throws fails the message.',
+  ' */',
+  'export interface ChannelRuntime<E = unknown, O = unknown> {',
+  '  send(operation: SendOperation, message: ChannelPayload, envelope?: E): Promise<void>;',
+  '  receive<T>(operation: ReceiveOperation<T>, handler: (message: T, envelope: Partial<E>) => Promise<void>, options?: O): ChannelSubscription;',
+  '}',
+];
+
+function renderOperation(message: OperationMessage, model: string, headers: string): string[] {
+  const { operationId, channel, messageName } = message;
+  const operation = [
+    `    operationId: ${quote(operationId)},`,
+    `    channel: ${quote(channel)},`,
+    `    messageName: ${quote(messageName)},`,
+  ];
+
+  if (message.action === 'send') {
+    return [
+      '/**',
+      ` * ${operationId} - Sends ${messageName} on ${channel}`,
+      ' */',
+      `export function ${operationId}<E>(runtime: ChannelRuntime<E>, message: ${model}, envelope?: E): Promise<void> {`,
+      '  return runtime.send({',
+      ...operation,
+      `    headers: ${headers},`,
+      '  }, message, envelope);',
+      '}',
+    ];
+  }
+  return [
+    '/**',
+    ` * ${operationId} - Hands every ${messageName} on ${channel} to \`handler\``,
+    ' */',
+    `export function ${operationId}<E, O>(`,
+    '  runtime: ChannelRuntime<E, O>,',
+    `  handler: (message: ${model}, envelope: Partial<E>) => Promise<void>,`,
+    '  options?: O',
+    '): ChannelSubscription {',
+    '  return runtime.receive({',
+    ...operation,
+    `    unmarshal: ${model}.unmarshal,`,
+    '  }, handler, options);',
+    '}',
+  ];
+}
+
+/**
+ * renderChannels - The channels preset: `<outputPath>/index.ts` with a function per send and
+ * receive operation, named after it, over a ChannelRuntime the service implements. Reads the
+ * model classes and header defaults from the payloads and headers generators.
+ */
+export function renderChannels({ spec, outputPath, dependencyOutputs }: RenderContext): ChannelsOutput {
+  const payloads = dependencyOutputs['payloads-typescript'];
+  const headers = dependencyOutputs['headers-typescript'];
+  if (!isPayloadsOutput(payloads) || !isHeadersOutput(headers)) {
+    throw new Error('The channels preset needs the payloads-typescript and headers-typescript generators');
+  }
+
+  const imports = new Map<string, string>();  // Imported name → module
+  const functions: Record<string, string> = {};
+  const blocks: string[][] = [];
+
+  const byOperation = new Map<string, OperationMessage[]>();
+  for (const message of operationMessages(spec)) {
+    byOperation.set(message.operationId, [...(byOperation.get(message.operationId) ?? []), message]);
+  }
+
+  for (const [operationId, messages] of byOperation) {
+    const [message] = messages;
+    if (messages.length > 1) throw new Error(`${spec.file}: ${operationId} has several messages, the channels preset supports one`);
+    if (parametersOf(message.channel).length > 0) {
+      throw new Error(`${spec.file}: ${operationId} is on ${message.channel}, the channels preset does not fill in parameters`);
+    }
+
+    const key = `${message.channelId}/${message.messageName}`;
+    const model = payloads.models[key];
+    if (!model) throw new Error(`${spec.file}: ${operationId} sends or receives ${message.messageName}, which has no payload`);
+    imports.set(model, `${importPath(outputPath, payloads.outputPath)}/${model}`);
+
+    let headerDefaults = '{}';
+    const defaults = headers.defaults[key];
+    if (defaults && message.action === 'send') {
+      imports.set(defaults.constant, `${importPath(outputPath, headers.outputPath)}/${defaults.file}`);
+      headerDefaults = defaults.constant;
+    }
+
+    functions[operationId] = operationId;
+    blocks.push(renderOperation(message, model, headerDefaults));
+  }
+
+  const content = [
+    generatedHeader('channels', spec),
+    ...Array.from(imports).sort(([nameA, a], [nameB, b]) => a.localeCompare(b) || nameA.localeCompare(nameB)).map(([name, module]) => `import { ${name} } from ${quote(module)};`),
+    '',
+    ...RUNTIME,
+    ...blocks.flatMap(block => ['', ...block]),
+    '',
+  ].join('\n');
+  return { outputPath, files: [{ path: path.join(outputPath, 'index.ts'), content }], functions };
+}
+
+export function isChannelsOutput(output: GeneratorOutput | undefined): output is ChannelsOutput {
+  return output !== undefined && 'functions' in output;
+}
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { ASYNCAPI_DIR } from './specs';
+import { CodegenConfiguration, compareOutputs, generate, writeOutputs } from './codegen';
+
+// ============================================================================
+// Codegen for every service
+//
+//   yarn codegen [service...]           Regenerate src/__gen__ of every service with a codegen.ts
+//   yarn codegen [service...] --check   Fail when the committed src/__gen__ is not what it generates
+//
+// Also fails when an AsyncAPI file has no service generating code from it.
+// ============================================================================
+export const SERVICES_DIR = path.resolve(__dirname, '../../../services');
+
+interface CodegenTarget {
+  service: string;
+  dir: string;
+  config: CodegenConfiguration;
+}
+
+function loadTarget(service: string): CodegenTarget | undefined {
+  const dir = path.join(SERVICES_DIR, service);
+  const configFile = path.join(dir, 'codegen.ts');
+  if (!fs.existsSync(configFile)) return undefined;
+
+  // Run through ts-node, so the config loads as TypeScript
+  const config: CodegenConfiguration | undefined = require(configFile).default;
+  if (!config?.inputPath || !Array.isArray(config.generators)) {
+    throw new Error(`${configFile} does not export a codegen configuration as default`);
+  }
+  return { service, dir, config };
+}
+
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: { check: { type: 'boolean', default: false } },
+  });
+
+  const targets = fs.readdirSync(SERVICES_DIR)
+    .sort()
+    .map(loadTarget)
+    .filter((t): t is CodegenTarget => t !== undefined);
+
+  const unknown = positionals.filter(service => !targets.some(t => t.service === service));
+  if (unknown.length > 0) {
+    console.error(`❌ No codegen.ts in services/${unknown.join(', services/')}`);
+    process.exit(2);
+  }
+
+  const failures: string[] = [];
+
+  const covered = targets.map(t => path.resolve(t.dir, t.config.inputPath));
+  for (const file of fs.readdirSync(ASYNCAPI_DIR).filter(f => /\.ya?ml$/.test(f)).sort()) {
+    if (!covered.includes(path.join(ASYNCAPI_DIR, file))) {
+      failures.push(`${file}: no services/*/codegen.ts uses it as inputPath`);
+    }
+  }
+
+  const selected = positionals.length > 0 ? targets.filter(t => positionals.includes(t.service)) : targets;
+  for (const { service, dir, config } of selected) {
+    console.log(`⚙️  ${service} ← ${path.relative(SERVICES_DIR, path.resolve(dir, config.inputPath))}`);
+
+    try {
+      const outputs = generate(config, dir);
+      if (!values.check) {
+        writeOutputs(outputs, dir);
+        outputs.forEach(o => console.log(`   ${o.outputPath}: ${o.files.length} file(s)`));
+        continue;
+      }
+
+      const generatedDir = fs.mkdtempSync(path.join(os.tmpdir(), `codegen-${service}-`));
+      try {
+        writeOutputs(outputs, generatedDir);
+        const differences = compareOutputs(outputs.map(o => o.outputPath), generatedDir, dir);
+        failures.push(...differences.map(d => `${service}: ${d}`));
+      } finally {
+        fs.rmSync(generatedDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      failures.push(`${service}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.log();
+    failures.forEach(f => console.log(`❌ ${f}`));
+    if (values.check) console.log('\nRun `yarn codegen` and commit src/__gen__');
+    process.exit(1);
+  }
+  console.log(`\n✅ ${selected.length} service(s) ${values.check ? 'up to date' : 'generated'}`);
+}
+
+main();
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import { SpecDocument, loadSpecFile } from './specs';
+import { GeneratorOutput, RenderContext } from './render';
+import { renderHeaders, renderPayloads } from './payloads';
+import { renderChannels, renderParameters, renderTypes } from './channels';
+
+export { GeneratedFile, GeneratorOutput, RenderContext } from './render';
+
+// ============================================================================
+// Code generation from the AsyncAPI file of a service, configured in its
+// codegen.ts. Every generator renders the files of one preset below its
+// outputPath; generators read what the generators they depend on returned.
+// ============================================================================
+export type BuiltinPreset = 'payloads' | 'headers' | 'types' | 'parameters' | 'channels';
+
+export interface BuiltinGenerator {
+  preset: BuiltinPreset;
+  outputPath: string;   // Relative to the directory of the codegen config
+  id?: string;          // Defaults to `<preset>-typescript`
+}
+
+export interface CustomGenerator {
+  preset: 'custom';
+  id: string;
+  outputPath: string;
+  dependencies?: string[];  // ids of the generators renderFunction reads the output of
+  renderFunction(context: RenderContext): GeneratorOutput;
+}
+
+export type Generator = BuiltinGenerator | CustomGenerator;
+
+export interface CodegenConfiguration {
+  inputPath: string;    // The AsyncAPI file, relative to the directory of the codegen config
+  generators: Generator[];
+}
+
+interface Preset {
+  dependencies: string[];
+  render(context: RenderContext): GeneratorOutput;
+}
+
+const PRESETS: Record<BuiltinPreset, Preset> = {
+  payloads: { dependencies: [], render: renderPayloads },
+  headers: { dependencies: [], render: renderHeaders },
+  types: { dependencies: [], render: renderTypes },
+  parameters: { dependencies: [], render: renderParameters },
+  channels: { dependencies: ['payloads-typescript', 'headers-typescript'], render: renderChannels },
+};
+
+export function generatorId(generator: Generator): string {
+  return generator.id ?? `${generator.preset}-typescript`;
+}
+
+/**
+ * generateFromSpec - Runs every generator over `spec`, each after the generators it depends on
+ */
+export function generateFromSpec(spec: SpecDocument, generators: Generator[]): GeneratorOutput[] {
+  const byId = new Map(generators.map(g => [generatorId(g), g]));
+  const outputs = new Map<string, GeneratorOutput>();
+  const running: string[] = [];
+
+  function run(id: string): GeneratorOutput {
+    const done = outputs.get(id);
+    if (done) return done;
+    const generator = byId.get(id);
+    if (!generator) throw new Error(`No generator "${id}", needed by ${running[running.length - 1] ?? 'the config'}`);
+    if (running.includes(id)) throw new Error(`Generators depend on each other: ${[...running, id].join(' → ')}`);
+
+    running.push(id);
+    const { dependencies, render } = generator.preset === 'custom'
+      ? { dependencies: generator.dependencies ?? [], render: generator.renderFunction }
+      : PRESETS[generator.preset];
+    const dependencyOutputs = Object.fromEntries(dependencies.map(dependency => [dependency, run(dependency)]));
+    const output = render({ spec, outputPath: generator.outputPath, dependencyOutputs });
+    running.pop();
+
+    outputs.set(id, output);
+    return output;
+  }
+
+  return generators.map(g => run(generatorId(g)));
+}
+
+/**
+ * generate - Runs a codegen config; file paths are relative to `configDir`
+ */
+export function generate(config: CodegenConfiguration, configDir: string): GeneratorOutput[] {
+  return generateFromSpec(loadSpecFile(path.resolve(configDir, config.inputPath)), config.generators);
+}
+
+/**
+ * writeOutputs - Replaces the contents of every output directory below `dir` with the generated files
+ */
+export function writeOutputs(outputs: GeneratorOutput[], dir: string): void {
+  for (const output of outputs) {
+    fs.rmSync(path.join(dir, output.outputPath), { recursive: true, force: true });
+  }
+  for (const file of outputs.flatMap(o => o.files)) {
+    const target = path.join(dir, file.path);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, file.content);
+  }
+}
+
+function listFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => entry.isDirectory()
+    ? listFiles(path.join(dir, entry.name)).map(f => path.join(entry.name, f))
+    : [entry.name]);
+}
+
+/**
+ * compareOutputs - How the output directories below `committedDir` differ from the same
+ * directories below `generatedDir`, one line per file
+ */
+export function compareOutputs(outputPaths: string[], generatedDir: string, committedDir: string): string[] {
+  const differences: string[] = [];
+  for (const outputPath of outputPaths) {
+    const generated = listFiles(path.join(generatedDir, outputPath));
+    const committed = listFiles(path.join(committedDir, outputPath));
+    for (const file of Array.from(new Set([...generated, ...committed])).sort()) {
+      const relative = path.join(outputPath, file);
+      if (!committed.includes(file)) {
+        differences.push(`${relative} is missing`);
+      } else if (!generated.includes(file)) {
+        differences.push(`${relative} is no longer generated`);
+      } else if (fs.readFileSync(path.join(generatedDir, relative), 'utf8') !== fs.readFileSync(path.join(committedDir, relative), 'utf8')) {
+        differences.push(`${relative} is out of date`);
+      }
+    }
+  }
+  return differences;
+}
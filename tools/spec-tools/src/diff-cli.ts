@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { parseArgs } from 'util';
+import { SpecDocument, loadSpecFile, parseSpec } from './specs';
+import { DiffReport, Severity, diffSpecs, versionVerdict } from './diff';
+
+// ============================================================================
+// Breaking-change CLI
+//
+//   yarn diff <old.yml> <new.yml>            Compare two files
+//   yarn diff <file.yml> --against <ref>     Compare with the file as of a git ref
+//     --json                                 Print the report as JSON
+//     --report <file>                        Also write the JSON report to a file
+//
+// Exits with 1 when info.version is not bumped as far as the changes require.
+// ============================================================================
+const ICONS: Record<Severity, string> = {
+  breaking: '💥',
+  'non-breaking': '➕',
+  informational: 'ℹ️ ',
+};
+
+// yarn runs scripts from the package directory, paths on the command line are relative to the caller
+const CALLER_CWD = process.env.INIT_CWD || process.cwd();
+
+function fromGit(ref: string, file: string): SpecDocument {
+  const absolute = path.resolve(CALLER_CWD, file);
+  const relative = path.relative(path.dirname(absolute), absolute);
+  const text = execFileSync('git', ['show', `${ref}:./${relative}`], {
+    cwd: path.dirname(absolute),
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  return parseSpec(text, `${ref}:${file}`);
+}
+
+function print(report: DiffReport): void {
+  console.log(`🔍 ${report.service}: ${report.old.file} (${report.old.version}) → ${report.new.file} (${report.new.version})\n`);
+  if (report.changes.length === 0) {
+    console.log('✅ No changes');
+    return;
+  }
+
+  for (const severity of ['breaking', 'non-breaking', 'informational'] as Severity[]) {
+    const changes = report.changes.filter(c => c.severity === severity);
+    if (changes.length === 0) continue;
+    console.log(`${ICONS[severity]} ${severity} (${changes.length})`);
+    for (const change of changes) {
+      console.log(`    • [${change.kind}] ${change.location}: ${change.message}`);
+    }
+    console.log();
+  }
+
+  console.log(`📦 Suggested bump: ${report.suggestedBump} (${report.old.version} → ${report.suggestedVersion})`);
+  console.log(versionVerdict(report));
+}
+
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      against: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      report: { type: 'string' },
+    },
+  });
+
+  let before: SpecDocument;
+  let after: SpecDocument;
+  if (values.against && positionals.length === 1) {
+    before = fromGit(values.against, positionals[0]);
+    after = loadSpecFile(path.resolve(CALLER_CWD, positionals[0]));
+  } else if (!values.against && positionals.length === 2) {
+    before = loadSpecFile(path.resolve(CALLER_CWD, positionals[0]));
+    after = loadSpecFile(path.resolve(CALLER_CWD, positionals[1]));
+  } else {
+    console.error('Usage: yarn diff <old.yml> <new.yml> | yarn diff <file.yml> --against <git-ref> [--json] [--report <file>]');
+    process.exit(2);
+  }
+
+  const report = diffSpecs(before, after);
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    print(report);
+  }
+  if (values.report) {
+    const file = path.resolve(CALLER_CWD, values.report);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(report, null, 2) + '\n');
+    if (!values.json) console.log(`📝 Report written to ${file}`);
+  }
+  process.exit(report.versionOk ? 0 : 1);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('❌ Diff failed:', err);
+  process.exit(2);
+}
@@ -0,0 +1,377 @@
+import { AsyncApiDocument, OperationObject } from 'service-kit/src/asyncapi';
+import { ChannelObject, JsonSchema, MessageObject, SpecDocument, dereference } from './specs';
+
+// ============================================================================
+// Breaking-change detection between two versions of one AsyncAPI document
+// ============================================================================
+export type Severity = 'breaking' | 'non-breaking' | 'informational';
+export type SemverBump = 'major' | 'minor' | 'patch' | 'none';
+
+export interface SpecChange {
+  severity: Severity;
+  kind: string;         // e.g. channel-removed, field-removed, type-narrowed
+  location: string;     // e.g. channels.orderCancelled.messages.OrderCancelled.payload.reason
+  message: string;
+}
+
+export interface DiffReport {
+  service: string;
+  old: { file: string; version: string };
+  new: { file: string; version: string };
+  changes: SpecChange[];
+  summary: Record<Severity, number>;
+  suggestedBump: SemverBump;
+  suggestedVersion: string;
+  declaredBump: SemverBump;
+  // The new info.version is bumped at least as far as the changes require
+  versionOk: boolean;
+}
+
+// Who reads a message of a channel: consumers read what the service sends, the service
+// reads what producers send. Changes are breaking or not depending on that side.
+interface Direction {
+  sent: boolean;
+  received: boolean;
+}
+
+const BUMP_ORDER: SemverBump[] = ['none', 'patch', 'minor', 'major'];
+
+class ChangeLog {
+  readonly changes: SpecChange[] = [];
+
+  add(severity: Severity, kind: string, location: string, message: string): void {
+    this.changes.push({ severity, kind, location, message });
+  }
+}
+
+function typesOf(schema: JsonSchema): string[] {
+  if (schema.type !== undefined) return Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (schema.properties) return ['object'];
+  if (schema.items) return ['array'];
+  return [];
+}
+
+// Types a value of type `t` also satisfies
+function covers(types: string[], t: string): boolean {
+  return types.includes(t) || (t === 'integer' && types.includes('number'));
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Compares two dereferenced schemas of the same message part (payload or headers)
+ */
+function diffSchema(log: ChangeLog, before: JsonSchema, after: JsonSchema, at: string, direction: Direction): void {
+  const beforeTypes = typesOf(before);
+  const afterTypes = typesOf(after);
+
+  if (beforeTypes.length > 0 && afterTypes.length > 0) {
+    const narrowed = beforeTypes.some(t => !covers(afterTypes, t));
+    const widened = afterTypes.some(t => !covers(beforeTypes, t));
+    const change = `${beforeTypes.join('|')} → ${afterTypes.join('|')}`;
+    if (narrowed && widened) {
+      log.add('breaking', 'type-changed', at, `Type changed: ${change}`);
+      return;
+    }
+    if (narrowed) {
+      log.add('breaking', 'type-narrowed', at, `Type narrowed: ${change}`);
+    } else if (widened) {
+      log.add(direction.sent ? 'breaking' : 'non-breaking', 'type-widened', at, `Type widened: ${change}`);
+    }
+  } else if (beforeTypes.length === 0 && afterTypes.length > 0) {
+    log.add('breaking', 'type-narrowed', at, `Type restricted to ${afterTypes.join('|')}`);
+  } else if (beforeTypes.length > 0 && afterTypes.length === 0) {
+    log.add(direction.sent ? 'breaking' : 'non-breaking', 'type-widened', at, 'Type restriction removed');
+  }
+
+  if (before.format !== after.format) {
+    log.add('breaking', 'format-changed', at, `Format changed: ${before.format ?? 'none'} → ${after.format ?? 'none'}`);
+  }
+
+  if (before.enum || after.enum) {
+    const removed = (before.enum ?? []).filter(v => after.enum && !after.enum.some(a => describe(a) === describe(v)));
+    const added = (after.enum ?? []).filter(v => !before.enum || !before.enum.some(b => describe(b) === describe(v)));
+    if (!after.enum) {
+      log.add(direction.sent ? 'breaking' : 'non-breaking', 'enum-removed', at, 'No longer restricted to an enum');
+    } else if (!before.enum) {
+      log.add(direction.received ? 'breaking' : 'non-breaking', 'enum-added', at, `Restricted to ${after.enum.map(describe).join(', ')}`);
+    } else {
+      if (removed.length > 0) {
+        log.add(direction.received ? 'breaking' : 'non-breaking', 'enum-values-removed', at,
+          `Enum values removed: ${removed.map(describe).join(', ')}`);
+      }
+      if (added.length > 0) {
+        log.add(direction.sent ? 'breaking' : 'non-breaking', 'enum-values-added', at,
+          `Enum values added: ${added.map(describe).join(', ')}`);
+      }
+    }
+  }
+
+  if ((before.description ?? '') !== (after.description ?? '')) {
+    log.add('informational', 'description-changed', at, 'Description changed');
+  }
+
+  diffProperties(log, before, after, at, direction);
+
+  if (before.items || after.items) {
+    diffSchema(log, before.items ?? {}, after.items ?? {}, `${at}[]`, direction);
+  }
+}
+
+function diffProperties(log: ChangeLog, before: JsonSchema, after: JsonSchema, at: string, direction: Direction): void {
+  const beforeProps = before.properties ?? {};
+  const afterProps = after.properties ?? {};
+  const beforeRequired = before.required ?? [];
+  const afterRequired = after.required ?? [];
+
+  const removed = Object.keys(beforeProps).filter(name => !(name in afterProps));
+  const added = Object.keys(afterProps).filter(name => !(name in beforeProps));
+
+  // A removed field with an added field of the same shape is most likely a rename
+  const renames = new Map<string, string>();
+  for (const name of removed) {
+    const shape = JSON.stringify({ ...beforeProps[name], description: undefined });
+    const match = added.find(a => !Array.from(renames.values()).includes(a)
+      && JSON.stringify({ ...afterProps[a], description: undefined }) === shape);
+    if (match) renames.set(name, match);
+  }
+
+  for (const name of removed) {
+    const renamedTo = renames.get(name);
+    if (renamedTo) {
+      log.add('breaking', 'field-renamed', `${at}.${name}`, `Field renamed to ${renamedTo}`);
+    } else {
+      log.add('breaking', 'field-removed', `${at}.${name}`, 'Field removed');
+    }
+  }
+
+  for (const name of added) {
+    if (Array.from(renames.values()).includes(name)) continue;
+    if (afterRequired.includes(name)) {
+      log.add(direction.received ? 'breaking' : 'non-breaking', 'required-field-added', `${at}.${name}`, 'Required field added');
+    } else {
+      log.add('non-breaking', 'field-added', `${at}.${name}`, 'Optional field added');
+    }
+  }
+
+  for (const name of Object.keys(beforeProps).filter(n => n in afterProps)) {
+    const path = `${at}.${name}`;
+    const wasRequired = beforeRequired.includes(name);
+    const isRequired = afterRequired.includes(name);
+    if (!wasRequired && isRequired) {
+      log.add(direction.received ? 'breaking' : 'non-breaking', 'field-now-required', path, 'Field became required');
+    } else if (wasRequired && !isRequired) {
+      log.add(direction.sent ? 'breaking' : 'non-breaking', 'field-now-optional', path, 'Field became optional');
+    }
+    diffSchema(log, beforeProps[name], afterProps[name], path, direction);
+  }
+
+  const beforeClosed = before.additionalProperties === false;
+  const afterClosed = after.additionalProperties === false;
+  if (!beforeClosed && afterClosed) {
+    log.add(direction.received ? 'breaking' : 'non-breaking', 'additional-properties-closed', at,
+      'Additional properties are no longer allowed');
+  } else if (beforeClosed && !afterClosed) {
+    log.add(direction.sent ? 'breaking' : 'non-breaking', 'additional-properties-opened', at,
+      'Additional properties are now allowed');
+  }
+}
+
+/**
+ * Which sides read the channel, from the operations of both versions. A channel without
+ * operations is treated as both sent and received.
+ */
+function channelDirection(before: AsyncApiDocument, after: AsyncApiDocument, channelId: string): Direction {
+  const operations = [
+    ...Object.values(before.operations ?? {}),
+    ...Object.values(after.operations ?? {}),
+  ].filter(op => op.channel?.$ref === `#/channels/${channelId}`);
+  if (operations.length === 0) return { sent: true, received: true };
+  return {
+    sent: operations.some(op => op.action === 'send'),
+    received: operations.some(op => op.action === 'receive'),
+  };
+}
+
+function messageRefs(operation: OperationObject): string[] {
+  return (operation.messages ?? []).map(m => m.$ref ?? JSON.stringify(m));
+}
+
+export function parseVersion(version: string): [number, number, number] | undefined {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)/.exec(version);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : undefined;
+}
+
+export function bumpVersion(version: string, bump: SemverBump): string {
+  const parsed = parseVersion(version);
+  if (!parsed || bump === 'none') return version;
+  const [major, minor, patch] = parsed;
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+/**
+ * declaredBump - How far `after` moved from `before`, or 'none' when it did not move forward
+ */
+export function declaredBump(before: string, after: string): SemverBump {
+  const a = parseVersion(before);
+  const b = parseVersion(after);
+  if (!a || !b) return before === after ? 'none' : 'patch';
+  if (b[0] !== a[0]) return b[0] > a[0] ? 'major' : 'none';
+  if (b[1] !== a[1]) return b[1] > a[1] ? 'minor' : 'none';
+  return b[2] > a[2] ? 'patch' : 'none';
+}
+
+/**
+ * diffSpecs - Classifies every change from `before` to `after`
+ */
+export function diffSpecs(before: SpecDocument, after: SpecDocument): DiffReport {
+  const log = new ChangeLog();
+  const oldDoc = before.doc;
+  const newDoc = after.doc;
+
+  // ---- info ----
+  for (const key of ['title', 'version', 'description'] as const) {
+    if (describe(oldDoc.info?.[key] ?? '') !== describe(newDoc.info?.[key] ?? '')) {
+      log.add('informational', `info-${key}-changed`, `info.${key}`,
+        key === 'description' ? 'Description changed' : `${describe(oldDoc.info?.[key])} → ${describe(newDoc.info?.[key])}`);
+    }
+  }
+
+  // ---- channels and their messages ----
+  const oldChannels = oldDoc.channels ?? {};
+  const newChannels = newDoc.channels ?? {};
+
+  for (const [channelId, oldChannel] of Object.entries(oldChannels)) {
+    const at = `channels.${channelId}`;
+    const newChannel = newChannels[channelId];
+    const oldResolved = dereference<ChannelObject>(oldDoc, oldChannel);
+
+    if (!newChannel) {
+      const moved = Object.entries(newChannels).find(([id, ch]) => !(id in oldChannels)
+        && dereference<ChannelObject>(newDoc, ch).address === oldResolved.address);
+      log.add('breaking', 'channel-removed', at, moved
+        ? `Channel ${oldResolved.address} renamed to ${moved[0]} (operations referencing ${channelId} break)`
+        : `Channel ${oldResolved.address} removed`);
+      continue;
+    }
+
+    const newResolved = dereference<ChannelObject>(newDoc, newChannel);
+    if (oldResolved.address !== newResolved.address) {
+      log.add('breaking', 'address-changed', `${at}.address`, `Address changed: ${oldResolved.address} → ${newResolved.address}`);
+    }
+    if ((oldResolved.description ?? '') !== (newResolved.description ?? '')) {
+      log.add('informational', 'description-changed', at, 'Description changed');
+    }
+
+    const direction = channelDirection(oldDoc, newDoc, channelId);
+    const oldMessages: Record<string, MessageObject> = oldResolved.messages ?? {};
+    const newMessages: Record<string, MessageObject> = newResolved.messages ?? {};
+
+    for (const [name, oldMessage] of Object.entries(oldMessages)) {
+      const messageAt = `${at}.messages.${name}`;
+      const newMessage = newMessages[name];
+      if (!newMessage) {
+        log.add('breaking', 'message-removed', messageAt, `Message ${name} removed from ${oldResolved.address}`);
+        continue;
+      }
+      for (const part of ['payload', 'headers'] as const) {
+        if (oldMessage[part] || newMessage[part]) {
+          diffSchema(log, oldMessage[part] ?? {}, newMessage[part] ?? {}, `${messageAt}.${part}`, direction);
+        }
+      }
+      for (const key of ['description', 'summary', 'title']) {
+        if ((oldMessage[key] ?? '') !== (newMessage[key] ?? '')) {
+          log.add('informational', `message-${key}-changed`, messageAt, `Message ${key} changed`);
+        }
+      }
+      for (const key of Object.keys({ ...oldMessage, ...newMessage }).filter(k => k.startsWith('x-'))) {
+        if (describe(oldMessage[key] ?? null) !== describe(newMessage[key] ?? null)) {
+          log.add('informational', 'extension-changed', `${messageAt}.${key}`,
+            `${describe(oldMessage[key] ?? 'unset')} → ${describe(newMessage[key] ?? 'unset')}`);
+        }
+      }
+    }
+    for (const name of Object.keys(newMessages).filter(n => !(n in oldMessages))) {
+      log.add('non-breaking', 'message-added', `${at}.messages.${name}`, `Message ${name} added to ${newResolved.address}`);
+    }
+  }
+
+  for (const channelId of Object.keys(newChannels).filter(id => !(id in oldChannels))) {
+    const address = dereference<ChannelObject>(newDoc, newChannels[channelId]).address;
+    log.add('non-breaking', 'channel-added', `channels.${channelId}`, `Channel ${address} added`);
+  }
+
+  // ---- operations ----
+  const oldOperations = oldDoc.operations ?? {};
+  const newOperations = newDoc.operations ?? {};
+
+  for (const [operationId, oldOperation] of Object.entries(oldOperations)) {
+    const at = `operations.${operationId}`;
+    const newOperation = newOperations[operationId];
+    if (!newOperation) {
+      log.add('breaking', 'operation-removed', at, `Operation ${operationId} (${oldOperation.action}) removed`);
+      continue;
+    }
+    if (oldOperation.action !== newOperation.action) {
+      log.add('breaking', 'action-changed', `${at}.action`, `Action changed: ${oldOperation.action} → ${newOperation.action}`);
+    }
+    if (oldOperation.channel?.$ref !== newOperation.channel?.$ref) {
+      log.add('breaking', 'operation-channel-changed', `${at}.channel`,
+        `Channel changed: ${oldOperation.channel?.$ref} → ${newOperation.channel?.$ref}`);
+    }
+    const oldRefs = messageRefs(oldOperation);
+    const newRefs = messageRefs(newOperation);
+    for (const refName of oldRefs.filter(r => !newRefs.includes(r))) {
+      log.add('breaking', 'operation-message-removed', `${at}.messages`, `No longer handles ${refName}`);
+    }
+    for (const refName of newRefs.filter(r => !oldRefs.includes(r))) {
+      log.add('non-breaking', 'operation-message-added', `${at}.messages`, `Now also handles ${refName}`);
+    }
+  }
+  for (const [operationId, newOperation] of Object.entries(newOperations)) {
+    if (!(operationId in oldOperations)) {
+      log.add('non-breaking', 'operation-added', `operations.${operationId}`, `Operation ${operationId} (${newOperation.action}) added`);
+    }
+  }
+
+  // ---- verdict ----
+  const summary: Record<Severity, number> = { breaking: 0, 'non-breaking': 0, informational: 0 };
+  log.changes.forEach(change => summary[change.severity]++);
+
+  // The version edit itself is not a reason to bump
+  const substantive = log.changes.filter(c => c.kind !== 'info-version-changed');
+  const suggestedBump: SemverBump = substantive.some(c => c.severity === 'breaking') ? 'major'
+    : substantive.some(c => c.severity === 'non-breaking') ? 'minor'
+    : substantive.length > 0 ? 'patch'
+    : 'none';
+  const declared = declaredBump(before.version, after.version);
+
+  return {
+    service: after.service,
+    old: { file: before.path, version: before.version },
+    new: { file: after.path, version: after.version },
+    changes: log.changes,
+    summary,
+    suggestedBump,
+    suggestedVersion: bumpVersion(before.version, suggestedBump),
+    declaredBump: declared,
+    versionOk: BUMP_ORDER.indexOf(declared) >= BUMP_ORDER.indexOf(suggestedBump),
+  };
+}
+
+/**
+ * versionVerdict - Whether the declared info.version covers the changes, as one line
+ */
+export function versionVerdict(report: DiffReport): string {
+  const declared = report.declaredBump === 'none'
+    ? report.old.version === report.new.version
+      ? `Version ${report.new.version} is unchanged`
+      : `Declared version ${report.new.version} does not move forward from ${report.old.version}`
+    : `Declared version ${report.new.version} is a ${report.declaredBump} bump`;
+  if (!report.versionOk) return `❌ ${declared}, ${report.suggestedBump} is required`;
+  return report.suggestedBump === 'none' ? `✅ ${declared}, no bump is needed` : `✅ ${declared}, which is enough`;
+}
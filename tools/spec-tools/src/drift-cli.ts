@@ -0,0 +1,56 @@
+import { ASYNCAPI_DIR, loadSpecs } from './specs';
+import { ChannelDrift, MessageRef, checkDrift } from './drift';
+
+// ============================================================================
+// Contract drift CLI
+//
+//   yarn drift            Report incompatible message copies per channel
+//   yarn drift --json     Same, as JSON on stdout
+//
+// Exits with 1 when any channel has drift.
+// ============================================================================
+function describe(message: MessageRef): string {
+  return `${message.service} (${message.file}#${message.messageName})`;
+}
+
+function print(results: ChannelDrift[]): void {
+  for (const result of results) {
+    const icon = result.issues.length === 0 ? '✅' : '❌';
+    console.log(`${icon} ${result.channel}`);
+    console.log(`    producers: ${result.producers.map(describe).join(', ') || 'none in the catalog'}`);
+    console.log(`    consumers: ${result.consumers.map(describe).join(', ') || 'none in the catalog'}`);
+    if (result.unproduced) {
+      console.log('    ℹ️  no spec sends on this channel, consumer copies were compared with each other');
+    }
+    for (const issue of result.issues) {
+      console.log(`    • [${issue.kind}] ${issue.path}: ${issue.detail}`);
+      console.log(`        ${describe(issue.producer)} → ${describe(issue.consumer)}`);
+    }
+    console.log();
+  }
+}
+
+function main() {
+  const json = process.argv.includes('--json');
+  const results = checkDrift(loadSpecs());
+  const issueCount = results.reduce((sum, r) => sum + r.issues.length, 0);
+
+  if (json) {
+    console.log(JSON.stringify({ asyncapiDir: ASYNCAPI_DIR, issueCount, channels: results }, null, 2));
+  } else {
+    console.log(`🔍 Checking shared channels in ${ASYNCAPI_DIR}\n`);
+    print(results);
+    const drifting = results.filter(r => r.issues.length > 0).length;
+    console.log(issueCount === 0
+      ? `✅ ${results.length} shared channel(s), no drift`
+      : `❌ ${issueCount} issue(s) on ${drifting} of ${results.length} shared channel(s)`);
+  }
+  process.exit(issueCount === 0 ? 0 : 1);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('❌ Drift check failed:', err);
+  process.exit(2);
+}
@@ -0,0 +1,158 @@
+import { JsonSchema, OperationMessage, SpecDocument, operationMessages } from './specs';
+
+// ============================================================================
+// Contract drift between the copies of a message that several specs declare
+// for the same channel address
+// ============================================================================
+export type DriftKind = 'missing-required' | 'type-change' | 'additional-properties';
+
+export interface MessageRef {
+  service: string;
+  file: string;
+  messageName: string;
+}
+
+export interface DriftIssue {
+  channel: string;
+  kind: DriftKind;
+  path: string;         // Property path inside the payload, e.g. items[].price
+  producer: MessageRef;
+  consumer: MessageRef;
+  detail: string;
+}
+
+export interface ChannelDrift {
+  channel: string;
+  producers: MessageRef[];
+  consumers: MessageRef[];
+  // No spec sends on the channel, so the consumer copies are checked against each other
+  unproduced: boolean;
+  issues: DriftIssue[];
+}
+
+function ref(message: OperationMessage): MessageRef {
+  return { service: message.service, file: message.file, messageName: message.messageName };
+}
+
+function typesOf(schema: JsonSchema): string[] | undefined {
+  if (schema.type !== undefined) return Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (schema.properties) return ['object'];
+  if (schema.items) return ['array'];
+  return undefined;
+}
+
+/**
+ * Whether every value of type `produced` passes a consumer expecting one of `accepted`
+ */
+function typeAccepted(produced: string, accepted: string[]): boolean {
+  return accepted.includes(produced) || (produced === 'integer' && accepted.includes('number'));
+}
+
+function joinPath(parent: string, property: string): string {
+  return parent ? `${parent}.${property}` : property;
+}
+
+/**
+ * compareSchemas - What in `producer` a consumer validating with `consumer` would reject
+ */
+export function compareSchemas(
+  producer: JsonSchema,
+  consumer: JsonSchema,
+  at: string = '',
+): { kind: DriftKind; path: string; detail: string }[] {
+  const issues: { kind: DriftKind; path: string; detail: string }[] = [];
+  const producerTypes = typesOf(producer);
+  const consumerTypes = typesOf(consumer);
+
+  if (producerTypes && consumerTypes) {
+    const rejected = producerTypes.filter(t => !typeAccepted(t, consumerTypes));
+    if (rejected.length > 0) {
+      issues.push({
+        kind: 'type-change',
+        path: at || '(payload)',
+        detail: `producer sends ${producerTypes.join('|')}, consumer expects ${consumerTypes.join('|')}`,
+      });
+      return issues;
+    }
+  }
+
+  if (consumerTypes?.includes('object') || consumer.properties) {
+    const producerProperties = producer.properties ?? {};
+    const consumerProperties = consumer.properties ?? {};
+    const producerRequired = producer.required ?? [];
+
+    for (const name of consumer.required ?? []) {
+      if (!(name in producerProperties)) {
+        issues.push({ kind: 'missing-required', path: joinPath(at, name), detail: 'required by consumer, not declared by producer' });
+      } else if (!producerRequired.includes(name)) {
+        issues.push({ kind: 'missing-required', path: joinPath(at, name), detail: 'required by consumer, optional for producer' });
+      }
+    }
+
+    for (const [name, schema] of Object.entries(producerProperties)) {
+      if (name in consumerProperties) {
+        issues.push(...compareSchemas(schema, consumerProperties[name], joinPath(at, name)));
+      } else if (consumer.additionalProperties === false) {
+        issues.push({
+          kind: 'additional-properties',
+          path: joinPath(at, name),
+          detail: 'sent by producer, rejected by consumer (additionalProperties: false)',
+        });
+      }
+    }
+
+    if (consumer.additionalProperties === false && producer.additionalProperties !== false
+      && Object.keys(consumerProperties).length > 0) {
+      issues.push({
+        kind: 'additional-properties',
+        path: at || '(payload)',
+        detail: 'producer allows additional properties, consumer rejects them',
+      });
+    }
+  }
+
+  if (producer.items && consumer.items) {
+    issues.push(...compareSchemas(producer.items, consumer.items, `${at}[]`));
+  }
+  return issues;
+}
+
+/**
+ * checkDrift - Groups every operation message by channel address and compares each
+ * producer copy with each consumer copy from another spec
+ */
+export function checkDrift(specs: SpecDocument[]): ChannelDrift[] {
+  const byChannel = new Map<string, OperationMessage[]>();
+  for (const message of specs.flatMap(operationMessages)) {
+    byChannel.set(message.channel, [...(byChannel.get(message.channel) ?? []), message]);
+  }
+
+  const results: ChannelDrift[] = [];
+  for (const [channel, messages] of Array.from(byChannel.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    if (new Set(messages.map(m => m.file)).size < 2) continue;
+
+    const producers = messages.filter(m => m.action === 'send');
+    const consumers = messages.filter(m => m.action === 'receive');
+    const unproduced = producers.length === 0;
+    const senders = unproduced ? consumers : producers;
+
+    const issues: DriftIssue[] = [];
+    for (const sender of senders) {
+      for (const receiver of consumers) {
+        if (sender.file === receiver.file) continue;
+        for (const issue of compareSchemas(sender.payload, receiver.payload)) {
+          issues.push({ channel, ...issue, producer: ref(sender), consumer: ref(receiver) });
+        }
+      }
+    }
+
+    results.push({
+      channel,
+      producers: producers.map(ref),
+      consumers: consumers.map(ref),
+      unproduced,
+      issues,
+    });
+  }
+  return results;
+}
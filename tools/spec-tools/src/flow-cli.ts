@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { ASYNCAPI_DIR, loadSpecs } from './specs';
+import { FlowGraph, buildFlowGraph, toDot, toMdxPage, toMermaid } from './flow';
+
+// ============================================================================
+// Event flow CLI
+//
+//   yarn flow                     Orphan report and Mermaid graph
+//   yarn flow --format dot        Graph as Graphviz DOT (or: mermaid, json)
+//   yarn flow --out <file>        Write the graph to a file instead of stdout
+//   yarn flow --page              Regenerate eventcatalog/pages/event-flow.mdx
+//   yarn flow --strict            Exit with 1 when any channel is an orphan
+// ============================================================================
+export const PAGE_PATH = path.resolve(ASYNCAPI_DIR, '../pages/event-flow.mdx');
+
+// yarn runs scripts from the package directory, paths on the command line are relative to the caller
+const CALLER_CWD = process.env.INIT_CWD || process.cwd();
+
+function render(graph: FlowGraph, format: string): string {
+  switch (format) {
+    case 'mermaid': return toMermaid(graph);
+    case 'dot': return toDot(graph);
+    case 'json': return JSON.stringify(graph, null, 2);
+    default: throw new Error(`Unknown format "${format}", expected mermaid, dot or json`);
+  }
+}
+
+function printOrphans(graph: FlowGraph): void {
+  const { noConsumer, noProducer } = graph.orphans;
+  console.error(`🕸️  ${graph.channels.length} channel(s) across ${graph.services.length} service(s)`);
+  for (const address of noConsumer) {
+    const senders = graph.channels.find(c => c.address === address)!.producers;
+    console.error(`⚠️  ${address}: sent by ${senders.map(s => `${s.service}#${s.operationId}`).join(', ')}, no consumer`);
+  }
+  for (const address of noProducer) {
+    const receivers = graph.channels.find(c => c.address === address)!.consumers;
+    console.error(`❌ ${address}: received by ${receivers.map(r => `${r.service}#${r.operationId}`).join(', ')}, no producer`);
+  }
+  if (noConsumer.length + noProducer.length === 0) console.error('✅ Every channel has a producer and a consumer');
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      format: { type: 'string', default: 'mermaid' },
+      out: { type: 'string' },
+      page: { type: 'boolean', default: false },
+      strict: { type: 'boolean', default: false },
+    },
+  });
+
+  const graph = buildFlowGraph(loadSpecs());
+  // The report goes to stderr so stdout stays a clean graph for piping
+  printOrphans(graph);
+
+  if (values.page) {
+    fs.writeFileSync(PAGE_PATH, toMdxPage(graph));
+    console.error(`📝 Wrote ${PAGE_PATH}`);
+  } else {
+    const output = render(graph, values.format!);
+    if (values.out) {
+      const file = path.resolve(CALLER_CWD, values.out);
+      fs.writeFileSync(file, output + '\n');
+      console.error(`📝 Wrote ${file}`);
+    } else {
+      console.log(output);
+    }
+  }
+
+  const orphans = graph.orphans.noConsumer.length + graph.orphans.noProducer.length;
+  process.exit(values.strict && orphans > 0 ? 1 : 0);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('❌ Event flow failed:', err);
+  process.exit(2);
+}
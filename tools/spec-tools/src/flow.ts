@@ -0,0 +1,184 @@
+import { SpecDocument, operationMessages } from './specs';
+
+// ============================================================================
+// Event flow topology: who sends and who receives each channel address
+// ============================================================================
+export interface FlowEndpoint {
+  service: string;
+  file: string;
+  operationId: string;
+  messages: string[];
+}
+
+export type ChannelStatus = 'connected' | 'no-consumer' | 'no-producer';
+
+export interface FlowChannel {
+  address: string;
+  producers: FlowEndpoint[];
+  consumers: FlowEndpoint[];
+  status: ChannelStatus;
+}
+
+export interface FlowGraph {
+  services: { name: string; file: string; sends: string[]; receives: string[] }[];
+  channels: FlowChannel[];
+  orphans: {
+    noConsumer: string[];   // Sent, but nothing in the catalog receives it
+    noProducer: string[];   // Received, but nothing in the catalog sends it
+  };
+}
+
+/**
+ * buildFlowGraph - Derives the topology from the send/receive operations of every spec
+ */
+export function buildFlowGraph(specs: SpecDocument[]): FlowGraph {
+  const channels = new Map<string, FlowChannel>();
+  const services: FlowGraph['services'] = [];
+
+  for (const spec of specs) {
+    const sends = new Set<string>();
+    const receives = new Set<string>();
+    const endpoints = new Map<string, FlowEndpoint>();
+
+    for (const message of operationMessages(spec)) {
+      const key = `${message.operationId}:${message.channel}`;
+      let endpoint = endpoints.get(key);
+      if (!endpoint) {
+        endpoint = { service: spec.service, file: spec.file, operationId: message.operationId, messages: [] };
+        endpoints.set(key, endpoint);
+
+        const channel = channels.get(message.channel)
+          ?? { address: message.channel, producers: [], consumers: [], status: 'connected' as ChannelStatus };
+        (message.action === 'send' ? channel.producers : channel.consumers).push(endpoint);
+        channels.set(message.channel, channel);
+      }
+      endpoint.messages.push(message.messageName);
+      (message.action === 'send' ? sends : receives).add(message.channel);
+    }
+
+    services.push({ name: spec.service, file: spec.file, sends: Array.from(sends), receives: Array.from(receives) });
+  }
+
+  const sorted = Array.from(channels.values()).sort((a, b) => a.address.localeCompare(b.address));
+  for (const channel of sorted) {
+    channel.status = channel.consumers.length === 0 ? 'no-consumer'
+      : channel.producers.length === 0 ? 'no-producer'
+      : 'connected';
+  }
+
+  return {
+    services,
+    channels: sorted,
+    orphans: {
+      noConsumer: sorted.filter(c => c.status === 'no-consumer').map(c => c.address),
+      noProducer: sorted.filter(c => c.status === 'no-producer').map(c => c.address),
+    },
+  };
+}
+
+function nodeId(prefix: string, name: string): string {
+  return `${prefix}_${name.replace(/[^A-Za-z0-9]/g, '_')}`;
+}
+
+/**
+ * toMermaid - Flowchart with services as boxes and channels as stadiums; orphans are highlighted
+ */
+export function toMermaid(graph: FlowGraph): string {
+  const lines = ['flowchart LR'];
+  for (const service of graph.services) {
+    lines.push(`  ${nodeId('svc', service.name)}["${service.name}"]`);
+  }
+  for (const channel of graph.channels) {
+    lines.push(`  ${nodeId('ch', channel.address)}(["${channel.address}"])`);
+  }
+  for (const channel of graph.channels) {
+    const id = nodeId('ch', channel.address);
+    for (const producer of unique(channel.producers)) lines.push(`  ${nodeId('svc', producer)} --> ${id}`);
+    for (const consumer of unique(channel.consumers)) lines.push(`  ${id} --> ${nodeId('svc', consumer)}`);
+  }
+  lines.push('  classDef noConsumer fill:#fff3cd,stroke:#d39e00');
+  lines.push('  classDef noProducer fill:#f8d7da,stroke:#c82333');
+  if (graph.orphans.noConsumer.length > 0) {
+    lines.push(`  class ${graph.orphans.noConsumer.map(a => nodeId('ch', a)).join(',')} noConsumer`);
+  }
+  if (graph.orphans.noProducer.length > 0) {
+    lines.push(`  class ${graph.orphans.noProducer.map(a => nodeId('ch', a)).join(',')} noProducer`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * toDot - Graphviz digraph of the same topology
+ */
+export function toDot(graph: FlowGraph): string {
+  const lines = ['digraph EventFlow {', '  rankdir=LR;', '  node [fontname="Helvetica"];'];
+  for (const service of graph.services) {
+    lines.push(`  ${nodeId('svc', service.name)} [label="${service.name}", shape=box];`);
+  }
+  for (const channel of graph.channels) {
+    const color = channel.status === 'no-consumer' ? ', style=filled, fillcolor="#fff3cd"'
+      : channel.status === 'no-producer' ? ', style=filled, fillcolor="#f8d7da"'
+      : '';
+    lines.push(`  ${nodeId('ch', channel.address)} [label="${channel.address}", shape=ellipse${color}];`);
+  }
+  for (const channel of graph.channels) {
+    const id = nodeId('ch', channel.address);
+    for (const producer of unique(channel.producers)) lines.push(`  ${nodeId('svc', producer)} -> ${id};`);
+    for (const consumer of unique(channel.consumers)) lines.push(`  ${id} -> ${nodeId('svc', consumer)};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function unique(endpoints: FlowEndpoint[]): string[] {
+  return Array.from(new Set(endpoints.map(e => e.service)));
+}
+
+function endpointList(endpoints: FlowEndpoint[]): string {
+  return endpoints.map(e => `${e.service} (\`${e.operationId}\`)`).join(', ') || '—';
+}
+
+/**
+ * toMdxPage - EventCatalog page with the graph and the orphan report
+ */
+export function toMdxPage(graph: FlowGraph): string {
+  const rows = graph.channels.map(c =>
+    `| \`${c.address}\` | ${endpointList(c.producers)} | ${endpointList(c.consumers)} | ${
+      c.status === 'connected' ? '✅' : c.status === 'no-consumer' ? '⚠️ no consumer' : '❌ no producer'} |`);
+
+  const orphanList = (addresses: string[]) =>
+    addresses.length === 0 ? 'None.' : addresses.map(a => `- \`${a}\``).join('\n');
+
+  return [
+    '---',
+    'id: event-flow',
+    'title: Event Flow',
+    '---',
+    '',
+    '{/* Generated by tools/spec-tools (yarn flow --page) from the AsyncAPI files. Do not edit by hand. */}',
+    '',
+    '# Event Flow',
+    '',
+    'How events move between the **OurLogix** services, derived from the `send` and `receive` operations in',
+    '`asyncapi-files/`. Channels nobody receives are yellow, channels nobody sends are red.',
+    '',
+    '```mermaid',
+    toMermaid(graph),
+    '```',
+    '',
+    '## Channels',
+    '',
+    '| Channel | Sent by | Received by | Status |',
+    '| --- | --- | --- | --- |',
+    ...rows,
+    '',
+    '## Sent with no consumer in the catalog',
+    '',
+    orphanList(graph.orphans.noConsumer),
+    '',
+    '## Received with no producer in the catalog',
+    '',
+    orphanList(graph.orphans.noProducer),
+    '',
+  ].join('\n');
+}
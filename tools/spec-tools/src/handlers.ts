@@ -0,0 +1,129 @@
+import path from 'path';
+import { SpecDocument, operationMessages } from './specs';
+import { GeneratorOutput, RenderContext, generatedHeader, importPath, pascalCase } from './render';
+import { isPayloadsOutput } from './payloads';
+import { isChannelsOutput } from './channels';
+import { CustomGenerator } from './codegen';
+
+// ============================================================================
+// Typed handler interfaces and wireHandlers, rendered from the receive
+// operations of an AsyncAPI document by the handlers preset in the codegen.ts
+// of a service
+// ============================================================================
+export interface RenderHandlersOptions {
+  outputPath: string;          // Directory the rendered index.ts goes to
+  payloadsOutputPath: string;  // Directory with one `<Model>.ts` per payload class
+  channelsOutputPath: string;  // Directory with the index.ts of the channels preset
+  // Payload class of every channel message, by `<channelId>/<messageName>`
+  models: Record<string, string>;
+}
+
+export interface HandlersOutput extends GeneratorOutput {
+  interfaceName: string;
+  handlers: number;
+}
+
+function union(members: string[]): string {
+  if (members.length === 0) return 'never';
+  return ['', ...members.map(m => `    | '${m}'`)].join('\n');
+}
+
+/**
+ * renderHandlers - Turns every `receive` operation into a method of a `<Service>Handlers`
+ * interface and emits `wireHandlers(runtime, handlers, options)` subscribing them all through
+ * the receive functions of the channels preset, so a receive operation added to the spec is a
+ * compile error until the service has a handler for it. A handler that throws fails the
+ * message, for the ChannelRuntime to retry or dead-letter.
+ */
+export function renderHandlers(spec: SpecDocument, options: RenderHandlersOptions): HandlersOutput {
+  const serviceName = pascalCase(spec.service);
+  const imports = new Set<string>();
+  const operations: string[] = [];
+  const methods: string[] = [];
+  const subscriptions: string[] = [];
+
+  for (const message of operationMessages(spec)) {
+    const { operationId } = message;
+    if (message.action !== 'receive' || operations.includes(operationId)) continue;
+    operations.push(operationId);
+
+    const modelName = options.models[`${message.channelId}/${message.messageName}`];
+    if (!modelName) throw new Error(`${spec.file}: ${operationId} receives ${message.messageName}, which has no payload`);
+    const handlerName = `on${pascalCase(operationId.replace(/^receive/i, ''))}`;
+
+    imports.add(modelName);
+    methods.push(`  ${handlerName}(message: ${modelName}, envelope: Partial<E>): Promise<void>;`);
+    subscriptions.push(`    ${operationId}(runtime, (message, envelope) => handlers.${handlerName}(message, envelope), options.${operationId}),`);
+  }
+
+  const payloadsImport = importPath(options.outputPath, options.payloadsOutputPath);
+  const channelsImport = importPath(options.outputPath, options.channelsOutputPath);
+  const content = [
+    generatedHeader('handlers', spec),
+    `import { ${['ChannelRuntime', 'ChannelSubscription', ...operations].join(', ')} } from '${channelsImport}';`,
+    ...Array.from(imports).sort().map(name => `import { ${name} } from '${payloadsImport}/${name}';`),
+    '',
+    `export interface ${serviceName}Handlers<E = unknown> {`,
+    ...methods,
+    '}',
+    '',
+    '/**',
+    ` * wireHandlers - Subscribes every receive operation of ${spec.service} to its handler through`,
+    ' * `runtime`, with the receive options of each operation (e.g. its retry policy) from `options`',
+    ' */',
+    'export function wireHandlers<E, O>(',
+    '  runtime: ChannelRuntime<E, O>,',
+    `  handlers: ${serviceName}Handlers<E>,`,
+    `  options: Partial<Record<${union(operations)}, O>> = {}`,
+    '): ChannelSubscription[] {',
+    '  return [',
+    ...subscriptions,
+    '  ];',
+    '}',
+    '',
+  ].join('\n');
+
+  return {
+    outputPath: options.outputPath,
+    files: [{ path: path.join(options.outputPath, 'index.ts'), content }],
+    interfaceName: `${serviceName}Handlers`,
+    handlers: methods.length,
+  };
+}
+
+interface HandlersPresetOptions {
+  outputPath?: string;   // Where index.ts is written, relative to the codegen config
+  payloadsId?: string;   // id of the payloads generator the handlers import from
+  channelsId?: string;   // id of the channels generator whose receive functions they subscribe with
+}
+
+/**
+ * handlersPreset - Custom generator rendering a `<Service>Handlers` interface and
+ * `wireHandlers(runtime, handlers, options)` from the receive operations, see renderHandlers.
+ * Payload classes and receive functions come from the payloads and channels generators
+ * through `dependencyOutputs`.
+ */
+export function handlersPreset(options: HandlersPresetOptions = {}): CustomGenerator {
+  const outputPath = options.outputPath ?? 'src/__gen__/handlers';
+  const payloadsId = options.payloadsId ?? 'payloads-typescript';
+  const channelsId = options.channelsId ?? 'channels-typescript';
+
+  return {
+    preset: 'custom',
+    id: 'handlers',
+    outputPath,
+    dependencies: [payloadsId, channelsId],
+    renderFunction: ({ spec, dependencyOutputs }: RenderContext): HandlersOutput => {
+      const payloads = dependencyOutputs[payloadsId];
+      const channels = dependencyOutputs[channelsId];
+      if (!isPayloadsOutput(payloads)) throw new Error(`The handlers preset needs the payloads generator "${payloadsId}"`);
+      if (!isChannelsOutput(channels)) throw new Error(`The handlers preset needs the channels generator "${channelsId}"`);
+      return renderHandlers(spec, {
+        outputPath,
+        payloadsOutputPath: payloads.outputPath,
+        channelsOutputPath: channels.outputPath,
+        models: payloads.models,
+      });
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import { CONFIG_PATH, MANIFEST_PATH, applyGenerators, checkManifest, loadManifest, renderGenerators } from './manifest';
+
+// ============================================================================
+// Manifest CLI
+//
+//   yarn manifest           Check owners and files, then regenerate the generator
+//                           entries in eventcatalog.config.js
+//   yarn manifest --check   Only check; also fails when the config is out of date
+//
+// Exits with 1 on any error, warnings are only printed.
+// ============================================================================
+function main() {
+  const checkOnly = process.argv.includes('--check');
+  const manifest = loadManifest();
+  const problems = checkManifest(manifest);
+
+  console.log(`📋 ${manifest.services.length} service(s) in ${MANIFEST_PATH}`);
+  for (const problem of problems) {
+    console.log(`${problem.level === 'error' ? '❌' : '⚠️ '} ${problem.message}`);
+  }
+  const errors = problems.filter(p => p.level === 'error').length;
+  if (errors > 0) {
+    console.log(`\n❌ ${errors} error(s), eventcatalog.config.js left untouched`);
+    process.exit(1);
+  }
+
+  const current = fs.readFileSync(CONFIG_PATH, 'utf8');
+  const updated = applyGenerators(current, renderGenerators(manifest));
+  if (updated === current) {
+    console.log('✅ eventcatalog.config.js is up to date');
+  } else if (checkOnly) {
+    console.log('❌ eventcatalog.config.js is out of date, run `yarn manifest`');
+    process.exit(1);
+  } else {
+    fs.writeFileSync(CONFIG_PATH, updated);
+    console.log(`📝 Regenerated the generator entries in ${CONFIG_PATH}`);
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('❌ Manifest failed:', err);
+  process.exit(2);
+}
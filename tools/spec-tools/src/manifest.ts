@@ -0,0 +1,218 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { ASYNCAPI_DIR } from './specs';
+
+// ============================================================================
+// Service manifest (eventcatalog/services.manifest.yml) and the
+// eventcatalog.config.js generator entries derived from it
+// ============================================================================
+export const CATALOG_DIR = path.resolve(ASYNCAPI_DIR, '..');
+export const MANIFEST_PATH = path.join(CATALOG_DIR, 'services.manifest.yml');
+export const CONFIG_PATH = path.join(CATALOG_DIR, 'eventcatalog.config.js');
+
+// The generated block in eventcatalog.config.js sits between these lines
+export const BEGIN_MARKER = '// @generated-begin services.manifest.yml';
+export const END_MARKER = '// @generated-end';
+
+export interface ManifestDomain {
+  name: string;
+  version: string;
+  debug?: boolean;
+}
+
+export interface ManifestService {
+  id: string;
+  asyncapi?: string;    // File in asyncapi-files/
+  openapi?: string;     // File in openapi-files/
+  domain: string;
+  owners: string[];     // Team or user ids
+}
+
+export interface ServiceManifest {
+  domains: Record<string, ManifestDomain>;
+  services: ManifestService[];
+}
+
+export interface ManifestProblem {
+  level: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * ManifestError - The manifest file is not shaped like a manifest
+ */
+export class ManifestError extends Error {
+  constructor(public readonly file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'ManifestError';
+  }
+}
+
+// A manifest entry as parsed, before its fields are checked
+type DomainEntry = Partial<Record<keyof ManifestDomain, unknown>>;
+type ServiceEntry = Partial<Record<keyof ManifestService, unknown>>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function loadManifest(file: string = MANIFEST_PATH): ServiceManifest {
+  const doc: unknown = YAML.parse(fs.readFileSync(file, 'utf8'));
+  function fail(message: string): never {
+    throw new ManifestError(file, message);
+  }
+
+  if (!isObject(doc)) fail('expected an object with domains and services');
+  if (!isObject(doc.domains)) fail('domains: expected an object keyed by domain id');
+  const domains: Record<string, ManifestDomain> = {};
+  for (const [id, entry] of Object.entries(doc.domains)) {
+    const { name, version, debug }: DomainEntry = isObject(entry) ? entry : {};
+    if (typeof name !== 'string' || version === undefined) fail(`domains.${id}: expected { name, version }`);
+    domains[id] = { name, version: String(version), ...(debug === undefined ? {} : { debug: Boolean(debug) }) };
+  }
+
+  if (!Array.isArray(doc.services)) fail('services: expected a list');
+  const services = doc.services.map((entry: unknown, i: number): ManifestService => {
+    const { id, asyncapi, openapi, domain, owners }: ServiceEntry = isObject(entry) ? entry : {};
+    if (typeof id !== 'string') fail(`services[${i}]: expected an object with an id`);
+    if (!asyncapi && !openapi) fail(`services[${i}] (${id}): needs asyncapi and/or openapi`);
+    if (typeof domain !== 'string') fail(`services[${i}] (${id}): domain must be a domain id`);
+    if (owners !== undefined && !Array.isArray(owners)) {
+      fail(`services[${i}] (${id}): owners must be a list of team or user ids`);
+    }
+    return {
+      id,
+      ...(asyncapi ? { asyncapi: String(asyncapi) } : {}),
+      ...(openapi ? { openapi: String(openapi) } : {}),
+      domain,
+      owners: Array.isArray(owners) ? owners.map(String) : [],
+    };
+  });
+  return { domains, services };
+}
+
+/**
+ * readFrontMatterIds - The `id` in the front-matter of every .mdx file in `dir`
+ */
+export function readFrontMatterIds(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(f => f.endsWith('.mdx') || f.endsWith('.md'))
+    .map(f => {
+      const match = /^---\r?\n([\s\S]*?)\r?\n---/.exec(fs.readFileSync(path.join(dir, f), 'utf8'));
+      return match ? YAML.parse(match[1])?.id : undefined;
+    })
+    .filter((id): id is string => typeof id === 'string');
+}
+
+/**
+ * checkManifest - Owners that are missing or unknown, dangling domains and files, and
+ * AsyncAPI files the manifest does not mention
+ */
+export function checkManifest(manifest: ServiceManifest, catalogDir: string = CATALOG_DIR): ManifestProblem[] {
+  const problems: ManifestProblem[] = [];
+  const error = (message: string) => problems.push({ level: 'error', message });
+  const warning = (message: string) => problems.push({ level: 'warning', message });
+
+  const teams = readFrontMatterIds(path.join(catalogDir, 'teams'));
+  const users = readFrontMatterIds(path.join(catalogDir, 'users'));
+  const seenIds = new Set<string>();
+
+  for (const service of manifest.services) {
+    if (seenIds.has(service.id)) error(`${service.id}: listed more than once`);
+    seenIds.add(service.id);
+
+    if (!manifest.domains[service.domain]) error(`${service.id}: unknown domain "${service.domain}"`);
+    if (service.owners.length === 0) error(`${service.id}: no owners`);
+    for (const owner of service.owners) {
+      if (!teams.includes(owner) && !users.includes(owner)) {
+        error(`${service.id}: unknown owner "${owner}" (not a team in teams/ or a user in users/)`);
+      }
+    }
+    if (service.asyncapi && !fs.existsSync(path.join(catalogDir, 'asyncapi-files', service.asyncapi))) {
+      error(`${service.id}: asyncapi-files/${service.asyncapi} does not exist`);
+    }
+    if (service.openapi && !fs.existsSync(path.join(catalogDir, 'openapi-files', service.openapi))) {
+      error(`${service.id}: openapi-files/${service.openapi} does not exist`);
+    }
+  }
+
+  const listed = manifest.services.map(s => s.asyncapi).filter(Boolean);
+  for (const file of fs.readdirSync(path.join(catalogDir, 'asyncapi-files')).filter(f => /\.ya?ml$/.test(f))) {
+    if (!listed.includes(file)) error(`asyncapi-files/${file} is not in the manifest`);
+  }
+
+  for (const domain of Object.keys(manifest.domains)) {
+    if (!manifest.services.some(s => s.domain === domain)) warning(`domain "${domain}" has no services`);
+  }
+
+  // Team membership is not used by the generators, but a typo there hides people from the catalog
+  for (const file of fs.existsSync(path.join(catalogDir, 'teams')) ? fs.readdirSync(path.join(catalogDir, 'teams')) : []) {
+    const match = /^---\r?\n([\s\S]*?)\r?\n---/.exec(fs.readFileSync(path.join(catalogDir, 'teams', file), 'utf8'));
+    const team = match ? YAML.parse(match[1]) : undefined;
+    for (const member of team?.members ?? []) {
+      if (!users.includes(member)) warning(`team "${team.id}" lists unknown member "${member}"`);
+    }
+  }
+  return problems;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function renderGenerator(
+  generator: string,
+  folder: string,
+  file: (service: ManifestService) => string | undefined,
+  manifest: ServiceManifest,
+): string[] {
+  const lines: string[] = [];
+  for (const [domainId, domain] of Object.entries(manifest.domains)) {
+    const services = manifest.services.filter(s => s.domain === domainId && file(s));
+    if (services.length === 0) continue;
+
+    lines.push('    [');
+    lines.push(`      ${quote(generator)},`);
+    lines.push('      {');
+    lines.push('        services: [');
+    for (const service of services) {
+      const owners = service.owners.map(quote).join(', ');
+      lines.push(`          { path: path.join(__dirname, ${quote(folder)}, ${quote(file(service)!)}), id: ${quote(service.id)}, owners: [${owners}] },`);
+    }
+    lines.push('        ],');
+    lines.push(`        domain: { id: ${quote(domainId)}, name: ${quote(domain.name)}, version: ${quote(domain.version)} },`);
+    if (domain.debug) lines.push('        debug: true,');
+    lines.push('      },');
+    lines.push('    ],');
+  }
+  return lines;
+}
+
+/**
+ * renderGenerators - The `generators` property of eventcatalog.config.js, markers included
+ */
+export function renderGenerators(manifest: ServiceManifest): string {
+  return [
+    `  ${BEGIN_MARKER} (edit the manifest, then run \`yarn manifest\` in tools/spec-tools)`,
+    '  generators: [',
+    ...renderGenerator('@eventcatalog/generator-asyncapi', 'asyncapi-files', s => s.asyncapi, manifest),
+    ...renderGenerator('@eventcatalog/generator-openapi', 'openapi-files', s => s.openapi, manifest),
+    '  ],',
+    `  ${END_MARKER}`,
+  ].join('\n');
+}
+
+/**
+ * applyGenerators - Replaces the generated block of the config source
+ */
+export function applyGenerators(config: string, generated: string): string {
+  const begin = config.indexOf(BEGIN_MARKER);
+  const end = config.indexOf(END_MARKER);
+  if (begin === -1 || end === -1 || end < begin) {
+    throw new Error(`eventcatalog.config.js has no "${BEGIN_MARKER}" ... "${END_MARKER}" block`);
+  }
+  const lineStart = config.lastIndexOf('\n', begin) + 1;
+  return config.slice(0, lineStart) + generated + config.slice(end + END_MARKER.length);
+}
@@ -0,0 +1,319 @@
+import path from 'path';
+import { ChannelObject, JsonSchema, MessageObject, SpecDocument, dereference, resolvePointer } from './specs';
+import { GeneratorOutput, RenderContext, camelCase, generatedHeader, oneLine, pascalCase, quote } from './render';
+
+// ============================================================================
+// The payloads and headers presets: a model class per message payload (and per
+// object schema inside one), and the headers every message declares
+// ============================================================================
+export interface PayloadsOutput extends GeneratorOutput {
+  // Model class of every channel message, by `<channelId>/<messageName>`; each is in `<outputPath>/<Model>.ts`
+  models: Record<string, string>;
+}
+
+export interface HeadersOutput extends GeneratorOutput {
+  // Constant with the header defaults of every channel message that declares headers,
+  // by `<channelId>/<messageName>`; each is in `<outputPath>/<file>.ts`
+  defaults: Record<string, { file: string; constant: string }>;
+}
+
+export function isPayloadsOutput(output: GeneratorOutput | undefined): output is PayloadsOutput {
+  return output !== undefined && 'models' in output;
+}
+
+export function isHeadersOutput(output: GeneratorOutput | undefined): output is HeadersOutput {
+  return output !== undefined && 'defaults' in output;
+}
+
+export interface ChannelMessage {
+  key: string;          // `<channelId>/<messageName>`
+  channelId: string;
+  address: string;
+  messageName: string;
+  message: MessageObject;  // $refs left in place below it
+}
+
+/**
+ * channelMessages - Every message of every channel, in document order
+ */
+export function channelMessages(spec: SpecDocument): ChannelMessage[] {
+  const { doc } = spec;
+  return Object.entries(doc.channels ?? {}).flatMap(([channelId, node]) => {
+    const channel = resolved<ChannelObject>(doc, node);
+    return Object.entries(channel.messages ?? {}).map(([messageName, message]) => ({
+      key: `${channelId}/${messageName}`,
+      channelId,
+      address: channel.address,
+      messageName,
+      message: resolved<MessageObject>(doc, message),
+    }));
+  });
+}
+
+function resolved<T>(doc: unknown, node: unknown): T {
+  const seen: string[] = [];
+  let current = node;
+  while (isReference(current)) {
+    if (seen.includes(current.$ref)) throw new Error(`Circular $ref "${current.$ref}"`);
+    seen.push(current.$ref);
+    current = resolvePointer(doc, current.$ref);
+  }
+  return current as T;
+}
+
+function isReference(node: unknown): node is { $ref: string } {
+  return node !== null && typeof node === 'object' && typeof (node as { $ref?: unknown }).$ref === 'string';
+}
+
+/**
+ * The name of the component schema `node` refers to, if it refers to one
+ */
+function componentName(node: unknown): string | undefined {
+  const match = isReference(node) ? /^#\/components\/schemas\/([^/]+)$/.exec(node.$ref) : null;
+  return match ? match[1] : undefined;
+}
+
+// ============================================================================
+// Payload models
+// ============================================================================
+interface Field {
+  property: string;     // Name in the class
+  wireName: string;     // Name in the JSON payload
+  type: string;
+  optional: boolean;
+  comment?: string;
+  read: string;         // Expression reading the field from `obj`
+  write: (value: string) => string;  // Expression writing `value` to JSON
+}
+
+interface Model {
+  name: string;
+  signature: string;    // The dereferenced schema, to tell two schemas wanting one name apart
+  fields: Field[];
+  readers: Set<string>; // Functions of service-kit/src/wire it reads with
+  uses: Set<string>;    // Other models it refers to
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function quoteKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : quote(name);
+}
+
+function typeOf(schema: JsonSchema): string | undefined {
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter(t => t !== 'null');
+    return types.length === 1 ? types[0] : undefined;
+  }
+  return schema.type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+}
+
+class ModelSet {
+  readonly models = new Map<string, Model>();
+
+  constructor(private readonly spec: SpecDocument) {}
+
+  /**
+   * add - The model for the object schema `node`, named after the component schema it refers
+   * to, its title or else `name`
+   */
+  add(node: unknown, name: string): string {
+    const schema = resolved<JsonSchema>(this.spec.doc, node);
+    const modelName = componentName(node) ?? (schema.title ? pascalCase(String(schema.title)) : name);
+    const signature = JSON.stringify(dereference(this.spec.doc, node));
+
+    const existing = this.models.get(modelName);
+    if (existing) {
+      if (existing.signature !== signature) {
+        throw new Error(`${this.spec.file}: two different schemas would both generate the model ${modelName}`);
+      }
+      return modelName;
+    }
+
+    const model: Model = { name: modelName, signature, fields: [], readers: new Set(['toWireObject']), uses: new Set() };
+    this.models.set(modelName, model);
+
+    // Without a `required` list every property is required, as the services have always read them
+    const required = schema.required ?? Object.keys(schema.properties ?? {});
+    for (const [wireName, property] of Object.entries(schema.properties ?? {})) {
+      model.fields.push(this.field(model, wireName, property, !required.includes(wireName)));
+    }
+    return modelName;
+  }
+
+  private field(model: Model, wireName: string, node: unknown, optional: boolean): Field {
+    const schema = resolved<JsonSchema>(this.spec.doc, node);
+    const at = `${model.name}.${wireName}`;
+    const read = (reader: string) => {
+      model.readers.add(reader);
+      return `${reader}(obj, '${wireName}', '${model.name}')`;
+    };
+    const base = { property: IDENTIFIER.test(wireName) ? wireName : camelCase(wireName), wireName, optional };
+    const optionalRead = (expression: string) => (optional
+      ? `obj${IDENTIFIER.test(wireName) ? `.${wireName}` : `[${quote(wireName)}]`} === undefined ? undefined : ${expression}`
+      : expression);
+    const call = (method: string) => (value: string) => `${value}${optional ? '?' : ''}.${method}`;
+
+    switch (typeOf(schema)) {
+      case 'string':
+        if (schema.format === 'date-time') {
+          return {
+            ...base, type: 'Date', comment: 'ISO 8601 date-time on the wire',
+            read: optionalRead(read('readDateTime')), write: call('toISOString()'),
+          };
+        }
+        return { ...base, type: 'string', read: optionalRead(read('readString')), write: value => value };
+      case 'integer':
+        return { ...base, type: 'number', read: optionalRead(read('readInteger')), write: value => value };
+      case 'number':
+        return { ...base, type: 'number', read: optionalRead(read('readNumber')), write: value => value };
+      case 'boolean':
+        return { ...base, type: 'boolean', read: optionalRead(read('readBoolean')), write: value => value };
+      case 'object': {
+        const nested = this.add(node, model.name + pascalCase(wireName));
+        model.uses.add(nested);
+        return {
+          ...base, type: nested,
+          read: optionalRead(`${nested}.unmarshal(${read('readObject')})`), write: call('toJSON()'),
+        };
+      }
+      case 'array': {
+        const items = schema.items ?? {};
+        const itemType = typeOf(resolved<JsonSchema>(this.spec.doc, items));
+        if (itemType !== 'object') {
+          throw new Error(`${this.spec.file}: ${at} is an array of ${itemType ?? 'anything'}, only arrays of objects are supported`);
+        }
+        const nested = this.add(items, model.name + pascalCase(wireName.replace(/s$/, '')));
+        model.uses.add(nested);
+        model.readers.add('readArray');
+        return {
+          ...base, type: `${nested}[]`,
+          read: optionalRead(`readArray(obj, '${wireName}', '${model.name}', item => ${nested}.unmarshal(item as object))`),
+          write: call('map(item => item.toJSON())'),
+        };
+      }
+      default:
+        throw new Error(`${this.spec.file}: ${at} has no single type the payloads preset supports`);
+    }
+  }
+}
+
+function renderModel(model: Model, spec: SpecDocument): string {
+  const optional = (field: Field) => (field.optional ? ' | undefined' : '');
+  const lines = [
+    generatedHeader('payloads', spec),
+    `import { ${Array.from(model.readers).sort().join(', ')} } from 'service-kit/src/wire';`,
+    ...Array.from(model.uses).sort().map(name => `import { ${name} } from './${name}';`),
+    '',
+    `export interface ${model.name}Props {`,
+    ...model.fields.map(f => `  ${f.property}${f.optional ? '?' : ''}: ${f.type};${f.comment ? ` // ${f.comment}` : ''}`),
+    '}',
+    '',
+    `export class ${model.name} {`,
+    ...model.fields.map(f => `  private _${f.property}${f.optional ? '?' : ''}: ${f.type};`),
+    '',
+    `  constructor(props: ${model.name}Props) {`,
+    ...model.fields.map(f => `    this._${f.property} = props.${f.property};`),
+    '  }',
+    '',
+    ...model.fields.map(f => `  get ${f.property}(): ${f.type}${optional(f)} { return this._${f.property}; }`),
+    '',
+    '  toJSON(): Record<string, unknown> {',
+    '    return {',
+    ...model.fields.map(f => `      ${quoteKey(f.wireName)}: ${f.write(`this._${f.property}`)},`),
+    '    };',
+    '  }',
+    '',
+    '  marshal(): string {',
+    '    return JSON.stringify(this);',
+    '  }',
+    '',
+    `  static unmarshal(json: string | object): ${model.name} {`,
+    `    const obj = toWireObject(json, '${model.name}');`,
+    `    return new ${model.name}({`,
+    ...model.fields.map(f => `      ${f.property}: ${f.read},`),
+    '    });',
+    '  }',
+    '}',
+    '',
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * renderPayloads - The payloads preset: `<outputPath>/<Model>.ts` for the payload of every
+ * channel message, named after the message, and for every object schema inside one
+ */
+export function renderPayloads({ spec, outputPath }: RenderContext): PayloadsOutput {
+  const set = new ModelSet(spec);
+  const models: Record<string, string> = {};
+  for (const { key, messageName, message } of channelMessages(spec)) {
+    if (message.payload) models[key] = set.add(message.payload, pascalCase(messageName));
+  }
+
+  const files = Array.from(set.models.values())
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(model => ({ path: path.join(outputPath, `${model.name}.ts`), content: renderModel(model, spec) }));
+  return { outputPath, files, models };
+}
+
+// ============================================================================
+// Headers
+// ============================================================================
+
+function constantCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+}
+
+/**
+ * renderHeaders - The headers preset: `<outputPath>/<Message>Headers.ts` for every channel
+ * message that declares headers, with their names and the defaults the spec gives them
+ * (e.g. ec-message-type)
+ */
+export function renderHeaders({ spec, outputPath }: RenderContext): HeadersOutput {
+  const files = new Map<string, string>();
+  const defaults: HeadersOutput['defaults'] = {};
+
+  for (const { key, messageName, message } of channelMessages(spec)) {
+    if (!message.headers) continue;
+    const schema = dereference<JsonSchema>(spec.doc, message.headers);
+    const name = `${pascalCase(messageName)}Headers`;
+    const constant = `${constantCase(pascalCase(messageName))}_HEADER_DEFAULTS`;
+    const required = schema.required ?? [];
+    const properties = Object.entries(schema.properties ?? {});
+
+    const content = [
+      generatedHeader('headers', spec),
+      '',
+      '/**',
+      ` * ${name} - The headers of ${messageName}, by name; values travel as strings`,
+      ' */',
+      `export interface ${name} {`,
+      ...properties.map(([header, property]) =>
+        `  ${quote(header)}${required.includes(header) ? '' : '?'}: string;${property.description ? ` // ${oneLine(property.description)}` : ''}`),
+      '}',
+      '',
+      '// The `default` the spec gives a header, for every header that has one',
+      `export const ${constant} = {`,
+      ...properties
+        .filter(([, property]) => property.default !== undefined)
+        .map(([header, property]) => `  ${quote(header)}: ${quote(String(property.default))},`),
+      `} satisfies ${name};`,
+      '',
+    ].join('\n');
+
+    const existing = files.get(name);
+    if (existing !== undefined && existing !== content) {
+      throw new Error(`${spec.file}: two messages named ${messageName} declare different headers`);
+    }
+    files.set(name, content);
+    defaults[key] = { file: name, constant };
+  }
+
+  return {
+    outputPath,
+    files: Array.from(files, ([name, content]) => ({ path: path.join(outputPath, `${name}.ts`), content }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    defaults,
+  };
+}
@@ -0,0 +1,54 @@
+import path from 'path';
+import { SpecDocument } from './specs';
+
+// ============================================================================
+// What the codegen presets render from and return, and the naming helpers
+// they share
+// ============================================================================
+export interface GeneratedFile {
+  path: string;     // Relative to the directory of the codegen config
+  content: string;
+}
+
+export interface GeneratorOutput {
+  outputPath: string;
+  files: GeneratedFile[];
+}
+
+export interface RenderContext {
+  spec: SpecDocument;
+  outputPath: string;
+  dependencyOutputs: Record<string, GeneratorOutput>;
+}
+
+export function pascalCase(value: string): string {
+  return value
+    .replace(/[^A-Za-z0-9]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''))
+    .replace(/^./, c => c.toUpperCase());
+}
+
+export function camelCase(value: string): string {
+  return pascalCase(value).replace(/^./, c => c.toLowerCase());
+}
+
+export function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+// A description as the text of a line comment
+export function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * importPath - Module specifier for `to` (a directory or file below the codegen config)
+ * as seen from a file in the directory `from`
+ */
+export function importPath(from: string, to: string): string {
+  const relative = path.relative(from, to).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+export function generatedHeader(preset: string, spec: SpecDocument): string {
+  return `// Generated by the ${preset} preset of tools/spec-tools from ${spec.file}, do not edit`;
+}
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { AsyncApiDocument, isAsyncApiDocument } from 'service-kit/src/asyncapi';
+
+// ============================================================================
+// Loading the AsyncAPI files in eventcatalog/asyncapi-files/
+// ============================================================================
+export const ASYNCAPI_DIR = process.env.ASYNCAPI_DIR
+  || path.resolve(__dirname, '../../../eventcatalog/asyncapi-files');
+
+export interface JsonSchema {
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+// Channel and message objects once dereferenced
+export interface ChannelObject {
+  address: string;
+  description?: string;
+  messages?: Record<string, MessageObject>;
+  [field: string]: unknown;
+}
+
+export interface MessageObject {
+  payload?: JsonSchema;
+  headers?: JsonSchema;
+  [field: string]: unknown;
+}
+
+export interface SpecDocument {
+  file: string;         // File name, e.g. orders-service.yml
+  path: string;
+  service: string;      // info.title
+  version: string;      // info.version
+  doc: AsyncApiDocument;  // Parsed document, $refs left in place
+}
+
+export interface OperationMessage {
+  service: string;
+  file: string;
+  operationId: string;
+  action: 'send' | 'receive';
+  channelId: string;
+  channel: string;      // Channel address
+  messageName: string;
+  payload: JsonSchema;  // With every $ref resolved
+  headers?: JsonSchema; // Likewise, when the message declares headers
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * resolvePointer - Resolves a local `#/...` JSON pointer inside a document
+ */
+export function resolvePointer(doc: unknown, ref: string): unknown {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Only local $refs are supported, got "${ref}"`);
+  }
+  return ref.slice(2).split('/').reduce<unknown>((node, token) => {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!isObject(node) || !(key in node)) throw new Error(`Cannot resolve $ref "${ref}"`);
+    return node[key];
+  }, doc);
+}
+
+/**
+ * dereference - Returns a copy of `node` with every $ref replaced by what it points at,
+ * typed as the `T` the caller expects at that place in the document
+ */
+export function dereference<T = unknown>(doc: unknown, node: unknown, seen: string[] = []): T {
+  if (Array.isArray(node)) return node.map(item => dereference(doc, item, seen)) as T;
+  if (!isObject(node)) return node as T;
+
+  if (typeof node.$ref === 'string') {
+    if (seen.includes(node.$ref)) throw new Error(`Circular $ref "${node.$ref}"`);
+    return dereference<T>(doc, resolvePointer(doc, node.$ref), [...seen, node.$ref]);
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    copy[key] = dereference(doc, value, seen);
+  }
+  return copy as T;
+}
+
+/**
+ * parseSpec - Parses AsyncAPI YAML or JSON text; `file` is only used for naming and errors
+ */
+export function parseSpec(text: string, file: string): SpecDocument {
+  const doc: unknown = YAML.parse(text);
+  if (!isAsyncApiDocument(doc)) throw new Error(`${file} is not an AsyncAPI document`);
+  return {
+    file: path.basename(file),
+    path: file,
+    service: doc.info?.title ?? path.basename(file),
+    version: String(doc.info?.version ?? ''),
+    doc,
+  };
+}
+
+export function loadSpecFile(file: string): SpecDocument {
+  return parseSpec(fs.readFileSync(file, 'utf8'), file);
+}
+
+/**
+ * loadSpecs - Every AsyncAPI file in `dir`, sorted by file name
+ */
+export function loadSpecs(dir: string = ASYNCAPI_DIR): SpecDocument[] {
+  return fs.readdirSync(dir)
+    .filter(f => /\.ya?ml$/.test(f))
+    .sort()
+    .map(f => loadSpecFile(path.join(dir, f)));
+}
+
+/**
+ * operationMessages - One entry per message of every operation in the document
+ */
+export function operationMessages(spec: SpecDocument): OperationMessage[] {
+  const { doc } = spec;
+  const messages: OperationMessage[] = [];
+
+  for (const [operationId, operation] of Object.entries(doc.operations ?? {})) {
+    const channelRef = operation.channel?.$ref;
+    const channel = dereference<ChannelObject>(doc, operation.channel);
+    for (const messageRef of operation.messages ?? []) {
+      const message = dereference<MessageObject>(doc, messageRef);
+      messages.push({
+        service: spec.service,
+        file: spec.file,
+        operationId,
+        action: operation.action,
+        channelId: channelRef ? channelRef.split('/').pop()! : operationId,
+        channel: channel.address,
+        messageName: messageRef.$ref.split('/').pop() ?? operationId,
+        payload: message.payload ?? {},
+        headers: message.headers,
+      });
+    }
+  }
+  return messages;
+}
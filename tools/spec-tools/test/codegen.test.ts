@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, test } from 'node:test';
+import { CustomGenerator, GeneratorOutput, compareOutputs, generateFromSpec, writeOutputs } from '../src/codegen';
+import { parseSpec } from '../src/specs';
+
+// ============================================================================
+// The codegen presets over a small spec, and the check against committed output
+// ============================================================================
+const SPEC = parseSpec(JSON.stringify({
+  asyncapi: '3.0.0',
+  info: { title: 'shop-service', version: '1.0.0' },
+  channels: {
+    orderCreated: { address: 'order.created', messages: { OrderCreated: { $ref: '#/components/messages/OrderCreated' } } },
+    orderCancelled: { address: 'order.cancelled', messages: { OrderCancelled: { $ref: '#/components/messages/OrderCancelled' } } },
+  },
+  operations: {
+    receiveOrderCreated: {
+      action: 'receive',
+      channel: { $ref: '#/channels/orderCreated' },
+      messages: [{ $ref: '#/channels/orderCreated/messages/OrderCreated' }],
+    },
+    sendOrderCancelled: {
+      action: 'send',
+      channel: { $ref: '#/channels/orderCancelled' },
+      messages: [{ $ref: '#/channels/orderCancelled/messages/OrderCancelled' }],
+    },
+  },
+  components: {
+    messages: {
+      OrderCreated: {
+        payload: {
+          type: 'object',
+          properties: {
+            orderId: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+            items: { type: 'array', items: { $ref: '#/components/schemas/OrderItem' } },
+          },
+        },
+      },
+      OrderCancelled: {
+        headers: { type: 'object', properties: { 'ec-message-type': { type: 'string', default: 'event' } } },
+        payload: {
+          type: 'object',
+          required: ['orderId'],
+          properties: { orderId: { type: 'string' }, reason: { type: 'string' } },
+        },
+      },
+    },
+    schemas: {
+      OrderItem: { type: 'object', properties: { itemId: { type: 'string' }, quantity: { type: 'integer' } } },
+    },
+  },
+}), 'shop-service.yml');
+
+function files(outputs: GeneratorOutput[]): Record<string, string> {
+  return Object.fromEntries(outputs.flatMap(o => o.files).map(f => [f.path, f.content]));
+}
+
+describe('generateFromSpec', () => {
+  const generated = files(generateFromSpec(SPEC, [
+    { preset: 'channels', outputPath: 'gen/channels' },
+    { preset: 'payloads', outputPath: 'gen/payloads' },
+    { preset: 'headers', outputPath: 'gen/headers' },
+    { preset: 'types', outputPath: 'gen/types' },
+    { preset: 'parameters', outputPath: 'gen/parameters' },
+  ]));
+
+  test('renders a model per payload and per object schema inside one', () => {
+    assert.deepEqual(Object.keys(generated).filter(f => f.startsWith('gen/payloads/')).sort(), [
+      'gen/payloads/OrderCancelled.ts', 'gen/payloads/OrderCreated.ts', 'gen/payloads/OrderItem.ts',
+    ]);
+    assert.match(generated['gen/payloads/OrderCreated.ts'], /^ {2}createdAt: Date; \/\/ ISO 8601 date-time on the wire$/m);
+    assert.match(generated['gen/payloads/OrderCreated.ts'], /readArray\(obj, 'items', 'OrderCreated', item => OrderItem\.unmarshal\(item as object\)\)/);
+    assert.match(generated['gen/payloads/OrderCancelled.ts'], /^ {2}reason\?: string;$/m);
+  });
+
+  test('gives every send operation the header defaults of its message', () => {
+    assert.match(generated['gen/headers/OrderCancelledHeaders.ts'], /ORDER_CANCELLED_HEADER_DEFAULTS = \{\n {2}'ec-message-type': 'event',\n\}/);
+    const channels = generated['gen/channels/index.ts'];
+    assert.match(channels, /^import \{ ORDER_CANCELLED_HEADER_DEFAULTS \} from '\.\.\/headers\/OrderCancelledHeaders';$/m);
+    assert.match(channels, /export function sendOrderCancelled<E>\(runtime: ChannelRuntime<E>, message: OrderCancelled, envelope\?: E\)/);
+    assert.match(channels, / {4}headers: ORDER_CANCELLED_HEADER_DEFAULTS,/);
+    assert.match(channels, / {4}unmarshal: OrderCreated\.unmarshal,/);
+  });
+
+  test('lists the channels and operation ids, and writes no parameters without {parameters}', () => {
+    assert.match(generated['gen/types/index.ts'], /orderCreated: 'order\.created',\n {2}orderCancelled: 'order\.cancelled',/);
+    assert.match(generated['gen/types/index.ts'], /export type SendOperationId =\n {2}\| 'sendOrderCancelled';/);
+    assert.equal(Object.keys(generated).filter(f => f.startsWith('gen/parameters/')).length, 0);
+  });
+
+  test('runs a custom generator after the generators it depends on', () => {
+    const order: string[] = [];
+    const custom: CustomGenerator = {
+      preset: 'custom',
+      id: 'report',
+      outputPath: 'gen/report',
+      dependencies: ['channels-typescript'],
+      renderFunction: ({ outputPath, dependencyOutputs }) => {
+        order.push('report');
+        return { outputPath, files: [{ path: `${outputPath}/report.txt`, content: Object.keys(dependencyOutputs).join() }] };
+      },
+    };
+    const outputs = generateFromSpec(SPEC, [
+      custom,
+      { preset: 'channels', outputPath: 'gen/channels' },
+      { preset: 'payloads', outputPath: 'gen/payloads' },
+      { preset: 'headers', outputPath: 'gen/headers' },
+    ]);
+    assert.deepEqual(order, ['report']);
+    assert.equal(files(outputs)['gen/report/report.txt'], 'channels-typescript');
+  });
+
+  test('fails on a missing dependency and on generators depending on each other', () => {
+    assert.throws(() => generateFromSpec(SPEC, [{ preset: 'channels', outputPath: 'gen/channels' }]),
+      /No generator "payloads-typescript", needed by channels-typescript/);
+    const loop = (id: string, dependency: string): CustomGenerator => ({
+      preset: 'custom', id, outputPath: id, dependencies: [dependency],
+      renderFunction: ({ outputPath }) => ({ outputPath, files: [] }),
+    });
+    assert.throws(() => generateFromSpec(SPEC, [loop('a', 'b'), loop('b', 'a')]), /depend on each other: a → b → a/);
+  });
+});
+
+describe('compareOutputs', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-tools-codegen-'));
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  test('reports missing, stale and no longer generated files', () => {
+    const outputs = generateFromSpec(SPEC, [{ preset: 'payloads', outputPath: 'gen/payloads' }]);
+    const generatedDir = path.join(root, 'generated');
+    const committedDir = path.join(root, 'committed');
+    writeOutputs(outputs, generatedDir);
+    writeOutputs(outputs, committedDir);
+    assert.deepEqual(compareOutputs(['gen/payloads'], generatedDir, committedDir), []);
+
+    fs.rmSync(path.join(committedDir, 'gen/payloads/OrderItem.ts'));
+    fs.appendFileSync(path.join(committedDir, 'gen/payloads/OrderCreated.ts'), '// edited\n');
+    fs.writeFileSync(path.join(committedDir, 'gen/payloads/OrderShipped.ts'), '');
+    assert.deepEqual(compareOutputs(['gen/payloads'], generatedDir, committedDir), [
+      'gen/payloads/OrderCreated.ts is out of date',
+      'gen/payloads/OrderItem.ts is missing',
+      'gen/payloads/OrderShipped.ts is no longer generated',
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { bumpVersion, declaredBump, diffSpecs, versionVerdict } from '../src/diff';
+import { JsonSchema, SpecDocument, parseSpec } from '../src/specs';
+
+// ============================================================================
+// Breaking-change detection between two versions of an AsyncAPI document
+// ============================================================================
+const PAYLOAD: JsonSchema = {
+  type: 'object',
+  required: ['orderId', 'reason'],
+  properties: { orderId: { type: 'string' }, reason: { type: 'string' } },
+};
+
+interface Version {
+  version?: string;
+  action?: 'send' | 'receive';
+  payload?: JsonSchema;
+  channels?: Record<string, string>;  // Channel id → address
+}
+
+/**
+ * spec - An orders-service document whose every channel carries one OrderCancelled message
+ */
+function spec({ version = '1.0.0', action = 'send', payload = PAYLOAD, channels = { orderCancelled: 'orders.cancelled' } }: Version): SpecDocument {
+  const doc = {
+    asyncapi: '3.0.0',
+    info: { title: 'orders-service', version },
+    channels: Object.fromEntries(Object.entries(channels).map(([id, address]) =>
+      [id, { address, messages: { OrderCancelled: { $ref: '#/components/messages/OrderCancelled' } } }])),
+    operations: Object.fromEntries(Object.keys(channels).map(id => [id, {
+      action,
+      channel: { $ref: `#/channels/${id}` },
+      messages: [{ $ref: `#/channels/${id}/messages/OrderCancelled` }],
+    }])),
+    components: { messages: { OrderCancelled: { payload } } },
+  };
+  return parseSpec(JSON.stringify(doc), `orders-service@${version}.yml`);
+}
+
+function withProperty(name: string, schema: JsonSchema, required = false): JsonSchema {
+  return {
+    ...PAYLOAD,
+    required: required ? [...PAYLOAD.required!, name] : PAYLOAD.required,
+    properties: { ...PAYLOAD.properties, [name]: schema },
+  };
+}
+
+function kinds(before: SpecDocument, after: SpecDocument): [string, string][] {
+  return diffSpecs(before, after).changes.map(change => [change.severity, change.kind]);
+}
+
+describe('diffSpecs', () => {
+  test('finds no changes between identical documents', () => {
+    const report = diffSpecs(spec({}), spec({}));
+    assert.deepEqual(report.changes, []);
+    assert.equal(report.suggestedBump, 'none');
+    assert.equal(report.suggestedVersion, '1.0.0');
+    assert.equal(report.versionOk, true);
+  });
+
+  test('treats an optional field added to a sent message as non-breaking and asks for a minor bump', () => {
+    const report = diffSpecs(spec({}), spec({ version: '1.1.0', payload: withProperty('note', { type: 'string' }) }));
+    assert.deepEqual(report.changes.filter(c => c.severity !== 'informational').map(c => [c.kind, c.location]), [
+      ['field-added', 'channels.orderCancelled.messages.OrderCancelled.payload.note'],
+    ]);
+    assert.equal(report.suggestedBump, 'minor');
+    assert.equal(report.suggestedVersion, '1.1.0');
+    assert.equal(report.declaredBump, 'minor');
+    assert.equal(report.versionOk, true);
+  });
+
+  test('treats a removed field as breaking and refuses a minor bump for it', () => {
+    const payload: JsonSchema = { ...PAYLOAD, required: ['orderId'], properties: { orderId: { type: 'string' } } };
+    const report = diffSpecs(spec({}), spec({ version: '1.1.0', payload }));
+    assert.deepEqual(report.changes.filter(c => c.severity === 'breaking').map(c => c.kind), ['field-removed']);
+    assert.equal(report.summary.breaking, 1);
+    assert.equal(report.suggestedBump, 'major');
+    assert.equal(report.suggestedVersion, '2.0.0');
+    assert.equal(report.versionOk, false);
+  });
+
+  test('reports a removed field with a same-shaped added field as a rename', () => {
+    const payload: JsonSchema = { ...PAYLOAD, required: ['orderId'], properties: { orderId: { type: 'string' }, cause: { type: 'string' } } };
+    assert.deepEqual(kinds(spec({}), spec({ payload })).filter(([severity]) => severity === 'breaking'), [
+      ['breaking', 'field-renamed'],
+    ]);
+  });
+
+  test('judges a new required field by who reads the channel', () => {
+    const payload = withProperty('refund', { type: 'number' }, true);
+    assert.deepEqual(kinds(spec({ action: 'send' }), spec({ action: 'send', payload })), [['non-breaking', 'required-field-added']]);
+    assert.deepEqual(kinds(spec({ action: 'receive' }), spec({ action: 'receive', payload })), [['breaking', 'required-field-added']]);
+  });
+
+  test('judges a widened type by who reads the channel', () => {
+    const payload = withProperty('reason', { type: ['string', 'null'] }, true);
+    assert.deepEqual(kinds(spec({ action: 'send' }), spec({ action: 'send', payload })), [['breaking', 'type-widened']]);
+    assert.deepEqual(kinds(spec({ action: 'receive' }), spec({ action: 'receive', payload })), [['non-breaking', 'type-widened']]);
+  });
+
+  test('treats a removed channel and its operation as breaking and an added one as non-breaking', () => {
+    const both = { orderCancelled: 'orders.cancelled', orderRefunded: 'orders.refunded' };
+    assert.deepEqual(kinds(spec({ channels: both }), spec({})), [
+      ['breaking', 'channel-removed'],
+      ['breaking', 'operation-removed'],
+    ]);
+    assert.deepEqual(kinds(spec({}), spec({ channels: both })), [
+      ['non-breaking', 'channel-added'],
+      ['non-breaking', 'operation-added'],
+    ]);
+  });
+
+  test('asks for a patch bump when only descriptions change', () => {
+    const payload = withProperty('reason', { type: 'string', description: 'Why the order was cancelled' }, true);
+    const report = diffSpecs(spec({}), spec({ payload }));
+    assert.deepEqual(report.changes.map(c => c.severity), ['informational']);
+    assert.equal(report.suggestedBump, 'patch');
+    assert.equal(report.versionOk, false);
+  });
+
+  test('does not count the version edit itself as a change to bump for', () => {
+    const report = diffSpecs(spec({}), spec({ version: '1.0.1' }));
+    assert.deepEqual(report.changes.map(c => c.kind), ['info-version-changed']);
+    assert.equal(report.suggestedBump, 'none');
+    assert.equal(report.versionOk, true);
+  });
+});
+
+describe('declaredBump and bumpVersion', () => {
+  test('reads how far the version moved forward', () => {
+    assert.equal(declaredBump('1.2.3', '2.0.0'), 'major');
+    assert.equal(declaredBump('1.2.3', '1.3.0'), 'minor');
+    assert.equal(declaredBump('1.2.3', '1.2.4'), 'patch');
+    assert.equal(declaredBump('1.2.3', '1.2.3'), 'none');
+    assert.equal(declaredBump('1.2.3', '1.1.9'), 'none');
+  });
+
+  test('bumps a version', () => {
+    assert.equal(bumpVersion('1.2.3', 'major'), '2.0.0');
+    assert.equal(bumpVersion('1.2.3', 'minor'), '1.3.0');
+    assert.equal(bumpVersion('1.2.3', 'patch'), '1.2.4');
+    assert.equal(bumpVersion('1.2.3', 'none'), '1.2.3');
+  });
+});
+
+describe('versionVerdict', () => {
+  test('says an unchanged version needs no bump when nothing changed', () => {
+    const verdict = versionVerdict(diffSpecs(spec({}), spec({})));
+    assert.equal(verdict, '✅ Version 1.0.0 is unchanged, no bump is needed');
+    assert.doesNotMatch(verdict, /none bump/);
+  });
+
+  test('says a sufficient bump is enough', () => {
+    const report = diffSpecs(spec({}), spec({ version: '2.0.0', payload: withProperty('note', { type: 'string' }) }));
+    assert.equal(versionVerdict(report), '✅ Declared version 2.0.0 is a major bump, which is enough');
+  });
+
+  test('names the bump the changes require when the declared one falls short', () => {
+    const payload: JsonSchema = { ...PAYLOAD, required: ['orderId'], properties: { orderId: { type: 'string' } } };
+    assert.equal(versionVerdict(diffSpecs(spec({}), spec({ version: '1.0.1', payload }))),
+      '❌ Declared version 1.0.1 is a patch bump, major is required');
+    assert.equal(versionVerdict(diffSpecs(spec({}), spec({ payload }))),
+      '❌ Version 1.0.0 is unchanged, major is required');
+  });
+
+  test('says so when the version went backwards', () => {
+    const report = diffSpecs(spec({ version: '1.2.0' }), spec({ version: '1.1.0', payload: withProperty('note', { type: 'string' }) }));
+    assert.equal(versionVerdict(report), '❌ Declared version 1.1.0 does not move forward from 1.2.0, minor is required');
+  });
+});
@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { checkDrift, compareSchemas } from '../src/drift';
+import { JsonSchema, SpecDocument, parseSpec } from '../src/specs';
+
+// ============================================================================
+// Contract drift between the specs that send and receive on a channel
+// ============================================================================
+const ORDER_CREATED: JsonSchema = {
+  type: 'object',
+  required: ['orderId', 'total'],
+  properties: { orderId: { type: 'string' }, total: { type: 'number' } },
+};
+
+/**
+ * spec - A one-channel AsyncAPI document for `service` that `action`s `payload` on orders.created
+ */
+function spec(service: string, action: 'send' | 'receive', payload: JsonSchema): SpecDocument {
+  const doc = {
+    asyncapi: '3.0.0',
+    info: { title: service, version: '1.0.0' },
+    channels: {
+      orderCreated: { address: 'orders.created', messages: { OrderCreated: { $ref: '#/components/messages/OrderCreated' } } },
+    },
+    operations: {
+      orderCreated: {
+        action,
+        channel: { $ref: '#/channels/orderCreated' },
+        messages: [{ $ref: '#/channels/orderCreated/messages/OrderCreated' }],
+      },
+    },
+    components: { messages: { OrderCreated: { payload } } },
+  };
+  return parseSpec(JSON.stringify(doc), `${service}.yml`);
+}
+
+describe('parseSpec', () => {
+  test('refuses a document without an asyncapi version', () => {
+    assert.throws(() => parseSpec('info:\n  title: orders\n', 'orders.yml'), /orders\.yml is not an AsyncAPI document/);
+  });
+});
+
+describe('compareSchemas', () => {
+  test('finds nothing when the schemas match', () => {
+    assert.deepEqual(compareSchemas(ORDER_CREATED, ORDER_CREATED), []);
+  });
+
+  test('reports a field the consumer requires but the producer leaves out or makes optional', () => {
+    const producer: JsonSchema = { ...ORDER_CREATED, required: ['orderId'], properties: { orderId: { type: 'string' } } };
+    const consumer: JsonSchema = { ...ORDER_CREATED, required: ['orderId', 'total', 'currency'], properties: { ...ORDER_CREATED.properties, currency: { type: 'string' } } };
+    assert.deepEqual(compareSchemas(producer, consumer).map(({ kind, path }) => [kind, path]), [
+      ['missing-required', 'total'],
+      ['missing-required', 'currency'],
+    ]);
+  });
+
+  test('reports a type the consumer does not accept, down into array items', () => {
+    const producer: JsonSchema = { type: 'object', properties: { items: { type: 'array', items: { type: 'object', properties: { price: { type: 'string' } } } } } };
+    const consumer: JsonSchema = { type: 'object', properties: { items: { type: 'array', items: { type: 'object', properties: { price: { type: 'number' } } } } } };
+    const [issue, ...rest] = compareSchemas(producer, consumer);
+    assert.deepEqual(rest, []);
+    assert.equal(issue.kind, 'type-change');
+    assert.equal(issue.path, 'items[].price');
+    assert.equal(issue.detail, 'producer sends string, consumer expects number');
+  });
+
+  test('accepts an integer where the consumer expects a number', () => {
+    assert.deepEqual(compareSchemas({ type: 'integer' }, { type: 'number' }), []);
+  });
+
+  test('reports properties a consumer with additionalProperties: false would reject', () => {
+    const producer: JsonSchema = { ...ORDER_CREATED, properties: { ...ORDER_CREATED.properties, note: { type: 'string' } } };
+    const consumer: JsonSchema = { ...ORDER_CREATED, additionalProperties: false };
+    assert.deepEqual(compareSchemas(producer, consumer).map(({ kind, path }) => [kind, path]), [
+      ['additional-properties', 'note'],
+      ['additional-properties', '(payload)'],
+    ]);
+  });
+});
+
+describe('checkDrift', () => {
+  test('reports no issues when the producer and consumer agree', () => {
+    const [drift, ...rest] = checkDrift([spec('orders', 'send', ORDER_CREATED), spec('inventory', 'receive', ORDER_CREATED)]);
+    assert.deepEqual(rest, []);
+    assert.equal(drift.channel, 'orders.created');
+    assert.deepEqual(drift.producers.map(p => p.service), ['orders']);
+    assert.deepEqual(drift.consumers.map(c => c.service), ['inventory']);
+    assert.equal(drift.unproduced, false);
+    assert.deepEqual(drift.issues, []);
+  });
+
+  test('reports where a consumer copy has drifted from the producer', () => {
+    const drifted: JsonSchema = { ...ORDER_CREATED, properties: { ...ORDER_CREATED.properties, total: { type: 'string' } } };
+    const [drift] = checkDrift([spec('orders', 'send', ORDER_CREATED), spec('payment', 'receive', drifted)]);
+    assert.equal(drift.issues.length, 1);
+    const [issue] = drift.issues;
+    assert.equal(issue.channel, 'orders.created');
+    assert.equal(issue.kind, 'type-change');
+    assert.equal(issue.path, 'total');
+    assert.deepEqual(issue.producer, { service: 'orders', file: 'orders.yml', messageName: 'OrderCreated' });
+    assert.deepEqual(issue.consumer, { service: 'payment', file: 'payment.yml', messageName: 'OrderCreated' });
+  });
+
+  test('compares the consumer copies with each other when no spec sends on the channel', () => {
+    const optionalTotal: JsonSchema = { ...ORDER_CREATED, required: ['orderId'] };
+    const [drift] = checkDrift([spec('inventory', 'receive', optionalTotal), spec('payment', 'receive', ORDER_CREATED)]);
+    assert.equal(drift.unproduced, true);
+    assert.deepEqual(drift.issues.map(({ producer, consumer, path }) => [producer.service, consumer.service, path]), [
+      ['inventory', 'payment', 'total'],
+    ]);
+  });
+
+  test('skips a channel only one spec uses', () => {
+    assert.deepEqual(checkDrift([spec('orders', 'send', ORDER_CREATED)]), []);
+  });
+});
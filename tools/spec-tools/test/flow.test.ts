@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { buildFlowGraph, toMermaid } from '../src/flow';
+import { SpecDocument, parseSpec } from '../src/specs';
+
+// ============================================================================
+// Event flow topology from the send/receive operations of the specs
+// ============================================================================
+
+/**
+ * spec - An AsyncAPI document for `service` with one operation per entry of
+ * `operations`, each on its own channel carrying `messages`
+ */
+function spec(service: string, operations: Record<string, { action: 'send' | 'receive'; address: string; messages: string[] }>): SpecDocument {
+  const doc = {
+    asyncapi: '3.0.0',
+    info: { title: service, version: '1.0.0' },
+    channels: Object.fromEntries(Object.entries(operations).map(([id, { address, messages }]) => [id, {
+      address,
+      messages: Object.fromEntries(messages.map(name => [name, { $ref: `#/components/messages/${name}` }])),
+    }])),
+    operations: Object.fromEntries(Object.entries(operations).map(([id, { action, messages }]) => [id, {
+      action,
+      channel: { $ref: `#/channels/${id}` },
+      messages: messages.map(name => ({ $ref: `#/channels/${id}/messages/${name}` })),
+    }])),
+    components: {
+      messages: Object.fromEntries(Object.values(operations).flatMap(o => o.messages)
+        .map(name => [name, { payload: { type: 'object' } }])),
+    },
+  };
+  return parseSpec(JSON.stringify(doc), `${service}.yml`);
+}
+
+const ORDERS = spec('orders-service', {
+  sendOrderCreated: { action: 'send', address: 'orders.created', messages: ['OrderCreated'] },
+  sendOrderShipped: { action: 'send', address: 'orders.shipped', messages: ['OrderShipped'] },
+  receivePayment: { action: 'receive', address: 'payments.processed', messages: ['PaymentProcessed', 'PaymentFailed'] },
+});
+const PAYMENT = spec('payment-service', {
+  receiveOrderCreated: { action: 'receive', address: 'orders.created', messages: ['OrderCreated'] },
+});
+const INVENTORY = spec('inventory-service', {
+  receiveOrderCreated: { action: 'receive', address: 'orders.created', messages: ['OrderCreated'] },
+  receiveRestock: { action: 'receive', address: 'inventory.restock', messages: ['RestockRequested'] },
+});
+
+describe('buildFlowGraph', () => {
+  const graph = buildFlowGraph([ORDERS, PAYMENT, INVENTORY]);
+
+  test('lists what every service sends and receives', () => {
+    assert.deepEqual(graph.services, [
+      { name: 'orders-service', file: 'orders-service.yml', sends: ['orders.created', 'orders.shipped'], receives: ['payments.processed'] },
+      { name: 'payment-service', file: 'payment-service.yml', sends: [], receives: ['orders.created'] },
+      { name: 'inventory-service', file: 'inventory-service.yml', sends: [], receives: ['orders.created', 'inventory.restock'] },
+    ]);
+  });
+
+  test('connects the producer of a channel to each of its consumers, sorted by address', () => {
+    assert.deepEqual(graph.channels.map(c => [c.address, c.status]), [
+      ['inventory.restock', 'no-producer'],
+      ['orders.created', 'connected'],
+      ['orders.shipped', 'no-consumer'],
+      ['payments.processed', 'no-producer'],
+    ]);
+    const created = graph.channels.find(c => c.address === 'orders.created')!;
+    assert.deepEqual(created.producers.map(e => [e.service, e.operationId]), [['orders-service', 'sendOrderCreated']]);
+    assert.deepEqual(created.consumers.map(e => e.service), ['payment-service', 'inventory-service']);
+  });
+
+  test('gathers the messages of one operation into one endpoint', () => {
+    const [endpoint, ...rest] = graph.channels.find(c => c.address === 'payments.processed')!.consumers;
+    assert.deepEqual(rest, []);
+    assert.deepEqual(endpoint.messages, ['PaymentProcessed', 'PaymentFailed']);
+  });
+
+  test('reports a channel that is sent but never received, and one received but never sent', () => {
+    assert.deepEqual(graph.orphans, {
+      noConsumer: ['orders.shipped'],
+      noProducer: ['inventory.restock', 'payments.processed'],
+    });
+  });
+
+  test('reports no orphans once every channel has both sides', () => {
+    const shipping = spec('shipping-service', {
+      receiveOrderShipped: { action: 'receive', address: 'orders.shipped', messages: ['OrderShipped'] },
+      sendPayment: { action: 'send', address: 'payments.processed', messages: ['PaymentProcessed'] },
+      sendRestock: { action: 'send', address: 'inventory.restock', messages: ['RestockRequested'] },
+    });
+    assert.deepEqual(buildFlowGraph([ORDERS, PAYMENT, INVENTORY, shipping]).orphans, { noConsumer: [], noProducer: [] });
+  });
+
+  test('highlights the orphans in the Mermaid chart', () => {
+    const chart = toMermaid(graph);
+    assert.match(chart, /^ {2}svc_orders_service --> ch_orders_shipped$/m);
+    assert.match(chart, /^ {2}class ch_orders_shipped noConsumer$/m);
+    assert.match(chart, /^ {2}class ch_inventory_restock,ch_payments_processed noProducer$/m);
+  });
+});
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, beforeEach, describe, test } from 'node:test';
+import {
+  BEGIN_MARKER, END_MARKER, ManifestError, ServiceManifest,
+  applyGenerators, checkManifest, loadManifest, renderGenerators,
+} from '../src/manifest';
+
+// ============================================================================
+// The service manifest checked against a catalog directory in a temp dir
+// ============================================================================
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-tools-manifest-'));
+let catalogDir: string;
+let run = 0;
+
+const MANIFEST = `
+domains:
+  orders:
+    name: Orders
+    version: 1.0
+services:
+  - id: orders-service
+    asyncapi: orders-service.yml
+    domain: orders
+    owners: [order-team]
+  - id: payment-service
+    asyncapi: payment-service.yml
+    domain: orders
+    owners: [jane]
+`;
+
+function write(file: string, text: string): string {
+  const target = path.join(catalogDir, file);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, text);
+  return target;
+}
+
+function manifest(text: string = MANIFEST): ServiceManifest {
+  return loadManifest(write('services.manifest.yml', text));
+}
+
+beforeEach(() => {
+  catalogDir = path.join(root, String(++run));
+  write('teams/order-team.mdx', '---\nid: order-team\nmembers: [jane]\n---\n');
+  write('users/jane.mdx', '---\nid: jane\n---\n');
+  write('asyncapi-files/orders-service.yml', 'asyncapi: 3.0.0\n');
+  write('asyncapi-files/payment-service.yml', 'asyncapi: 3.0.0\n');
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+describe('loadManifest', () => {
+  test('reads domains and services, with versions as strings', () => {
+    assert.deepEqual(manifest(), {
+      domains: { orders: { name: 'Orders', version: '1' } },
+      services: [
+        { id: 'orders-service', asyncapi: 'orders-service.yml', domain: 'orders', owners: ['order-team'] },
+        { id: 'payment-service', asyncapi: 'payment-service.yml', domain: 'orders', owners: ['jane'] },
+      ],
+    });
+  });
+
+  test('names the entry that is not shaped like a service', () => {
+    const broken = MANIFEST.replace('    owners: [jane]', '    owners: jane');
+    assert.throws(() => manifest(broken), (err: unknown) => err instanceof ManifestError
+      && /services\[1\] \(payment-service\): owners must be a list/.test(err.message));
+    assert.throws(() => manifest('domains: {}\nservices:\n  - asyncapi: x.yml\n'), /services\[0\]: expected an object with an id/);
+    assert.throws(() => manifest('domains:\n  orders: Orders\nservices: []\n'), /domains\.orders: expected \{ name, version \}/);
+  });
+});
+
+describe('checkManifest', () => {
+  test('finds no problems when the manifest matches the catalog', () => {
+    assert.deepEqual(checkManifest(manifest(), catalogDir), []);
+  });
+
+  test('fails a stale manifest that misses a new AsyncAPI file and lists a deleted one', () => {
+    write('asyncapi-files/shipping-service.yml', 'asyncapi: 3.0.0\n');
+    fs.rmSync(path.join(catalogDir, 'asyncapi-files/payment-service.yml'));
+    const errors = checkManifest(manifest(), catalogDir).filter(p => p.level === 'error').map(p => p.message);
+    assert.deepEqual(errors, [
+      'payment-service: asyncapi-files/payment-service.yml does not exist',
+      'asyncapi-files/shipping-service.yml is not in the manifest',
+    ]);
+  });
+
+  test('fails owners and domains the catalog does not know', () => {
+    fs.rmSync(path.join(catalogDir, 'users/jane.mdx'));
+    const stale = manifest(MANIFEST.replace('    domain: orders\n    owners: [order-team]', '    domain: sales\n    owners: []'));
+    assert.deepEqual(checkManifest(stale, catalogDir), [
+      { level: 'error', message: 'orders-service: unknown domain "sales"' },
+      { level: 'error', message: 'orders-service: no owners' },
+      { level: 'error', message: 'payment-service: unknown owner "jane" (not a team in teams/ or a user in users/)' },
+      { level: 'warning', message: 'team "order-team" lists unknown member "jane"' },
+    ]);
+  });
+});
+
+describe('renderGenerators and applyGenerators', () => {
+  const config = (generated: string) => `module.exports = {\n  title: 'Catalog',\n${generated}\n};\n`;
+
+  test('leaves a config that is up to date unchanged and rewrites a stale one', () => {
+    const current = config(renderGenerators(manifest()));
+    assert.equal(applyGenerators(current, renderGenerators(manifest())), current);
+
+    const changed = manifest(MANIFEST.replace('owners: [jane]', 'owners: [jane, order-team]'));
+    const updated = applyGenerators(current, renderGenerators(changed));
+    assert.notEqual(updated, current);
+    assert.match(updated, /id: 'payment-service', owners: \['jane', 'order-team'\]/);
+    assert.equal(updated, config(renderGenerators(changed)));
+  });
+
+  test('refuses a config without the generated block', () => {
+    assert.throws(() => applyGenerators(config(''), renderGenerators(manifest())),
+      new RegExp(`no "${BEGIN_MARKER}" \\.\\.\\. "${END_MARKER}" block`));
+  });
+});